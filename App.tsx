@@ -1,103 +1,292 @@
-
-import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Message, Role } from './types';
-import { startChatStream, processImageTask } from './services/geminiService';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
+import { AppSettings, Attachment, ChatMode, ChatRoute, ChatSessionState, Conversation, DeliveryState, Message, MessageThoughts, Role, TokenUsage, ToolCall, VoiceSettings } from './types';
+import { createProvider } from './services/providerRegistry';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { planContext, prepareContext, toSendableHistory } from './services/contextManager';
+import { classifyError } from './services/errors';
+import { getModeLabel, getRouteProblem, resolveRoute } from './services/intentRouter';
+import {
+  createConversation,
+  deriveTitle,
+  loadActiveConversationId,
+  saveActiveConversationId,
+  sortConversations,
+  DEFAULT_TITLE,
+} from './services/conversationStore';
+import { openConversationStore, ConversationWriter } from './services/chatDatabase';
+import { downloadBlob, exportConversation, ExportFormat, parseConversationImport } from './services/conversationExport';
+import { createSearchClient, SearchClient } from './services/searchClient';
+import { SearchQuery } from './services/searchIndex';
+import { carryImage, getImageVersions, imagesOf, imageToAttachment, maskOf } from './services/attachments';
+import { createMessageId, findLatestLeaf, getActivePath, getSiblings } from './services/messageTree';
+import { findPersona } from './services/personas';
+import { createToolRuntime } from './services/toolRegistry';
+import { BUILTIN_TOOLS } from './services/builtinTools';
+import { speak, stopSpeaking } from './services/speech';
+import { costOf, formatCost, periodStart, spentThisPeriod } from './services/usage';
+import { applyWatermark } from './services/watermark';
+import { embedProvenance, hashPrompt, PROVENANCE_GENERATOR } from './services/provenance';
+import { CONNECTION_LABELS, ConnectionStatus, ConnectivityMonitor, createConnectivityMonitor } from './services/connectivity';
+import { collectBranch, countQueued, hasQueued, leadOutbox, nextInOutbox, outboxParent } from './services/outbox';
+import { applyRemoteChanges, createTabSync, TabSync } from './services/tabSync';
+import { isShareFragment } from './services/shareLink';
 import ChatMessage from './components/ChatMessage';
 import ChatInput from './components/ChatInput';
+import ImageVersionsPanel from './components/ImageVersionsPanel';
 import LoadingIndicator from './components/LoadingIndicator';
-import { Sparkles, MessageSquare, Trash2, Cpu, AlertCircle, Image as ImageIcon, Plus, BrainCircuit } from 'lucide-react';
-
-const STORAGE_KEY = 'zuno_chat_history';
+import Sidebar from './components/Sidebar';
+import SettingsPanel from './components/SettingsPanel';
+import ExportMenu from './components/ExportMenu';
+import SearchPanel from './components/SearchPanel';
+import VoiceMode from './components/VoiceMode';
+import UsagePanel from './components/UsagePanel';
+import VerifyImagePanel from './components/VerifyImagePanel';
+import ShareDialog from './components/ShareDialog';
+import SharedConversationView from './components/SharedConversationView';
+import { Sparkles, Trash2, Cpu, AlertCircle, Image as ImageIcon, Plus, BrainCircuit, PanelLeft, X, Settings, Search, UserRound, BarChart3, ShieldCheck, Lock, Share2 } from 'lucide-react';
 
 /**
- * Utility to apply a watermark to a base64 image
+ * Stands in for the prompt when the user sends attachments without text.
  */
-const applyWatermark = (base64Data: string, mimeType: string): Promise<string> => {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        resolve(base64Data);
-        return;
-      }
-
-      // Set canvas size to match image
-      canvas.width = img.width;
-      canvas.height = img.height;
-
-      // Draw the original image
-      ctx.drawImage(img, 0, 0);
-
-      // Setup watermark style
-      const fontSize = Math.max(20, Math.floor(img.width / 40));
-      ctx.font = `bold ${fontSize}px Inter, sans-serif`;
-      const text = "ZUNO AI by SIJAN";
-      
-      // Measure text for background
-      const metrics = ctx.measureText(text);
-      const padding = fontSize * 0.8;
-      const rectWidth = metrics.width + padding * 2;
-      const rectHeight = fontSize + padding;
-      
-      // Draw semi-transparent background for readability at the bottom right
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
-      ctx.fillRect(
-        canvas.width - rectWidth - padding, 
-        canvas.height - rectHeight - padding, 
-        rectWidth, 
-        rectHeight
-      );
-
-      // Draw watermark text
-      ctx.fillStyle = 'white';
-      ctx.textBaseline = 'middle';
-      ctx.textAlign = 'center';
-      ctx.fillText(
-        text, 
-        canvas.width - rectWidth / 2 - padding, 
-        canvas.height - rectHeight / 2 - padding
-      );
-
-      // Export back to base64
-      const resultBase64 = canvas.toDataURL(mimeType).split(',')[1];
-      resolve(resultBase64);
-    };
-    img.onerror = () => resolve(base64Data);
-    img.src = `data:${mimeType};base64,${base64Data}`;
-  });
+const defaultPrompt = (attachments: Attachment[]) => {
+  if (attachments.length === 0) return "";
+  if (attachments.every(att => att.kind === 'image')) {
+    return attachments.length === 1 ? "Analyze this image" : "Analyze these images";
+  }
+  return attachments.length === 1 ? "Take a look at the attached file" : "Take a look at the attached files";
 };
 
+const upsertToolCall = (calls: ToolCall[] = [], call: ToolCall) =>
+  calls.some(existing => existing.id === call.id)
+    ? calls.map(existing => existing.id === call.id ? call : existing)
+    : [...calls, call];
+
 const App: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const [isStreaming, setIsStreaming] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  const [conversations, setConversations] = useState<Conversation[]>(() => [createConversation([], settings.defaultPersonaId)]);
+  const [activeId, setActiveId] = useState<string>(() => conversations[0].id);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isThinking, setIsThinking] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isVerifyOpen, setIsVerifyOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  // The `#share=` fragment of a shared conversation being viewed.
+  const [sharedHash, setSharedHash] = useState<string | null>(() => isShareFragment(location.hash) ? location.hash : null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
+  const [isVoiceModeOpen, setIsVoiceModeOpen] = useState(false);
+  const [readingMessageId, setReadingMessageId] = useState<string | null>(null);
+  const [carriedImage, setCarriedImage] = useState<Attachment | null>(null);
+  const [versionsImageId, setVersionsImageId] = useState<string | null>(null);
+  const [connection, setConnection] = useState<ConnectionStatus>(() => navigator.onLine ? 'online' : 'offline');
+  const connectivityRef = useRef<ConnectivityMonitor | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const writerRef = useRef<ConversationWriter | null>(null);
+  const tabSyncRef = useRef<TabSync | null>(null);
+  // Conversations another tab is generating in; read-only here until it finishes.
+  const [lockedIds, setLockedIds] = useState<Set<string>>(() => new Set());
+  // Whether this tab is the one sending the outbox (see services/outbox.ts).
+  const [leadsOutbox, setLeadsOutbox] = useState(false);
+  const searchClientRef = useRef<SearchClient | null>(null);
+  const activeRequestsRef = useRef(new Map<string, { controller: AbortController; modelMessageId: string; parentId: string }>());
+  const toolApprovalsRef = useRef(new Map<string, (approved: boolean) => void>());
+  // Start of the budget period in which the user chose to keep sending past the budget.
+  const budgetAcknowledgedRef = useRef<number | null>(null);
+
+  const activeConversation = conversations.find(conv => conv.id === activeId) ?? conversations[0];
+  const { messages, activeLeafId, contextSummary, isLoading, isStreaming } = activeConversation.session;
+  const visibleMessages = useMemo(() => getActivePath(messages, activeLeafId), [messages, activeLeafId]);
+  const contextPlan = useMemo(
+    () => planContext(toSendableHistory(visibleMessages), { content: "" }, settings.context, contextSummary),
+    [visibleMessages, settings.context, contextSummary]
+  );
+  const provider = useMemo(() => createProvider(settings.provider), [settings.provider]);
+  const activePersona = findPersona(settings.personas, activeConversation.personaId);
+  const canThink = provider.capabilities.thinking;
+  const isLocked = lockedIds.has(activeConversation.id);
+  const queuedCount = useMemo(() => countQueued(conversations), [conversations]);
+
+  useEffect(() => {
+    const monitor = createConnectivityMonitor(provider.checkHealth, setConnection);
+    connectivityRef.current = monitor;
+    return () => monitor.dispose();
+  }, [provider]);
 
   useEffect(() => {
-    const savedHistory = localStorage.getItem(STORAGE_KEY);
-    if (savedHistory) {
-      try {
-        const parsed: Message[] = JSON.parse(savedHistory);
-        const hydratedMessages = parsed.map(msg => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-        setMessages(hydratedMessages);
-      } catch (err) {
+    let cancelled = false;
+    openConversationStore(err => setStorageError(err.message))
+      .then(({ conversations: saved, writer }) => {
+        if (cancelled) return;
+        writerRef.current = writer;
+        if (saved.length > 0) {
+          const savedActiveId = loadActiveConversationId();
+          setConversations(saved);
+          setActiveId(saved.some(conv => conv.id === savedActiveId)
+            ? savedActiveId!
+            : sortConversations(saved)[0].id);
+        }
+        setIsHydrated(true);
+      })
+      .catch(err => {
         console.error("Failed to load chat history:", err);
+        setStorageError("Chat history could not be loaded. New messages will not be saved.");
+        setIsHydrated(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => {
+    if (isHydrated) writerRef.current?.schedule(conversations);
+  }, [conversations, isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const sync = createTabSync(conversations, {
+      onChanges: changes => setConversations(prev => {
+        const next = applyRemoteChanges(prev, changes);
+        return next.length > 0 ? next : [createConversation()];
+      }),
+      onLockedChange: setLockedIds,
+    });
+    tabSyncRef.current = sync;
+    return () => sync.dispose();
+  }, [isHydrated]);
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    tabSyncRef.current?.publish(conversations);
+    tabSyncRef.current?.setBusy(conversations.filter(conv => conv.session.isLoading || conv.session.isStreaming).map(conv => conv.id));
+  }, [conversations, isHydrated]);
+
+  useEffect(() => {
+    const client = createSearchClient();
+    searchClientRef.current = client;
+    return () => client.dispose();
+  }, []);
+
+  useEffect(() => {
+    if (isHydrated) searchClientRef.current?.schedule(conversations);
+  }, [conversations, isHydrated]);
+
+  useEffect(() => {
+    const openSearchOnShortcut = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsSearchOpen(true);
       }
-    }
+    };
+    document.addEventListener('keydown', openSearchOnShortcut);
+    return () => document.removeEventListener('keydown', openSearchOnShortcut);
+  }, []);
+
+  useEffect(() => {
+    const flushOnHide = () => {
+      if (document.visibilityState === 'hidden') writerRef.current?.flush();
+    };
+    document.addEventListener('visibilitychange', flushOnHide);
+    return () => document.removeEventListener('visibilitychange', flushOnHide);
   }, []);
 
   useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+    if (isHydrated) saveActiveConversationId(activeId);
+  }, [activeId, isHydrated]);
+
+  const handleSaveSettings = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const handleVoiceChange = (patch: Partial<VoiceSettings>) =>
+    handleSaveSettings({ ...settings, voice: { ...settings.voice, ...patch } });
+
+  const handleReadAloud = (msg: Message) => {
+    if (readingMessageId === msg.id) {
+      stopSpeaking();
+      setReadingMessageId(null);
+      return;
     }
-  }, [messages]);
+    setReadingMessageId(msg.id);
+    speak(msg.content, settings.voice).then(() =>
+      // A newer read-aloud may have taken over in the meantime.
+      setReadingMessageId(current => current === msg.id ? null : current)
+    );
+  };
+
+  const handleOpenVoiceMode = () => {
+    stopSpeaking();
+    setReadingMessageId(null);
+    setIsVoiceModeOpen(true);
+  };
+
+  const handleCloseVoiceMode = useCallback(() => setIsVoiceModeOpen(false), []);
+
+  const handleCloseUsage = useCallback(() => setIsUsageOpen(false), []);
+
+  const handleCloseVerify = useCallback(() => setIsVerifyOpen(false), []);
+
+  const handleCloseShare = useCallback(() => setIsShareOpen(false), []);
+
+  useEffect(() => {
+    const openSharedOnHashChange = () => setSharedHash(isShareFragment(location.hash) ? location.hash : null);
+    window.addEventListener('hashchange', openSharedOnHashChange);
+    return () => window.removeEventListener('hashchange', openSharedOnHashChange);
+  }, []);
+
+  // Drops the fragment too, so a reload does not open the shared view again.
+  const handleCloseShared = useCallback(() => {
+    history.replaceState(null, '', location.pathname + location.search);
+    setSharedHash(null);
+  }, []);
+
+  const handleContinueShared = (shared: Conversation) => {
+    setConversations(prev => [...prev, shared]);
+    setActiveId(shared.id);
+    handleCloseShared();
+  };
+
+  const handleEditImage = (image: Attachment) => setCarriedImage(carryImage(image));
+
+  const handleCarriedImageTaken = useCallback(() => setCarriedImage(null), []);
+
+  const handleCloseVersions = useCallback(() => setVersionsImageId(null), []);
+
+  const updateConversation = useCallback((id: string, updater: (conv: Conversation) => Conversation) => {
+    setConversations(prev => prev.map(conv => conv.id === id ? updater(conv) : conv));
+  }, []);
+
+  const updateSession = useCallback((id: string, patch: Partial<ChatSessionState>) => {
+    updateConversation(id, conv => ({ ...conv, session: { ...conv.session, ...patch } }));
+  }, [updateConversation]);
+
+  const updateMessages = useCallback((
+    id: string,
+    updater: (prev: Message[]) => Message[],
+    activeLeafId?: string
+  ) => {
+    updateConversation(id, conv => {
+      const nextMessages = updater(conv.session.messages);
+      return {
+        ...conv,
+        // Keep deriving the title until the thread has one (or the user renamed it).
+        title: conv.title === DEFAULT_TITLE ? deriveTitle(nextMessages) : conv.title,
+        updatedAt: new Date(),
+        session: {
+          ...conv.session,
+          messages: nextMessages,
+          activeLeafId: activeLeafId ?? conv.session.activeLeafId,
+        },
+      };
+    });
+  }, [updateConversation]);
+
+  const setDelivery = useCallback((conversationId: string, messageId: string, delivery: DeliveryState | undefined) => {
+    updateMessages(conversationId, prev => prev.map(msg => msg.id === messageId
+      ? { ...msg, delivery, sendingTab: delivery === 'sending' ? msg.sendingTab : undefined }
+      : msg));
+  }, [updateMessages]);
 
   const scrollToBottom = useCallback((behavior: ScrollBehavior = 'smooth') => {
     messagesEndRef.current?.scrollIntoView({ behavior });
@@ -107,207 +296,776 @@ const App: React.FC = () => {
     scrollToBottom();
   }, [messages, isLoading, scrollToBottom]);
 
-  const handleSendMessage = async (content: string, image?: { data: string; mimeType: string }) => {
-    setError(null);
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: Role.USER,
-      content: content || (image ? "Analyze this image" : ""),
-      timestamp: new Date(),
-      image,
-    };
+  // Runs after the scroll-to-bottom above, so a search jump wins.
+  useEffect(() => {
+    if (!flashMessageId) return;
+    document.getElementById(`message-${flashMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setFlashMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [flashMessageId]);
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
+  /**
+   * Generates the model's reply to `userMessage`, which must already be in the
+   * tree. `history` is the active branch above it.
+   */
+  const generateReply = async (conversationId: string, userMessage: Message, history: Message[]) => {
+    const content = userMessage.content;
+    const attachments = userMessage.attachments ?? [];
+    const modelMessageId = createMessageId();
+    const controller = new AbortController();
+    activeRequestsRef.current.set(conversationId, { controller, modelMessageId, parentId: userMessage.id });
+    updateSession(conversationId, { isLoading: true, error: null });
+    let failed = false;
+    if (userMessage.delivery === 'failed') setDelivery(conversationId, userMessage.id, 'sending');
 
     try {
-      const modelMessageId = (Date.now() + 1).toString();
+      // Regenerating keeps the route already chosen for this prompt.
+      const route = userMessage.route
+        ?? await resolveRoute(provider, userMessage.mode ?? 'auto', content, attachments, controller.signal);
+      if (controller.signal.aborted) return;
+
+      const problem = getRouteProblem(route, attachments, provider.capabilities);
+      if (problem) {
+        throw new Error(`${getModeLabel(route)} is not available: ${problem} You can change the provider in Settings.`);
+      }
+      if (!userMessage.route) {
+        updateMessages(conversationId, prev =>
+          prev.map(msg => msg.id === userMessage.id ? { ...msg, route } : msg)
+        );
+      }
 
-      // HEURISTIC: Use 2.5 Flash Image only if specific "edit" keywords are detected in a non-thinking session.
-      // Otherwise, use 3 Pro for analysis/reasoning as requested.
-      const isEditRequest = image && !isThinking && /filter|add|remove|change|replace|edit|make/i.test(content);
+      if (route === 'edit-image' || route === 'generate-image') {
+        // Image editing or generation task (Nano banana on Gemini)
+        const [source] = imagesOf(userMessage);
+        const isEdit = route === 'edit-image' && !!source;
+        const prompt = content || "Process this image";
+        const response = await provider.processImageTask(
+          prompt,
+          source,
+          controller.signal,
+          isEdit ? maskOf(userMessage) : undefined,
+        );
+        if (controller.signal.aborted) return;
 
-      if (isEditRequest && image) {
-        // Nano banana image editing task (Gemini 2.5 Flash Image)
-        const response = await processImageTask(content || "Process this image", image);
-        
         let finalImage = response.image;
         if (finalImage) {
-          const watermarkedData = await applyWatermark(finalImage.data, finalImage.mimeType);
-          finalImage = { ...finalImage, data: watermarkedData };
+          finalImage = await applyWatermark(finalImage, settings.watermark);
+          if (settings.watermark.embedProvenance) {
+            finalImage = embedProvenance(finalImage, {
+              generator: PROVENANCE_GENERATOR,
+              model: response.usage?.model ?? provider.label,
+              promptHash: await hashPrompt(prompt),
+              createdAt: new Date().toISOString(),
+            });
+          }
         }
 
         const modelMessage: Message = {
           id: modelMessageId,
+          parentId: userMessage.id,
           role: Role.MODEL,
           content: response.text,
           timestamp: new Date(),
-          image: finalImage || undefined,
+          usage: response.usage,
+          attachments: finalImage
+            ? [{
+              ...imageToAttachment(finalImage, `zuno-image.${finalImage.mimeType.split('/')[1] ?? 'png'}`),
+              sourceId: isEdit ? source.id : undefined,
+            }]
+            : undefined,
         };
-        setMessages(prev => [...prev, modelMessage]);
+        updateMessages(conversationId, prev => [...prev, modelMessage], modelMessageId);
       } else {
-        // Chat Understanding or Thinking (Gemini 3 Pro/Flash Preview)
+        // Chat Understanding or Thinking
+        const prompt = content || "Analyze the uploaded content";
+        const conversation = conversations.find(conv => conv.id === conversationId);
+        const previousSummary = conversation?.session.contextSummary ?? null;
+        const persona = findPersona(settings.personas, conversation?.personaId);
+        const context = await prepareContext(
+          provider,
+          toSendableHistory(history),
+          { content: prompt, attachments },
+          settings.context,
+          previousSummary,
+          controller.signal
+        );
+        if (controller.signal.aborted) return;
+        if (context.summary !== previousSummary) {
+          updateSession(conversationId, { contextSummary: context.summary });
+        }
+
         let streamContent = "";
         const initialModelMessage: Message = {
           id: modelMessageId,
+          parentId: userMessage.id,
           role: Role.MODEL,
           content: "",
           timestamp: new Date(),
         };
 
-        const historyForAPI = [...messages, userMessage];
-        setMessages(prev => [...prev, initialModelMessage]);
-        setIsStreaming(true);
-        setIsLoading(false); 
+        updateMessages(conversationId, prev => [...prev, initialModelMessage], modelMessageId);
+        updateSession(conversationId, { isStreaming: true, isLoading: false });
+
+        const tools = settings.tools.enabled && provider.capabilities.tools
+          ? createToolRuntime({
+              tools: BUILTIN_TOOLS,
+              settings: settings.tools,
+              onUpdate: (call) => updateMessages(conversationId, prev =>
+                prev.map(msg => msg.id === modelMessageId ? { ...msg, toolCalls: upsertToolCall(msg.toolCalls, call) } : msg)
+              ),
+              requestApproval: (call, signal) => new Promise(resolve => {
+                if (signal?.aborted) return resolve(false);
+                const settle = (approved: boolean) => {
+                  toolApprovalsRef.current.delete(call.id);
+                  signal?.removeEventListener('abort', onAbort);
+                  resolve(approved);
+                };
+                const onAbort = () => settle(false);
+                signal?.addEventListener('abort', onAbort);
+                toolApprovalsRef.current.set(call.id, settle);
+              }),
+            })
+          : undefined;
+
+        // Thinking ends when the answer starts (or the stream does); later tool rounds may resume it.
+        let thoughts: MessageThoughts | undefined;
+        const finishThinking = () => {
+          if (thoughts && thoughts.durationMs === undefined) {
+            thoughts = { ...thoughts, durationMs: Date.now() - thoughts.startedAt };
+          }
+        };
+        const onThought = (text: string) => {
+          if (controller.signal.aborted) return;
+          thoughts = { text: (thoughts?.text ?? "") + text, startedAt: thoughts?.startedAt ?? Date.now() };
+          updateMessages(conversationId, prev =>
+            prev.map(msg => msg.id === modelMessageId ? { ...msg, thoughts } : msg)
+          );
+        };
+
+        // Recorded even if the reply is stopped later: the finished rounds were billed.
+        const onUsage = (usage: TokenUsage) => updateMessages(conversationId, prev =>
+          prev.map(msg => msg.id === modelMessageId ? { ...msg, usage } : msg)
+        );
 
-        await startChatStream(
-          historyForAPI.slice(0, -1), 
-          content || "Analyze the uploaded content", 
+        await provider.startChatStream(
+          context.history,
+          prompt,
           (chunk) => {
+            if (controller.signal.aborted) return;
             streamContent += chunk;
-            setMessages(prev => 
-              prev.map(msg => 
+            finishThinking();
+            updateMessages(conversationId, prev =>
+              prev.map(msg =>
                 msg.id === modelMessageId 
-                  ? { ...msg, content: streamContent } 
+                  ? { ...msg, content: streamContent, thoughts } 
                   : msg
               )
             );
           },
-          { thinking: isThinking, image: image }
+          { thinking: isThinking && canThink, attachments, persona, tools, onThought, onUsage, signal: controller.signal }
         );
+        if (thoughts && thoughts.durationMs === undefined && !controller.signal.aborted) {
+          finishThinking();
+          updateMessages(conversationId, prev =>
+            prev.map(msg => msg.id === modelMessageId ? { ...msg, thoughts } : msg)
+          );
+        }
       }
     } catch (err: any) {
+      if (controller.signal.aborted) return;
       console.error("Chat Error:", err);
-      setError(err.message || "An unexpected error occurred.");
+      failed = true;
+      const error = classifyError(err).toMessageError();
+      if (error.kind === 'network') connectivityRef.current?.recheck();
+      updateSession(conversationId, { error: error.message });
       const errorMessage: Message = {
-        id: Date.now().toString(),
+        id: modelMessageId,
+        parentId: userMessage.id,
         role: Role.MODEL,
-        content: `**Error:** ${err.message || "I'm having trouble processing that request. Please try again."}`,
+        content: "",
         timestamp: new Date(),
+        error,
       };
-      setMessages(prev => {
-        const lastMsg = prev[prev.length - 1];
-        if (lastMsg && lastMsg.role === Role.MODEL && lastMsg.content === "") {
-          return [...prev.slice(0, -1), errorMessage];
+      // Keep whatever streamed before the failure alongside the error.
+      updateMessages(conversationId, prev => {
+        if (prev.some(msg => msg.id === modelMessageId)) {
+          return prev.map(msg => msg.id === modelMessageId ? { ...msg, error } : msg);
         }
         return [...prev, errorMessage];
-      });
+      }, modelMessageId);
     } finally {
-      setIsLoading(false);
-      setIsStreaming(false);
+      // Stopping a prompt from the outbox counts as sending it.
+      if (userMessage.delivery) setDelivery(conversationId, userMessage.id, failed ? 'failed' : undefined);
+      // A stopped request has already unlocked the input, and a newer one may own the session now.
+      if (activeRequestsRef.current.get(conversationId)?.controller === controller) {
+        activeRequestsRef.current.delete(conversationId);
+        updateSession(conversationId, { isLoading: false, isStreaming: false });
+      }
     }
   };
 
+  /**
+   * Soft budget check: once spending this period reaches the budget, asks
+   * before sending. Agreeing covers the rest of the period.
+   */
+  const confirmBudget = () => {
+    const { budget, budgetPeriod } = settings.usage;
+    if (budget <= 0) return true;
+    const period = periodStart(budgetPeriod).getTime();
+    if (budgetAcknowledgedRef.current === period) return true;
+    const spent = spentThisPeriod(conversations, settings.usage);
+    if (spent < budget) return true;
+    const periodName = budgetPeriod === 'day' ? "today" : "this month";
+    if (!confirm(`You have spent about ${formatCost(spent)} ${periodName}, over your ${formatCost(budget)} budget. Send anyway?`)) {
+      return false;
+    }
+    budgetAcknowledgedRef.current = period;
+    return true;
+  };
+
+  const handleSendMessage = async (
+    content: string,
+    attachments: Attachment[] = [],
+    mode: ChatMode = 'auto'
+  ) => {
+    if (!isHydrated || isLocked || !confirmBudget()) return;
+    const userMessage: Message = {
+      id: createMessageId(),
+      parentId: activeLeafId,
+      role: Role.USER,
+      content: content || defaultPrompt(attachments),
+      timestamp: new Date(),
+      attachments: attachments.length > 0 ? attachments : undefined,
+      mode,
+      route: mode === 'auto' ? undefined : mode,
+    };
+
+    // Offline, or behind prompts still waiting: the outbox effect below sends it later.
+    if (connection !== 'online' || hasQueued(messages)) {
+      updateMessages(activeConversation.id, prev => [...prev, { ...userMessage, delivery: 'queued' }], userMessage.id);
+      return;
+    }
+    updateMessages(activeConversation.id, prev => [...prev, userMessage], userMessage.id);
+    await generateReply(activeConversation.id, userMessage, visibleMessages);
+  };
+
+  useEffect(() => {
+    if (!isHydrated) return;
+    const release = leadOutbox(() => setLeadsOutbox(true));
+    return () => {
+      release();
+      setLeadsOutbox(false);
+    };
+  }, [isHydrated]);
+
+  // Sends the outbox once the model is reachable, one prompt per conversation at a time.
+  // Only the leading tab sends, and it claims each prompt before the request starts.
+  useEffect(() => {
+    if (!isHydrated || !leadsOutbox || connection !== 'online') return;
+    for (const conv of conversations) {
+      if (activeRequestsRef.current.has(conv.id) || lockedIds.has(conv.id)) continue;
+      const queued = nextInOutbox(conv.session.messages);
+      if (!queued) continue;
+      const parentId = outboxParent(conv.session.messages, queued);
+      const sending: Message = { ...queued, parentId, delivery: 'sending', sendingTab: tabSyncRef.current?.tabId };
+      updateMessages(conv.id, prev => prev.map(msg => msg.id === queued.id ? sending : msg));
+      generateReply(conv.id, sending, getActivePath(conv.session.messages, parentId));
+    }
+  }, [conversations, connection, isHydrated, leadsOutbox, lockedIds]);
+
+  /**
+   * Takes a prompt out of the outbox, along with any prompts queued after it.
+   */
+  const handleCancelQueued = (queued: Message) => {
+    const removed = collectBranch(messages, queued);
+    const remaining = messages.filter(msg => !removed.has(msg.id));
+    const leafId = activeLeafId && removed.has(activeLeafId)
+      ? (queued.parentId ? findLatestLeaf(remaining, queued.parentId) : null)
+      : activeLeafId;
+    updateMessages(activeConversation.id, () => remaining);
+    updateSession(activeConversation.id, { activeLeafId: leafId });
+  };
+
+  /**
+   * Asks for another answer to the same prompt, as a sibling of `modelMessage`.
+   */
+  const handleRegenerate = async (modelMessage: Message) => {
+    if (!confirmBudget()) return;
+    const path = getActivePath(messages, modelMessage.parentId ?? null);
+    const userMessage = path[path.length - 1];
+    if (!userMessage) return;
+    await generateReply(activeConversation.id, userMessage, path.slice(0, -1));
+  };
+
+  /**
+   * Resends a prompt as a sibling of `original`, keeping its attachments. Used
+   * both for edits and for sending the same prompt down a different route.
+   */
+  const resendAsSibling = async (original: Message, patch: Partial<Message>) => {
+    if (!confirmBudget()) return;
+    const resent: Message = {
+      id: createMessageId(),
+      parentId: original.parentId ?? null,
+      role: Role.USER,
+      content: original.content,
+      timestamp: new Date(),
+      attachments: original.attachments,
+      mode: original.mode,
+      // An auto-routed prompt is classified again, since its text may have changed.
+      route: original.mode === 'auto' ? undefined : original.route,
+      ...patch,
+    };
+
+    updateMessages(activeConversation.id, prev => [...prev, resent], resent.id);
+    await generateReply(activeConversation.id, resent, getActivePath(messages, resent.parentId ?? null));
+  };
+
+  const handleEditMessage = (original: Message, content: string) => resendAsSibling(original, { content });
+
+  const handleReroute = (original: Message, route: ChatRoute) => resendAsSibling(original, { mode: route, route });
+
+  /**
+   * Retries a failed reply. A failure nobody replied to is simply replaced;
+   * otherwise the new attempt becomes a sibling like any regenerate.
+   */
+  const handleRetry = async (failed: Message) => {
+    if (!confirmBudget()) return;
+    const hasReplies = messages.some(msg => msg.parentId === failed.id);
+    if (!hasReplies) {
+      updateMessages(activeConversation.id, prev => prev.filter(msg => msg.id !== failed.id));
+    }
+    await handleRegenerate(failed);
+  };
+
+  const handleToolApproval = (callId: string, approved: boolean) => {
+    toolApprovalsRef.current.get(callId)?.(approved);
+  };
+
+  const handleSelectSibling = (siblingId: string) => {
+    updateSession(activeConversation.id, { activeLeafId: findLatestLeaf(messages, siblingId) });
+  };
+
+  const handleStop = () => {
+    const conversationId = activeConversation.id;
+    const request = activeRequestsRef.current.get(conversationId);
+    if (!request) return;
+
+    request.controller.abort();
+    activeRequestsRef.current.delete(conversationId);
+    updateMessages(conversationId, prev => {
+      if (prev.some(msg => msg.id === request.modelMessageId)) {
+        return prev.map(msg => msg.id === request.modelMessageId ? { ...msg, interrupted: true } : msg);
+      }
+      // Image tasks have no placeholder message yet, so record the stop explicitly.
+      const stoppedMessage: Message = {
+        id: request.modelMessageId,
+        parentId: request.parentId,
+        role: Role.MODEL,
+        content: "",
+        timestamp: new Date(),
+        interrupted: true,
+      };
+      return [...prev, stoppedMessage];
+    }, request.modelMessageId);
+    updateSession(conversationId, { isLoading: false, isStreaming: false });
+  };
+
   const handleNewChat = () => {
+    setIsSidebarOpen(false);
+    if (messages.length === 0) return;
+    const fresh = createConversation([], settings.defaultPersonaId);
+    setConversations(prev => [...prev, fresh]);
+    setActiveId(fresh.id);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    setActiveId(id);
+    setIsSidebarOpen(false);
+  };
+
+  const handleRenameConversation = (id: string, title: string) => {
+    updateConversation(id, conv => ({ ...conv, title }));
+  };
+
+  const handleSelectPersona = (personaId: string) => {
+    updateConversation(activeId, conv => ({ ...conv, personaId }));
+  };
+
+  const handleTogglePin = (id: string) => {
+    updateConversation(id, conv => ({ ...conv, pinned: !conv.pinned }));
+  };
+
+  const handleDeleteConversation = (id: string) => {
+    // The other tab would lose the reply it is still writing.
+    if (lockedIds.has(id)) {
+      alert("This chat is generating a reply in another tab. Delete it once that finishes.");
+      return;
+    }
+    const remaining = conversations.filter(conv => conv.id !== id);
+    if (remaining.length === 0) {
+      const fresh = createConversation([], settings.defaultPersonaId);
+      setConversations([fresh]);
+      setActiveId(fresh.id);
+      return;
+    }
+    setConversations(remaining);
+    if (id === activeId) {
+      setActiveId(sortConversations(remaining)[0].id);
+    }
+  };
+
+  const handleSearch = useCallback(
+    (query: SearchQuery) => searchClientRef.current?.search(query) ?? Promise.resolve([]),
+    []
+  );
+
+  const handleCloseSearch = useCallback(() => setIsSearchOpen(false), []);
+
+  const handleOpenSearchResult = (conversationId: string, messageId: string) => {
+    const target = conversations.find(conv => conv.id === conversationId);
+    if (!target) return;
+    const { messages: targetMessages, activeLeafId: targetLeafId } = target.session;
+    if (!getActivePath(targetMessages, targetLeafId).some(msg => msg.id === messageId)) {
+      updateSession(conversationId, { activeLeafId: findLatestLeaf(targetMessages, messageId) });
+    }
+    setActiveId(conversationId);
+    setIsSearchOpen(false);
+    setIsSidebarOpen(false);
+    setFlashMessageId(messageId);
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const { blob, filename } = exportConversation(activeConversation, format);
+    downloadBlob(blob, filename);
+  };
+
+  const handleImportConversation = async (file: File) => {
+    try {
+      const imported = parseConversationImport(await file.text());
+      setConversations(prev => [...prev, imported]);
+      setActiveId(imported.id);
+      setIsSidebarOpen(false);
+    } catch (err: any) {
+      console.error("Failed to import conversation:", err);
+      alert(`Could not import "${file.name}": ${err.message}`);
+    }
+  };
+
+  const handleDeleteActive = () => {
     if (messages.length === 0) return;
-    if (confirm("Start a new chat? Current history will be cleared.")) {
-      setMessages([]);
-      setError(null);
-      localStorage.removeItem(STORAGE_KEY);
+    if (confirm(`Delete "${activeConversation.title}"? This cannot be undone.`)) {
+      handleDeleteConversation(activeConversation.id);
     }
   };
 
   return (
-    <div className="flex flex-col h-screen bg-zinc-950 text-zinc-100">
-      {/* Header */}
-      <header className="flex-shrink-0 flex items-center justify-between px-6 py-4 border-b border-zinc-900 bg-zinc-950/80 backdrop-blur-xl sticky top-0 z-10">
-        <div className="flex items-center gap-3">
-          <div className="w-9 h-9 bg-white rounded-xl flex items-center justify-center shadow-[0_0_15px_rgba(255,255,255,0.1)]">
-            <Cpu className="text-black" size={20} />
-          </div>
-          <div className="hidden sm:block">
-            <h1 className="font-bold text-lg tracking-tight">Zuno <span className="text-zinc-500 font-medium">AI</span></h1>
-            <div className="flex items-center gap-1.5">
-              <span className="w-1.5 h-1.5 rounded-full bg-green-500 animate-pulse"></span>
-              <span className="text-[10px] text-zinc-500 font-bold uppercase tracking-wider">Connected</span>
+    <div className="flex h-screen bg-zinc-950 text-zinc-100">
+      <Sidebar
+        conversations={conversations}
+        activeId={activeConversation.id}
+        isOpen={isSidebarOpen}
+        onSelect={handleSelectConversation}
+        onNewChat={handleNewChat}
+        onRename={handleRenameConversation}
+        onTogglePin={handleTogglePin}
+        onDelete={handleDeleteConversation}
+        onImport={handleImportConversation}
+        onClose={() => setIsSidebarOpen(false)}
+      />
+
+      <div className="flex flex-col flex-grow min-w-0">
+        {/* Header */}
+        <header className="flex-shrink-0 flex items-center justify-between px-6 py-4 border-b border-zinc-900 bg-zinc-950/80 backdrop-blur-xl sticky top-0 z-10">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsSidebarOpen(true)}
+              className="md:hidden p-2 -ml-2 text-zinc-400 hover:text-zinc-200 rounded-lg transition-colors"
+              title="Show conversations"
+            >
+              <PanelLeft size={20} />
+            </button>
+            <div className="w-9 h-9 bg-white rounded-xl flex items-center justify-center shadow-[0_0_15px_rgba(255,255,255,0.1)]">
+              <Cpu className="text-black" size={20} />
+            </div>
+            <div className="hidden sm:block">
+              <h1 className="font-bold text-lg tracking-tight">Zuno <span className="text-zinc-500 font-medium">AI</span></h1>
+              <div className="flex items-center gap-1.5" title={connection === 'online' ? undefined : "Messages you send now wait in the outbox and go out when the connection is back."}>
+                <span className={`w-1.5 h-1.5 rounded-full ${
+                  connection === 'online' ? 'bg-green-500 animate-pulse' : connection === 'offline' ? 'bg-red-500' : 'bg-amber-500'
+                }`}></span>
+                <span className="text-[10px] text-zinc-500 font-bold uppercase tracking-wider">
+                  {CONNECTION_LABELS[connection]}
+                  {queuedCount > 0 && ` · ${queuedCount} queued`}
+                </span>
+              </div>
             </div>
           </div>
-        </div>
         
-        <div className="flex items-center gap-3">
-          <button
-            onClick={() => setIsThinking(!isThinking)}
-            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all border ${
-              isThinking 
-                ? 'bg-cyan-500/10 border-cyan-500 text-cyan-400 shadow-[0_0_10px_rgba(6,182,212,0.2)]' 
-                : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'
-            }`}
-            title="Toggle Thinking Mode (Pro)"
-          >
-            <BrainCircuit size={16} />
-            <span className="hidden sm:inline">Thinking Mode</span>
-          </button>
-
-          <button 
-            onClick={handleNewChat}
-            disabled={messages.length === 0}
-            className="flex items-center gap-2 px-3 py-1.5 bg-zinc-100 text-zinc-950 hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold transition-all shadow-[0_0_10px_rgba(255,255,255,0.1)]"
-          >
-            <Plus size={16} strokeWidth={3} />
-            <span className="hidden sm:inline">New Chat</span>
-          </button>
-
-          <button 
-            onClick={handleNewChat}
-            disabled={messages.length === 0}
-            className="p-2 text-zinc-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors disabled:opacity-0"
-            title="Clear Chat History"
-          >
-            <Trash2 size={20} />
-          </button>
-        </div>
-      </header>
-
-      {/* Chat Area */}
-      <main className="flex-grow overflow-y-auto px-4 md:px-0 scroll-smooth">
-        <div className="max-w-4xl mx-auto py-8">
-          {messages.length === 0 ? (
-            <div className="h-[60vh] flex flex-col items-center justify-center text-center animate-in fade-in zoom-in duration-700">
-              <div className="w-20 h-20 bg-zinc-900 border border-zinc-800 rounded-3xl flex items-center justify-center mb-6 shadow-2xl">
-                <Sparkles size={40} className="text-cyan-400" />
-              </div>
-              <h2 className="text-2xl font-bold mb-3 tracking-tight">Hello, I'm Zuno.</h2>
-              <p className="text-zinc-500 max-w-sm mx-auto text-sm">
-                Advanced AI powered by Gemini 3. {isThinking ? "Thinking mode active." : "Deeply analytical."}
-              </p>
-              
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-12 w-full max-w-lg">
-                {[
-                  { icon: <ImageIcon size={16} />, text: "Upload a photo and ask 'What is in this image?'" },
-                  { icon: <BrainCircuit size={16} />, text: "Enable Thinking Mode for complex coding help" },
-                ].map((item, idx) => (
-                  <button
-                    key={idx}
-                    onClick={() => handleSendMessage(item.text)}
-                    className="flex items-center gap-3 px-4 py-3 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-xl transition-all text-sm text-zinc-300 text-left"
-                  >
-                    <span className="text-zinc-500">{item.icon}</span>
-                    {item.text}
-                  </button>
+          <div className="flex items-center gap-3">
+            {messages.length > 0 && (
+              <span
+                className={`hidden md:inline text-[10px] font-bold uppercase tracking-wider tabular-nums ${
+                  contextPlan.estimatedTokens > contextPlan.budget * 0.8 ? 'text-amber-500' : 'text-zinc-600'
+                }`}
+                title="Estimated tokens sent with the next message"
+              >
+                ~{(contextPlan.estimatedTokens / 1000).toFixed(1)}k / {Math.round(contextPlan.budget / 1000)}k tokens
+              </span>
+            )}
+
+            <label
+              className="flex items-center gap-1.5 px-2 py-1.5 bg-zinc-900 border border-zinc-800 rounded-lg text-xs text-zinc-400"
+              title="Persona for this conversation"
+            >
+              <UserRound size={16} className="flex-shrink-0" />
+              <select
+                value={activePersona.id}
+                onChange={(e) => handleSelectPersona(e.target.value)}
+                className="max-w-[8rem] bg-transparent font-bold text-zinc-300 focus:outline-none"
+              >
+                {settings.personas.map(persona => (
+                  <option key={persona.id} value={persona.id}>{persona.name}</option>
                 ))}
+              </select>
+            </label>
+
+            <button
+              onClick={() => setIsThinking(!isThinking)}
+              disabled={!canThink}
+              className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-all border disabled:opacity-40 disabled:cursor-not-allowed ${
+                isThinking && canThink
+                  ? 'bg-cyan-500/10 border-cyan-500 text-cyan-400 shadow-[0_0_10px_rgba(6,182,212,0.2)]' 
+                  : 'bg-zinc-900 border-zinc-800 text-zinc-500 hover:text-zinc-300'
+              }`}
+              title={canThink ? "Toggle Thinking Mode (Pro)" : `${provider.label} does not support Thinking Mode`}
+            >
+              <BrainCircuit size={16} />
+              <span className="hidden sm:inline">Thinking Mode</span>
+            </button>
+
+            <button 
+              onClick={handleNewChat}
+              disabled={messages.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 bg-zinc-100 text-zinc-950 hover:bg-zinc-200 disabled:opacity-50 disabled:cursor-not-allowed rounded-lg text-xs font-bold transition-all shadow-[0_0_10px_rgba(255,255,255,0.1)]"
+            >
+              <Plus size={16} strokeWidth={3} />
+              <span className="hidden sm:inline">New Chat</span>
+            </button>
+
+            <button
+              onClick={() => setIsSearchOpen(true)}
+              className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors"
+              title="Search messages (Ctrl+K)"
+            >
+              <Search size={20} />
+            </button>
+
+            <button
+              onClick={() => setIsUsageOpen(true)}
+              className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors"
+              title="Usage and cost"
+            >
+              <BarChart3 size={20} />
+            </button>
+
+            <button
+              onClick={() => setIsVerifyOpen(true)}
+              className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors"
+              title="Verify image"
+            >
+              <ShieldCheck size={20} />
+            </button>
+
+            <button
+              onClick={() => setIsShareOpen(true)}
+              disabled={messages.length === 0}
+              className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors disabled:opacity-0"
+              title="Share Conversation"
+            >
+              <Share2 size={20} />
+            </button>
+
+            <ExportMenu disabled={messages.length === 0} onExport={handleExport} />
+
+            <button 
+              onClick={handleDeleteActive}
+              disabled={messages.length === 0 || isLocked}
+              className="p-2 text-zinc-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors disabled:opacity-0"
+              title="Delete Conversation"
+            >
+              <Trash2 size={20} />
+            </button>
+
+            <button
+              onClick={() => setIsSettingsOpen(true)}
+              className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors"
+              title="Settings"
+            >
+              <Settings size={20} />
+            </button>
+          </div>
+        </header>
+
+        {storageError && (
+          <div className="flex-shrink-0 flex items-center gap-2 px-6 py-2 bg-red-500/10 border-b border-red-500/30 text-red-300 text-xs">
+            <AlertCircle size={14} className="flex-shrink-0" />
+            <span className="flex-grow">{storageError}</span>
+            <button onClick={() => setStorageError(null)} className="p-1 hover:text-red-100" title="Dismiss">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+
+        {/* Chat Area */}
+        <main className="flex-grow overflow-y-auto px-4 md:px-0 scroll-smooth">
+          <div className="max-w-4xl mx-auto py-8">
+            {messages.length === 0 ? (
+              <div className="h-[60vh] flex flex-col items-center justify-center text-center animate-in fade-in zoom-in duration-700">
+                <div className="w-20 h-20 bg-zinc-900 border border-zinc-800 rounded-3xl flex items-center justify-center mb-6 shadow-2xl">
+                  <Sparkles size={40} className="text-cyan-400" />
+                </div>
+                <h2 className="text-2xl font-bold mb-3 tracking-tight">Hello, I'm Zuno.</h2>
+                <p className="text-zinc-500 max-w-sm mx-auto text-sm">
+                  Advanced AI powered by {provider.label}. {isThinking && canThink ? "Thinking mode active." : "Deeply analytical."}
+                </p>
+              
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-12 w-full max-w-lg">
+                  {[
+                    { icon: <ImageIcon size={16} />, text: "Upload a photo and ask 'What is in this image?'" },
+                    { icon: <BrainCircuit size={16} />, text: "Enable Thinking Mode for complex coding help" },
+                  ].map((item, idx) => (
+                    <button
+                      key={idx}
+                      onClick={() => handleSendMessage(item.text)}
+                      className="flex items-center gap-3 px-4 py-3 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 rounded-xl transition-all text-sm text-zinc-300 text-left"
+                    >
+                      <span className="text-zinc-500">{item.icon}</span>
+                      {item.text}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
-          ) : (
-            <div className="space-y-2">
-              {messages.map((msg) => (
-                <ChatMessage key={msg.id} message={msg} />
-              ))}
-              {isLoading && <LoadingIndicator />}
-              <div ref={messagesEndRef} className="h-4" />
-            </div>
+            ) : (
+              <div className="space-y-2">
+                {visibleMessages.map((msg) => {
+                  const siblings = getSiblings(messages, msg);
+                  const isBusy = isLoading || isStreaming || isLocked;
+                  return (
+                    <ChatMessage
+                      key={msg.id}
+                      message={msg}
+                      siblingIds={siblings.map(sibling => sibling.id)}
+                      onSelectSibling={isBusy ? undefined : handleSelectSibling}
+                      onRegenerate={isBusy || msg.role !== Role.MODEL || msg.error ? undefined : () => handleRegenerate(msg)}
+                      onRetry={isBusy || !msg.error ? undefined : () => handleRetry(msg)}
+                      onEdit={isBusy || msg.role !== Role.USER ? undefined : (content) => handleEditMessage(msg, content)}
+                      onReroute={isBusy || msg.role !== Role.USER ? undefined : (route) => handleReroute(msg, route)}
+                      contextState={contextPlan.states.get(msg.id)}
+                      isHighlighted={msg.id === flashMessageId}
+                      isStreaming={(isStreaming || isLocked) && msg.id === activeLeafId}
+                      isReadingAloud={readingMessageId === msg.id}
+                      cost={msg.usage ? costOf(msg.usage, settings.usage.prices) : undefined}
+                      onReadAloud={msg.role === Role.MODEL && msg.content ? () => handleReadAloud(msg) : undefined}
+                      onToolApproval={isStreaming && msg.id === activeLeafId ? handleToolApproval : undefined}
+                      onEditImage={isBusy ? undefined : handleEditImage}
+                      onShowVersions={setVersionsImageId}
+                      onCancelQueued={msg.delivery === 'queued' && !isLocked ? () => handleCancelQueued(msg) : undefined}
+                    />
+                  );
+                })}
+                {isLoading && <LoadingIndicator />}
+                <div ref={messagesEndRef} className="h-4" />
+              </div>
+            )}
+          </div>
+        </main>
+
+        {/* Input Area */}
+        <footer className="flex-shrink-0 bg-gradient-to-t from-zinc-950 via-zinc-950/95 to-transparent pt-4 pb-2">
+          {isLocked && (
+            <p className="flex items-center justify-center gap-2 pb-2 text-xs text-zinc-500">
+              <Lock size={12} />
+              A reply is being generated in another tab. This chat is read-only here until it finishes.
+            </p>
           )}
-        </div>
-      </main>
-
-      {/* Input Area */}
-      <footer className="flex-shrink-0 bg-gradient-to-t from-zinc-950 via-zinc-950/95 to-transparent pt-4 pb-2">
-        <ChatInput onSendMessage={handleSendMessage} isLoading={isLoading || isStreaming} />
-        <div className="text-center pb-4">
-          <p className="text-[11px] text-zinc-600 font-medium tracking-wide">
-            Developed by <a href="https://fb.com/fakesijan" target="_blank" rel="noopener noreferrer" className="text-zinc-400 hover:text-white transition-colors hover:underline decoration-zinc-700 underline-offset-4">Mohammad Sijan</a>
-          </p>
-        </div>
-      </footer>
+          <ChatInput
+            onSendMessage={handleSendMessage}
+            onStop={handleStop}
+            isLoading={!isHydrated || isLoading || isStreaming || isLocked}
+            isGenerating={isLoading || isStreaming}
+            recognitionLang={settings.voice.recognitionLang}
+            onStartVoiceMode={handleOpenVoiceMode}
+            carriedImage={carriedImage}
+            onCarriedImageTaken={handleCarriedImageTaken}
+            imageUpload={settings.imageUpload}
+          />
+          <div className="text-center pb-4">
+            <p className="text-[11px] text-zinc-600 font-medium tracking-wide">
+              Developed by <a href="https://fb.com/fakesijan" target="_blank" rel="noopener noreferrer" className="text-zinc-400 hover:text-white transition-colors hover:underline decoration-zinc-700 underline-offset-4">Mohammad Sijan</a>
+            </p>
+          </div>
+        </footer>
+      </div>
+
+      {isVoiceModeOpen && (
+        <VoiceMode
+          voice={settings.voice}
+          isGenerating={isLoading || isStreaming}
+          latestReply={visibleMessages[visibleMessages.length - 1]?.role === Role.MODEL ? visibleMessages[visibleMessages.length - 1] : null}
+          onSend={(text) => handleSendMessage(text, [], 'chat')}
+          onVoiceChange={handleVoiceChange}
+          onClose={handleCloseVoiceMode}
+        />
+      )}
+
+      {isSearchOpen && (
+        <SearchPanel
+          conversations={conversations}
+          onSearch={handleSearch}
+          onOpenResult={handleOpenSearchResult}
+          onClose={handleCloseSearch}
+        />
+      )}
+
+      {versionsImageId && (
+        <ImageVersionsPanel
+          versions={getImageVersions(messages, versionsImageId)}
+          onContinueFrom={handleEditImage}
+          onClose={handleCloseVersions}
+        />
+      )}
+
+      {isUsageOpen && (
+        <UsagePanel
+          conversations={conversations}
+          activeConversationId={activeConversation.id}
+          usage={settings.usage}
+          onClose={handleCloseUsage}
+        />
+      )}
+
+      {isVerifyOpen && <VerifyImagePanel onClose={handleCloseVerify} />}
+
+      {isShareOpen && (
+        <ShareDialog conversation={activeConversation} branch={visibleMessages} onClose={handleCloseShare} />
+      )}
+
+      {sharedHash && (
+        <SharedConversationView
+          hash={sharedHash}
+          canContinue={isHydrated}
+          onContinue={handleContinueShared}
+          onClose={handleCloseShared}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          settings={settings}
+          onSave={handleSaveSettings}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -1,29 +1,57 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, ArrowUp, Mic, MicOff, Image as ImageIcon, X } from 'lucide-react';
+import { Send, ArrowUp, Mic, MicOff, Paperclip, X, Square, Check, FileText, FileAudio, AlertCircle, AudioLines, Brush } from 'lucide-react';
+import { Attachment, ChatMode, ImageUploadSettings } from '../types';
+import { ROUTE_OPTIONS } from '../services/intentRouter';
+import { ACCEPTED_FILE_TYPES, checkFiles, checkProcessedSize, detectKind, formatBytes, imagesOf, isConvertibleImage, isMask, maskOf, readAttachment, toDataUrl } from '../services/attachments';
+import { prepareImage } from '../services/imagePreprocess';
+import { getSpeechRecognition, hasSpeechSynthesis } from '../services/speech';
+import RouteIcon from './RouteIcon';
+import ImageEditor from './ImageEditor';
 
 interface ChatInputProps {
-  onSendMessage: (message: string, image?: { data: string; mimeType: string }) => void;
+  onSendMessage: (message: string, attachments: Attachment[], mode: ChatMode) => void;
+  onStop: () => void;
   isLoading: boolean;
+  isGenerating: boolean;
+  recognitionLang: string;
+  onStartVoiceMode: () => void;
+  carriedImage: Attachment | null; // an image from the chat to edit next
+  onCarriedImageTaken: () => void;
+  imageUpload: ImageUploadSettings;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
+const PLACEHOLDERS: Record<ChatMode, (hasImage: boolean) => string> = {
+  'auto': hasImage => hasImage ? "Analyze or edit image..." : "Ask Zuno or analyze images...",
+  'chat': () => "Ask Zuno anything...",
+  'analyze': hasImage => hasImage ? "What do you want to know about this image?" : "Attach an image to analyze...",
+  'edit-image': hasImage => hasImage ? "Describe the change to make..." : "Attach an image to edit...",
+  'generate-image': () => "Describe the image to create...",
+};
+
+const sizeLabel = (att: Attachment) =>
+  att.originalSize !== undefined ? `${formatBytes(att.originalSize)} → ${formatBytes(att.size)}` : formatBytes(att.size);
+
+const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, onStop, isLoading, isGenerating, recognitionLang, onStartVoiceMode, carriedImage, onCarriedImageTaken, imageUpload }) => {
   const [input, setInput] = useState('');
   const [isListening, setIsListening] = useState(false);
-  const [selectedImage, setSelectedImage] = useState<{ data: string; mimeType: string } | null>(null);
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [mode, setMode] = useState<ChatMode>('auto');
+  const [isModeMenuOpen, setIsModeMenuOpen] = useState(false);
+  const [isMaskEditorOpen, setIsMaskEditorOpen] = useState(false);
   
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
 
   useEffect(() => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    const SpeechRecognition = getSpeechRecognition();
     if (SpeechRecognition) {
       recognitionRef.current = new SpeechRecognition();
       recognitionRef.current.continuous = true;
       recognitionRef.current.interimResults = true;
-      recognitionRef.current.lang = 'en-US';
 
       recognitionRef.current.onresult = (event: any) => {
         let finalTranscript = '';
@@ -44,6 +72,20 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
     }
   }, []);
 
+  useEffect(() => {
+    if (recognitionRef.current) recognitionRef.current.lang = recognitionLang;
+  }, [recognitionLang]);
+
+  // An image picked for editing replaces any other images (and their mask) in the draft.
+  useEffect(() => {
+    if (!carriedImage) return;
+    setAttachments(prev => [carriedImage, ...prev.filter(att => att.kind !== 'image')]);
+    setAttachmentErrors([]);
+    setMode('edit-image');
+    textareaRef.current?.focus();
+    onCarriedImageTaken();
+  }, [carriedImage, onCarriedImageTaken]);
+
   const toggleListening = () => {
     if (isListening) {
       recognitionRef.current?.stop();
@@ -53,33 +95,75 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
     }
   };
 
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = (reader.result as string).split(',')[1];
-        setSelectedImage({ data: base64, mimeType: file.type });
-        setImagePreview(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-    }
+  const readFile = (file: File) =>
+    detectKind(file) === 'image' || isConvertibleImage(file) ? prepareImage(file, imageUpload) : readAttachment(file);
+
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const { accepted, errors } = checkFiles(attachments, files, { processImages: imageUpload.optimize });
+    const results = await Promise.allSettled(accepted.map(readFile));
+    const read = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const readErrors = results.flatMap(result => result.status === 'rejected' ? [result.reason.message as string] : []);
+    const { accepted: added, errors: sizeErrors } = checkProcessedSize(attachments, read);
+    setAttachments(prev => [...prev, ...added]);
+    setAttachmentErrors([...errors, ...readErrors, ...sizeErrors]);
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    addFiles(files);
   };
 
-  const removeImage = () => {
-    setSelectedImage(null);
-    setImagePreview(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
   };
 
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    addFiles(Array.from(e.dataTransfer.files));
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments(prev => {
+      const remaining = prev.filter(att => att.id !== id);
+      // The mask belongs to the first image; drop it when that image goes.
+      return imagesOf({ attachments: prev })[0]?.id === id ? remaining.filter(att => !isMask(att)) : remaining;
+    });
+    setAttachmentErrors([]);
+  };
+
+  const handleMaskSave = (mask: Attachment | null) => {
+    setAttachments(prev => {
+      const withoutMask = prev.filter(att => !isMask(att));
+      return mask ? [...withoutMask, mask] : withoutMask;
+    });
+    if (mask) setMode('edit-image');
+  };
+
+  const hasContent = !!input.trim() || attachments.length > 0;
+
   const handleSubmit = (e?: React.FormEvent) => {
     e?.preventDefault();
-    if ((input.trim() || selectedImage) && !isLoading) {
+    if (hasContent && !isLoading) {
       if (isListening) recognitionRef.current?.stop();
-      onSendMessage(input.trim(), selectedImage || undefined);
+      onSendMessage(input.trim(), attachments, mode);
       setInput('');
-      setSelectedImage(null);
-      setImagePreview(null);
+      setAttachments([]);
+      setAttachmentErrors([]);
       if (textareaRef.current) textareaRef.current.style.height = 'auto';
     }
   };
@@ -98,47 +182,146 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
     }
   }, [input]);
 
-  const hasSpeechSupport = !!((window as any).SpeechRecognition || (window as any).webkitSpeechRecognition);
+  const hasSpeechSupport = !!getSpeechRecognition();
+  const editableImage = imagesOf({ attachments })[0];
+  const mask = maskOf({ attachments });
+  const hasImage = !!editableImage;
 
   return (
-    <div className="w-full max-w-4xl mx-auto px-4 pb-8 pt-2">
-      {imagePreview && (
-        <div className="mb-3 flex items-center gap-3 p-2 bg-zinc-900 border border-zinc-800 rounded-xl w-fit animate-in fade-in slide-in-from-bottom-2">
-          <div className="relative w-16 h-16 rounded-lg overflow-hidden border border-zinc-700">
-            <img src={imagePreview} alt="Selected" className="w-full h-full object-cover" />
-            <button 
-              onClick={removeImage}
-              className="absolute top-0.5 right-0.5 p-0.5 bg-black/60 hover:bg-black/80 rounded-full text-white transition-colors"
-            >
-              <X size={12} />
-            </button>
-          </div>
-          <div className="pr-2">
-            <p className="text-xs font-semibold text-zinc-300">Ready to analyze</p>
-            <p className="text-[10px] text-zinc-500">Add questions or instructions</p>
+    <div
+      className="w-full max-w-4xl mx-auto px-4 pb-8 pt-2"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {attachmentErrors.length > 0 && (
+        <div className="mb-2 flex items-start gap-2 px-3 py-2 bg-red-500/10 border border-red-500/30 rounded-xl text-xs text-red-300">
+          <AlertCircle size={14} className="flex-shrink-0 mt-0.5" />
+          <div className="flex-grow space-y-0.5">
+            {attachmentErrors.map((error, idx) => <p key={idx}>{error}</p>)}
           </div>
+          <button onClick={() => setAttachmentErrors([])} className="p-0.5 hover:text-red-100" title="Dismiss">
+            <X size={12} />
+          </button>
         </div>
       )}
 
+      {attachments.length > 0 && (
+        <div className="mb-3 flex flex-wrap items-center gap-2 p-2 bg-zinc-900 border border-zinc-800 rounded-xl w-fit max-w-full animate-in fade-in slide-in-from-bottom-2">
+          {attachments.filter(att => !isMask(att)).map(att => (
+            <div key={att.id} className="relative">
+              {att.kind === 'image' ? (
+                <>
+                  <div className="relative w-16 h-16 rounded-lg overflow-hidden border border-zinc-700" title={`${att.name} · ${sizeLabel(att)}`}>
+                    <img src={toDataUrl(att)} alt={att.name} className="w-full h-full object-cover" />
+                    {att === editableImage && mask && (
+                      <img src={toDataUrl(mask)} alt="Edit mask" className="absolute inset-0 w-full h-full object-cover mix-blend-screen opacity-40" />
+                    )}
+                    {att === editableImage && (
+                      <button
+                        type="button"
+                        onClick={() => setIsMaskEditorOpen(true)}
+                        className={`absolute bottom-0.5 left-0.5 p-0.5 rounded-full transition-colors ${
+                          mask ? 'bg-cyan-500 text-zinc-950' : 'bg-black/60 hover:bg-black/80 text-white'
+                        }`}
+                        title={mask ? "Edit mask" : "Paint the area to change"}
+                      >
+                        <Brush size={12} />
+                      </button>
+                    )}
+                  </div>
+                  <p className="mt-1 w-16 text-center text-[9px] leading-tight text-zinc-500">
+                    {att.originalSize !== undefined && <span className="block line-through">{formatBytes(att.originalSize)}</span>}
+                    {formatBytes(att.size)}
+                  </p>
+                </>
+              ) : (
+                <div className="h-16 w-44 flex items-center gap-2 px-3 rounded-lg bg-zinc-800/60 border border-zinc-700">
+                  {att.kind === 'audio'
+                    ? <FileAudio size={20} className="flex-shrink-0 text-zinc-400" />
+                    : <FileText size={20} className={`flex-shrink-0 ${att.kind === 'pdf' ? 'text-red-400' : 'text-zinc-400'}`} />}
+                  <div className="min-w-0">
+                    <p className="text-xs font-semibold text-zinc-300 truncate" title={att.name}>{att.name}</p>
+                    <p className="text-[10px] text-zinc-500">{formatBytes(att.size)}</p>
+                  </div>
+                </div>
+              )}
+              <button
+                onClick={() => removeAttachment(att.id)}
+                className="absolute top-0.5 right-0.5 p-0.5 bg-black/60 hover:bg-black/80 rounded-full text-white transition-colors"
+                title="Remove"
+              >
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isMaskEditorOpen && editableImage && (
+        <ImageEditor
+          image={editableImage}
+          mask={mask}
+          onSave={handleMaskSave}
+          onClose={() => setIsMaskEditorOpen(false)}
+        />
+      )}
+
       <form 
         onSubmit={handleSubmit}
-        className="relative flex items-end gap-2 p-2 bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl focus-within:border-zinc-700 transition-all"
+        className={`relative flex items-end gap-2 p-2 bg-zinc-900 border rounded-2xl shadow-2xl focus-within:border-zinc-700 transition-all ${
+          isDragging ? 'border-cyan-500 border-dashed bg-cyan-500/5' : 'border-zinc-800'
+        }`}
       >
         <div className="flex gap-1 items-center mb-1">
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setIsModeMenuOpen(!isModeMenuOpen)}
+              className={`p-3 rounded-xl transition-all ${
+                mode === 'auto'
+                  ? 'text-zinc-400 hover:text-zinc-200 bg-zinc-800/50 hover:bg-zinc-800'
+                  : 'text-cyan-400 bg-cyan-500/10 hover:bg-cyan-500/20'
+              }`}
+              title={`Mode: ${ROUTE_OPTIONS.find(option => option.mode === mode)?.label}`}
+            >
+              <RouteIcon mode={mode} size={20} />
+            </button>
+            {isModeMenuOpen && (
+              <div className="absolute bottom-full left-0 mb-2 w-64 p-1 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl z-20">
+                {ROUTE_OPTIONS.map(option => (
+                  <button
+                    key={option.mode}
+                    type="button"
+                    onClick={() => { setMode(option.mode); setIsModeMenuOpen(false); }}
+                    className="w-full flex items-start gap-3 px-3 py-2 rounded-lg text-left hover:bg-zinc-800 transition-colors"
+                  >
+                    <RouteIcon mode={option.mode} size={16} className="mt-0.5 text-zinc-400" />
+                    <div className="flex-grow">
+                      <p className="text-sm font-semibold text-zinc-200">{option.label}</p>
+                      <p className="text-[11px] text-zinc-500">{option.description}</p>
+                    </div>
+                    {mode === option.mode && <Check size={14} className="mt-1 text-cyan-400" />}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
           <input 
             type="file" 
             ref={fileInputRef} 
-            onChange={handleImageUpload} 
-            accept="image/*" 
+            onChange={handleFileSelect} 
+            accept={ACCEPTED_FILE_TYPES}
+            multiple
             className="hidden" 
           />
           <button
             type="button"
             onClick={() => fileInputRef.current?.click()}
             className="p-3 text-zinc-400 hover:text-zinc-200 bg-zinc-800/50 hover:bg-zinc-800 rounded-xl transition-all"
-            title="Attach Image for Analysis"
+            title="Attach images, PDFs, text or audio"
           >
-            <ImageIcon size={20} />
+            <Paperclip size={20} />
           </button>
           
           {hasSpeechSupport && (
@@ -154,6 +337,20 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
               {isListening ? <MicOff size={20} /> : <Mic size={20} />}
             </button>
           )}
+
+          {hasSpeechSupport && hasSpeechSynthesis() && (
+            <button
+              type="button"
+              onClick={() => {
+                if (isListening) recognitionRef.current?.stop();
+                onStartVoiceMode();
+              }}
+              className="p-3 rounded-xl transition-all flex-shrink-0 bg-zinc-800/50 text-zinc-400 hover:text-zinc-200 border border-transparent"
+              title="Voice conversation"
+            >
+              <AudioLines size={20} />
+            </button>
+          )}
         </div>
 
         <textarea
@@ -161,29 +358,41 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSendMessage, isLoading }) => {
           value={input}
           onChange={(e) => setInput(e.target.value)}
           onKeyDown={handleKeyDown}
-          placeholder={isListening ? "Listening..." : (selectedImage ? "Analyze or edit image..." : "Ask Zuno or analyze images...")}
+          onPaste={handlePaste}
+          placeholder={isListening ? "Listening..." : isDragging ? "Drop files to attach..." : PLACEHOLDERS[mode](hasImage)}
           rows={1}
           className="w-full bg-transparent border-none focus:ring-0 text-zinc-100 placeholder:text-zinc-500 resize-none py-3 px-2 max-h-40 font-normal leading-relaxed overflow-y-auto"
         />
         
-        <button
-          type="submit"
-          disabled={(!input.trim() && !selectedImage) || isLoading}
-          className={`p-3 rounded-xl transition-all flex-shrink-0 mb-1 ${
-            (!input.trim() && !selectedImage) || isLoading
-              ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
-              : 'bg-white text-black hover:bg-zinc-200 shadow-[0_0_15px_rgba(255,255,255,0.15)]'
-          }`}
-        >
-          {isLoading ? (
-            <div className="w-5 h-5 border-2 border-zinc-400 border-t-transparent rounded-full animate-spin" />
-          ) : (
-            <ArrowUp size={20} strokeWidth={3} />
-          )}
-        </button>
+        {isGenerating ? (
+          <button
+            type="button"
+            onClick={onStop}
+            className="p-3 rounded-xl transition-all flex-shrink-0 mb-1 bg-white text-black hover:bg-zinc-200 shadow-[0_0_15px_rgba(255,255,255,0.15)]"
+            title="Stop generating"
+          >
+            <Square size={20} fill="currentColor" />
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!hasContent || isLoading}
+            className={`p-3 rounded-xl transition-all flex-shrink-0 mb-1 ${
+              !hasContent || isLoading
+                ? 'bg-zinc-800 text-zinc-600 cursor-not-allowed'
+                : 'bg-white text-black hover:bg-zinc-200 shadow-[0_0_15px_rgba(255,255,255,0.15)]'
+            }`}
+          >
+            {isLoading ? (
+              <div className="w-5 h-5 border-2 border-zinc-400 border-t-transparent rounded-full animate-spin" />
+            ) : (
+              <ArrowUp size={20} strokeWidth={3} />
+            )}
+          </button>
+        )}
       </form>
       <p className="text-[10px] text-zinc-600 text-center mt-3 font-medium uppercase tracking-widest">
-        Zuno Vision & Reasoning: Upload images for understanding or toggle Thinking Mode.
+        Zuno Vision & Reasoning: Attach images, PDFs, code or audio, or toggle Thinking Mode.
       </p>
     </div>
   );
@@ -1,16 +1,67 @@
 
 import React from 'react';
-import ReactMarkdown from 'react-markdown';
-import { Role, Message } from '../types';
-import { User, Bot, Copy, Check, Download, ExternalLink } from 'lucide-react';
+import { Role, Message, ChatRoute, ChatErrorKind, Attachment } from '../types';
+import { ContextState } from '../services/contextManager';
+import { ROUTE_OPTIONS, getModeLabel } from '../services/intentRouter';
+import { formatBytes, imagesOf, maskOf, toDataUrl } from '../services/attachments';
+import { formatCost, formatTokens, totalTokens } from '../services/usage';
+import RouteIcon from './RouteIcon';
+import MarkdownContent from './MarkdownContent';
+import ToolCallCard from './ToolCallCard';
+import ThoughtsSection from './ThoughtsSection';
+import { User, Bot, Copy, Check, Download, ExternalLink, CircleStop, ChevronLeft, ChevronRight, RefreshCw, Pencil, Archive, ImageOff, AlertTriangle, RotateCcw, FileText, Volume2, VolumeX, Coins, Brush, History, Clock, Loader2, X } from 'lucide-react';
 
 interface ChatMessageProps {
   message: Message;
+  siblingIds?: string[]; // alternative versions of this turn, oldest first
+  onSelectSibling?: (siblingId: string) => void;
+  onRegenerate?: () => void;
+  onRetry?: () => void;
+  onEdit?: (content: string) => void;
+  onReroute?: (route: ChatRoute) => void;
+  contextState?: ContextState; // how this message will be sent with the next request
+  isHighlighted?: boolean; // briefly flashed after jumping here from search
+  onToolApproval?: (callId: string, approved: boolean) => void;
+  isStreaming?: boolean; // this reply is still being generated
+  onReadAloud?: () => void;
+  isReadingAloud?: boolean;
+  cost?: number | null; // USD for `message.usage`; null when the model has no price
+  onEditImage?: (image: Attachment) => void; // carry this image into the next turn for editing
+  onShowVersions?: (imageId: string) => void;
+  onCancelQueued?: () => void; // take this prompt out of the outbox
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
+const ERROR_TITLES: Record<ChatErrorKind, string> = {
+  'auth': "Authentication failed",
+  'rate-limit': "Rate limit reached",
+  'safety': "Blocked by safety filters",
+  'network': "Network error",
+  'model-not-found': "Model not found",
+  'context-too-long': "Conversation too long",
+  'unavailable': "Service unavailable",
+  'unknown': "Something went wrong",
+};
+
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, siblingIds = [], onSelectSibling, onRegenerate, onRetry, onEdit, onReroute, contextState = 'full', isHighlighted = false, onToolApproval, isStreaming = false, onReadAloud, isReadingAloud = false, cost, onEditImage, onShowVersions, onCancelQueued }) => {
   const isUser = message.role === Role.USER;
   const [copied, setCopied] = React.useState(false);
+  const [isEditing, setIsEditing] = React.useState(false);
+  const [draft, setDraft] = React.useState(message.content);
+  const [isRouteMenuOpen, setIsRouteMenuOpen] = React.useState(false);
+
+  const siblingIndex = siblingIds.indexOf(message.id);
+  const hasSiblings = siblingIds.length > 1 && siblingIndex !== -1;
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const trimmed = draft.trim();
+    setIsEditing(false);
+    if (trimmed && trimmed !== message.content) onEdit?.(trimmed);
+  };
 
   const handleCopy = () => {
     navigator.clipboard.writeText(message.content);
@@ -18,12 +69,16 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const imageUrl = message.image 
-    ? `data:${message.image.mimeType};base64,${message.image.data}` 
-    : null;
+  const attachments = message.attachments ?? [];
+  const images = imagesOf(message);
+  const mask = maskOf(message);
+  const files = attachments.filter(att => att.kind !== 'image');
 
   return (
-    <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+    <div
+      id={`message-${message.id}`}
+      className={`flex w-full mb-6 rounded-2xl transition-colors ${isUser ? 'justify-end' : 'justify-start'} ${contextState === 'summarized' ? 'opacity-50' : ''} ${isHighlighted ? 'bg-cyan-500/10' : ''} animate-in fade-in slide-in-from-bottom-2 duration-300`}
+    >
       <div className={`flex max-w-[85%] md:max-w-[75%] ${isUser ? 'flex-row-reverse' : 'flex-row'} items-start gap-3`}>
         {/* Avatar */}
         <div className={`flex-shrink-0 w-8 h-8 rounded-lg flex items-center justify-center border ${
@@ -39,56 +94,149 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
           <div className={`relative group px-4 py-3 rounded-2xl border ${
             isUser 
               ? 'bg-blue-600 border-blue-500 text-white rounded-tr-none' 
-              : 'bg-zinc-900 border-zinc-800 text-zinc-100 rounded-tl-none'
+              : message.error
+                ? 'bg-red-950/30 border-red-900/60 text-zinc-100 rounded-tl-none'
+                : 'bg-zinc-900 border-zinc-800 text-zinc-100 rounded-tl-none'
           }`}>
             
-            {imageUrl && (
-              <div className="mb-3 relative group/img rounded-xl overflow-hidden border border-white/10 shadow-lg">
-                <img src={imageUrl} alt="Message Content" className="max-w-full h-auto rounded-lg block" />
-                <div className="absolute inset-0 bg-black/40 opacity-0 group-hover/img:opacity-100 transition-opacity flex items-center justify-center gap-2">
-                  <a 
-                    href={imageUrl} 
-                    download="zuno-generated-image.png" 
-                    className="p-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white transition-all"
-                  >
-                    <Download size={16} />
-                  </a>
-                  <a 
-                    href={imageUrl} 
-                    target="_blank" 
-                    rel="noreferrer" 
-                    className="p-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white transition-all"
+            {images.length > 0 && (
+              <div className={`mb-3 grid gap-2 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                {images.map((image, idx) => {
+                  const imageUrl = toDataUrl(image);
+                  return (
+                    <div key={image.id} className="relative group/img rounded-xl overflow-hidden border border-white/10 shadow-lg">
+                      <img src={imageUrl} alt={image.name} className="max-w-full h-auto rounded-lg block" />
+                      {mask && idx === 0 && (
+                        <img
+                          src={toDataUrl(mask)}
+                          alt="Edit mask"
+                          className="absolute inset-0 w-full h-full object-contain mix-blend-screen opacity-30 pointer-events-none"
+                          title="Only the highlighted area was edited"
+                        />
+                      )}
+                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover/img:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                        {onEditImage && (
+                          <button
+                            onClick={() => onEditImage(image)}
+                            className="p-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white transition-all"
+                            title="Edit this image"
+                          >
+                            <Brush size={16} />
+                          </button>
+                        )}
+                        {onShowVersions && image.sourceId && (
+                          <button
+                            onClick={() => onShowVersions(image.id)}
+                            className="p-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white transition-all"
+                            title="Compare versions"
+                          >
+                            <History size={16} />
+                          </button>
+                        )}
+                        <a 
+                          href={imageUrl} 
+                          download={image.name} 
+                          className="p-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white transition-all"
+                        >
+                          <Download size={16} />
+                        </a>
+                        <a 
+                          href={imageUrl} 
+                          target="_blank" 
+                          rel="noreferrer" 
+                          className="p-2 bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-lg text-white transition-all"
+                        >
+                          <ExternalLink size={16} />
+                        </a>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {files.length > 0 && (
+              <div className="mb-3 flex flex-col gap-2">
+                {files.map(file => file.kind === 'audio' ? (
+                  <audio key={file.id} controls src={toDataUrl(file)} className="w-64 max-w-full" title={file.name} />
+                ) : (
+                  <a
+                    key={file.id}
+                    href={toDataUrl(file)}
+                    download={file.name}
+                    className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs no-underline ${
+                      isUser ? 'bg-blue-700/40 border-blue-400/40 text-white' : 'bg-zinc-950 border-zinc-800 text-zinc-300'
+                    }`}
                   >
-                    <ExternalLink size={16} />
+                    <FileText size={16} className="flex-shrink-0" />
+                    <span className="truncate font-semibold">{file.name}</span>
+                    <span className="flex-shrink-0 opacity-60">{formatBytes(file.size)}</span>
                   </a>
-                </div>
+                ))}
               </div>
             )}
 
+            {message.thoughts && <ThoughtsSection thoughts={message.thoughts} isStreaming={isStreaming} />}
+
+            {message.toolCalls?.map(call => (
+              <ToolCallCard key={call.id} call={call} onApprove={onToolApproval} />
+            ))}
+
             <div className="prose prose-invert prose-sm max-w-none break-words">
-              {isUser ? (
+              {isUser && isEditing ? (
+                <div className="flex flex-col gap-2 min-w-[16rem]">
+                  <textarea
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && !e.shiftKey) {
+                        e.preventDefault();
+                        submitEdit();
+                      }
+                      if (e.key === 'Escape') setIsEditing(false);
+                    }}
+                    rows={3}
+                    className="w-full bg-blue-700/60 border border-blue-400/50 rounded-lg p-2 text-white resize-y focus:outline-none"
+                  />
+                  <div className="flex justify-end gap-2">
+                    <button onClick={() => setIsEditing(false)} className="px-2 py-1 text-xs font-bold text-blue-100 hover:text-white">
+                      Cancel
+                    </button>
+                    <button onClick={submitEdit} className="px-2 py-1 text-xs font-bold bg-white text-blue-700 rounded-md hover:bg-blue-50">
+                      Send
+                    </button>
+                  </div>
+                </div>
+              ) : isUser ? (
                 <p className="whitespace-pre-wrap">{message.content}</p>
               ) : (
-                <ReactMarkdown
-                  components={{
-                    pre: ({node, ...props}) => (
-                      <div className="relative my-2 overflow-auto bg-black/40 rounded-lg p-3 font-mono text-xs border border-white/5">
-                        <pre {...props} />
-                      </div>
-                    ),
-                    code: ({node, ...props}) => (
-                      <code className="bg-zinc-800 px-1 rounded text-cyan-300 font-mono" {...props} />
-                    ),
-                    p: ({node, ...props}) => <p className="mb-2 last:mb-0" {...props} />,
-                    ul: ({node, ...props}) => <ul className="list-disc ml-4 mb-2" {...props} />,
-                    ol: ({node, ...props}) => <ol className="list-decimal ml-4 mb-2" {...props} />,
-                  }}
-                >
-                  {message.content}
-                </ReactMarkdown>
+                <MarkdownContent content={message.content} />
               )}
             </div>
 
+            {message.error && (
+              <div className={`flex items-start gap-3 ${message.content ? 'mt-3 pt-3 border-t border-red-900/40' : ''}`}>
+                <AlertTriangle size={16} className="flex-shrink-0 mt-0.5 text-red-400" />
+                <div className="flex-grow text-sm">
+                  <p className="font-semibold text-red-300">{ERROR_TITLES[message.error.kind]}</p>
+                  <p className="text-zinc-400 text-xs mt-0.5">{message.error.message}</p>
+                  {message.error.blockReason && (
+                    <p className="text-zinc-500 text-[11px] mt-1 font-mono">Block reason: {message.error.blockReason}</p>
+                  )}
+                </div>
+                {onRetry && (
+                  <button
+                    onClick={onRetry}
+                    className="flex-shrink-0 flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-xs font-bold bg-red-500/10 text-red-300 hover:bg-red-500/20 transition-colors"
+                  >
+                    <RotateCcw size={12} />
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
+
             {!isUser && message.content && (
               <button 
                 onClick={handleCopy}
@@ -100,8 +248,125 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
             )}
           </div>
           
-          <span className={`text-[10px] text-zinc-500 font-medium ${isUser ? 'text-right' : 'text-left'}`}>
+          <span className={`flex items-center gap-2 text-[10px] text-zinc-500 font-medium ${isUser ? 'justify-end' : 'justify-start'}`}>
+            {hasSiblings && (
+              <span className="flex items-center gap-0.5 tabular-nums">
+                <button
+                  onClick={() => onSelectSibling?.(siblingIds[siblingIndex - 1])}
+                  disabled={!onSelectSibling || siblingIndex === 0}
+                  className="p-0.5 hover:text-zinc-200 disabled:opacity-30 disabled:hover:text-zinc-500"
+                  title="Previous version"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                {siblingIndex + 1}/{siblingIds.length}
+                <button
+                  onClick={() => onSelectSibling?.(siblingIds[siblingIndex + 1])}
+                  disabled={!onSelectSibling || siblingIndex === siblingIds.length - 1}
+                  className="p-0.5 hover:text-zinc-200 disabled:opacity-30 disabled:hover:text-zinc-500"
+                  title="Next version"
+                >
+                  <ChevronRight size={12} />
+                </button>
+              </span>
+            )}
+            {isUser && message.route && (
+              <span className="relative">
+                <button
+                  onClick={() => onReroute && setIsRouteMenuOpen(!isRouteMenuOpen)}
+                  disabled={!onReroute}
+                  className="flex items-center gap-1 px-1.5 py-0.5 rounded-md bg-zinc-900 border border-zinc-800 hover:text-zinc-200 disabled:hover:text-zinc-500"
+                  title={onReroute ? "Send this prompt down a different route" : undefined}
+                >
+                  <RouteIcon mode={message.route} size={10} />
+                  {message.mode === 'auto' ? `Auto → ${getModeLabel(message.route)}` : getModeLabel(message.route)}
+                </button>
+                {isRouteMenuOpen && onReroute && (
+                  <span className="absolute right-0 top-full mt-1 w-44 p-1 bg-zinc-900 border border-zinc-800 rounded-lg shadow-2xl z-20 flex flex-col">
+                    {ROUTE_OPTIONS.filter(option => option.mode !== 'auto').map(option => (
+                      <button
+                        key={option.mode}
+                        onClick={() => { setIsRouteMenuOpen(false); onReroute(option.mode as ChatRoute); }}
+                        className="flex items-center gap-2 px-2 py-1.5 rounded-md text-left text-xs text-zinc-300 hover:bg-zinc-800"
+                      >
+                        <RouteIcon mode={option.mode} size={12} />
+                        {option.label}
+                      </button>
+                    ))}
+                  </span>
+                )}
+              </span>
+            )}
+            {onEdit && !isEditing && (
+              <button onClick={startEditing} className="p-0.5 hover:text-zinc-200" title="Edit and resend">
+                <Pencil size={11} />
+              </button>
+            )}
+            {onReadAloud && (
+              <button
+                onClick={onReadAloud}
+                className={`p-0.5 hover:text-zinc-200 ${isReadingAloud ? 'text-cyan-400' : ''}`}
+                title={isReadingAloud ? "Stop reading" : "Read aloud"}
+              >
+                {isReadingAloud ? <VolumeX size={11} /> : <Volume2 size={11} />}
+              </button>
+            )}
+            {onRegenerate && (
+              <button onClick={onRegenerate} className="p-0.5 hover:text-zinc-200" title="Regenerate response">
+                <RefreshCw size={11} />
+              </button>
+            )}
             {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            {message.usage && (
+              <span
+                className="flex items-center gap-1"
+                title={`${message.usage.model}\nInput: ${message.usage.promptTokens.toLocaleString()} (${message.usage.cachedTokens.toLocaleString()} cached)\nOutput: ${message.usage.outputTokens.toLocaleString()}\nThinking: ${message.usage.thinkingTokens.toLocaleString()}`}
+              >
+                <Coins size={10} />
+                {formatTokens(totalTokens(message.usage))} tokens{typeof cost === 'number' ? ` · ${formatCost(cost)}` : ''}
+              </span>
+            )}
+            {contextState === 'summarized' && (
+              <span className="flex items-center gap-1" title="Only a summary of this message is sent to the model">
+                <Archive size={10} />
+                Summarized
+              </span>
+            )}
+            {contextState === 'text-only' && (
+              <span className="flex items-center gap-1" title="Attachments are no longer sent to the model">
+                <ImageOff size={10} />
+                {attachments.length > 1 ? 'Attachments' : images.length > 0 ? 'Image' : 'File'} out of context
+              </span>
+            )}
+            {message.delivery === 'queued' && (
+              <span className="flex items-center gap-1 text-amber-500/80" title="Sends when the connection is back">
+                <Clock size={10} />
+                Queued
+                {onCancelQueued && (
+                  <button onClick={onCancelQueued} className="p-0.5 hover:text-zinc-200" title="Remove from outbox">
+                    <X size={10} />
+                  </button>
+                )}
+              </span>
+            )}
+            {message.delivery === 'sending' && (
+              <span className="flex items-center gap-1 text-cyan-400/80">
+                <Loader2 size={10} className="animate-spin" />
+                Sending
+              </span>
+            )}
+            {message.delivery === 'failed' && (
+              <span className="flex items-center gap-1 text-red-400/80" title="Use Retry on the error below to send it again">
+                <AlertTriangle size={10} />
+                Not sent
+              </span>
+            )}
+            {message.interrupted && (
+              <span className="flex items-center gap-1 text-amber-500/80" title="Generation was stopped">
+                <CircleStop size={10} />
+                Stopped
+              </span>
+            )}
           </span>
         </div>
       </div>
@@ -0,0 +1,52 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { EXPORT_OPTIONS, ExportFormat } from '../services/conversationExport';
+import { Download } from 'lucide-react';
+
+interface ExportMenuProps {
+  disabled: boolean;
+  onExport: (format: ExportFormat) => void;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors disabled:opacity-0"
+        title="Export Conversation"
+      >
+        <Download size={20} />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-2 w-64 p-1 bg-zinc-900 border border-zinc-800 rounded-xl shadow-2xl z-20">
+          {EXPORT_OPTIONS.map(option => (
+            <button
+              key={option.format}
+              onClick={() => { setIsOpen(false); onExport(option.format); }}
+              className="w-full flex flex-col items-start px-3 py-2 rounded-lg text-left hover:bg-zinc-800 transition-colors"
+            >
+              <span className="text-sm font-semibold text-zinc-200">{option.label}</span>
+              <span className="text-xs text-zinc-500">{option.description}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,245 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Attachment } from '../types';
+import { imageToAttachment, loadImage, toDataUrl } from '../services/attachments';
+import { Brush, Eraser, Undo2, Trash2, X } from 'lucide-react';
+
+interface ImageEditorProps {
+  image: Attachment;
+  mask?: Attachment; // an earlier mask to keep painting on
+  onSave: (mask: Attachment | null) => void; // null when nothing is painted
+  onClose: () => void;
+}
+
+type Tool = 'brush' | 'eraser';
+
+// Painted strokes are shown in this colour over the image; the exported mask is white on black.
+const PAINT_COLOR = 'rgb(6, 182, 212)';
+const MAX_UNDO_STEPS = 20;
+
+/** Draws a saved black-and-white mask back onto the paint layer. */
+const paintFromMask = async (canvas: HTMLCanvasElement, mask: Attachment) => {
+  const img = await loadImage(toDataUrl(mask));
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 0; i < pixels.data.length; i += 4) {
+    const isPainted = pixels.data[i] > 127;
+    pixels.data.set(isPainted ? [6, 182, 212, 255] : [0, 0, 0, 0], i);
+  }
+  ctx.putImageData(pixels, 0, 0);
+};
+
+const isBlank = (canvas: HTMLCanvasElement) => {
+  const { data } = canvas.getContext('2d')!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+const exportMask = (paint: HTMLCanvasElement, name: string): Attachment => {
+  const out = document.createElement('canvas');
+  out.width = paint.width;
+  out.height = paint.height;
+  const ctx = out.getContext('2d')!;
+  ctx.drawImage(paint, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, out.width, out.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, out.width, out.height);
+  const data = out.toDataURL('image/png').split(',')[1];
+  return { ...imageToAttachment({ data, mimeType: 'image/png' }, name), purpose: 'mask' };
+};
+
+/**
+ * Paints a mask over an image: the painted region is what the next edit may
+ * change. Brush sizes are in image pixels so the mask does not depend on how
+ * large the editor is on screen.
+ */
+const ImageEditor: React.FC<ImageEditorProps> = ({ image, mask, onSave, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const undoStackRef = useRef<ImageData[]>([]);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<Tool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [canUndo, setCanUndo] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadImage(toDataUrl(image))
+      .then(img => {
+        setSize({ width: img.naturalWidth, height: img.naturalHeight });
+        setBrushSize(Math.max(4, Math.round(Math.max(img.naturalWidth, img.naturalHeight) / 25)));
+      })
+      .catch(err => setError(err.message));
+  }, [image]);
+
+  useEffect(() => {
+    if (size && mask && canvasRef.current) paintFromMask(canvasRef.current, mask).catch(() => {});
+  }, [size, mask]);
+
+  useEffect(() => {
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const strokeTo = (canvas: HTMLCanvasElement, to: { x: number; y: number }) => {
+    const ctx = canvas.getContext('2d')!;
+    const from = lastPointRef.current ?? to;
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = PAINT_COLOR;
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    lastPointRef.current = to;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    canvas.setPointerCapture(e.pointerId);
+    const ctx = canvas.getContext('2d')!;
+    undoStackRef.current = [...undoStackRef.current.slice(-(MAX_UNDO_STEPS - 1)), ctx.getImageData(0, 0, canvas.width, canvas.height)];
+    setCanUndo(true);
+    lastPointRef.current = null;
+    strokeTo(canvas, toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (lastPointRef.current) strokeTo(e.currentTarget, toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const handleUndo = () => {
+    const previous = undoStackRef.current.pop();
+    if (previous && canvasRef.current) canvasRef.current.getContext('2d')!.putImageData(previous, 0, 0);
+    setCanUndo(undoStackRef.current.length > 0);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d')!;
+    undoStackRef.current.push(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    setCanUndo(true);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  };
+
+  const handleSave = () => {
+    const canvas = canvasRef.current;
+    if (!canvas || isBlank(canvas)) {
+      onSave(null);
+    } else {
+      onSave(exportMask(canvas, `${image.name.replace(/\.[^.]+$/, '')}-mask.png`));
+    }
+    onClose();
+  };
+
+  const toolButton = (id: Tool, icon: React.ReactNode, label: string) => (
+    <button
+      type="button"
+      onClick={() => setTool(id)}
+      className={`flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs font-bold transition-colors ${
+        tool === id ? 'bg-cyan-500/15 text-cyan-300' : 'text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800'
+      }`}
+    >
+      {icon}
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[92vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-3 border-b border-zinc-800">
+          <h2 className="font-bold tracking-tight">Paint the area to change</h2>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-5 py-2 border-b border-zinc-800">
+          {toolButton('brush', <Brush size={14} />, "Brush")}
+          {toolButton('eraser', <Eraser size={14} />, "Eraser")}
+          <label className="flex items-center gap-2 text-xs text-zinc-500">
+            Size
+            <input
+              type="range"
+              min={2}
+              max={size ? Math.round(Math.max(size.width, size.height) / 4) : 200}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="accent-cyan-500"
+            />
+          </label>
+          <div className="ml-auto flex gap-1">
+            <button type="button" onClick={handleUndo} disabled={!canUndo} className="p-1.5 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg disabled:opacity-30" title="Undo">
+              <Undo2 size={16} />
+            </button>
+            <button type="button" onClick={handleClear} className="p-1.5 text-zinc-400 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg" title="Clear mask">
+              <Trash2 size={16} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-auto p-5 flex items-center justify-center">
+          {error ? (
+            <p className="text-sm text-red-300">{error}</p>
+          ) : size && (
+            <div className="relative inline-block">
+              <img src={toDataUrl(image)} alt={image.name} className="block max-w-full max-h-[60vh] select-none" draggable={false} />
+              <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between gap-2 px-5 py-3 border-t border-zinc-800">
+          <p className="text-xs text-zinc-500">Leave it blank to let the edit change the whole image.</p>
+          <div className="flex gap-2">
+            <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-bold text-zinc-400 hover:text-zinc-200 transition-colors">
+              Cancel
+            </button>
+            <button onClick={handleSave} disabled={!size} className="px-3 py-1.5 bg-zinc-100 text-zinc-950 hover:bg-zinc-200 rounded-lg text-xs font-bold transition-all disabled:opacity-50">
+              Use mask
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageEditor;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { ImageOutputFormat, ImageUploadSettings as ImageUploadSettingsValue } from '../types';
+import { IMAGE_FORMAT_OPTIONS, MAX_DIMENSION_OPTIONS } from '../services/imagePreprocess';
+
+interface ImageUploadSettingsProps {
+  imageUpload: ImageUploadSettingsValue;
+  onChange: (patch: Partial<ImageUploadSettingsValue>) => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-zinc-600";
+const labelClass = "block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1";
+
+const ImageUploadSettings: React.FC<ImageUploadSettingsProps> = ({ imageUpload, onChange }) => (
+  <section className="space-y-3 pt-4 border-t border-zinc-800">
+    <span className={labelClass}>Attached images</span>
+    <label className="flex items-center gap-2 text-sm text-zinc-300">
+      <input
+        type="checkbox"
+        checked={imageUpload.optimize}
+        onChange={(e) => onChange({ optimize: e.target.checked })}
+        className="accent-cyan-500"
+      />
+      Optimize images before sending
+    </label>
+
+    {imageUpload.optimize ? (
+      <>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className={labelClass}>Longest side</label>
+            <select
+              className={inputClass}
+              value={imageUpload.maxDimension}
+              onChange={(e) => onChange({ maxDimension: Number(e.target.value) })}
+            >
+              {MAX_DIMENSION_OPTIONS.map(size => <option key={size} value={size}>{size} px</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Format</label>
+            <select
+              className={inputClass}
+              value={imageUpload.format}
+              onChange={(e) => onChange({ format: e.target.value as ImageOutputFormat })}
+            >
+              {IMAGE_FORMAT_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+            </select>
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Quality: {Math.round(imageUpload.quality * 100)}%</label>
+          <input
+            type="range"
+            min={0.5}
+            max={1}
+            step={0.05}
+            value={imageUpload.quality}
+            onChange={(e) => onChange({ quality: Number(e.target.value) })}
+            className="w-full accent-cyan-500"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-zinc-300">
+          <input
+            type="checkbox"
+            checked={imageUpload.stripMetadata}
+            onChange={(e) => onChange({ stripMetadata: e.target.checked })}
+            className="accent-cyan-500"
+          />
+          Remove EXIF and location data
+        </label>
+        <p className="text-xs text-zinc-500">
+          Resized or converted images always lose their metadata. TIFF, GIF, BMP and AVIF are converted when the browser can read them.
+        </p>
+      </>
+    ) : (
+      <p className="text-xs text-zinc-500">
+        Images are sent at full size with their metadata, including any location, and again with every later message.
+      </p>
+    )}
+  </section>
+);
+
+export default ImageUploadSettings;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import { Attachment } from '../types';
+import { toDataUrl } from '../services/attachments';
+import { History, Undo2, X } from 'lucide-react';
+
+interface ImageVersionsPanelProps {
+  versions: Attachment[]; // oldest first
+  onContinueFrom: (image: Attachment) => void;
+  onClose: () => void;
+}
+
+const versionLabel = (idx: number) => idx === 0 ? "Original" : `Edit ${idx}`;
+
+/** Before/after view: drag the handle to reveal more of the later version. */
+const CompareSlider: React.FC<{ before: Attachment; after: Attachment }> = ({ before, after }) => {
+  const [position, setPosition] = useState(50);
+
+  return (
+    <div className="relative w-fit mx-auto select-none">
+      <img src={toDataUrl(before)} alt="Before" className="block max-w-full max-h-[50vh] rounded-lg" draggable={false} />
+      <img
+        src={toDataUrl(after)}
+        alt="After"
+        className="absolute inset-0 w-full h-full object-contain rounded-lg"
+        style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+        draggable={false}
+      />
+      <div className="absolute inset-y-0 w-0.5 bg-white/80 pointer-events-none" style={{ left: `${position}%` }} />
+      <span className="absolute top-2 left-2 px-1.5 py-0.5 rounded bg-black/60 text-[10px] font-bold uppercase tracking-wider text-zinc-200">Before</span>
+      <span className="absolute top-2 right-2 px-1.5 py-0.5 rounded bg-black/60 text-[10px] font-bold uppercase tracking-wider text-zinc-200">After</span>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={position}
+        onChange={(e) => setPosition(Number(e.target.value))}
+        className="absolute inset-0 w-full h-full opacity-0 cursor-ew-resize"
+        aria-label="Compare before and after"
+      />
+    </div>
+  );
+};
+
+const ImageVersionsPanel: React.FC<ImageVersionsPanelProps> = ({ versions, onContinueFrom, onClose }) => {
+  const last = versions.length - 1;
+  const [beforeIdx, setBeforeIdx] = useState(Math.max(0, last - 1));
+  const [afterIdx, setAfterIdx] = useState(last);
+
+  useEffect(() => {
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  const versionSelect = (value: number, onChange: (idx: number) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-100 focus:outline-none focus:border-zinc-600"
+    >
+      {versions.map((_, idx) => <option key={idx} value={idx}>{versionLabel(idx)}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/70 p-4 pt-[6vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[88vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-zinc-800">
+          <History size={18} className="text-zinc-500" />
+          <h2 className="flex-grow font-bold tracking-tight">Image versions</h2>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto px-5 py-3 border-b border-zinc-800">
+          {versions.map((image, idx) => (
+            <div key={image.id} className="flex-shrink-0 w-24">
+              <button
+                onClick={() => setAfterIdx(idx)}
+                className={`block w-24 h-24 rounded-lg overflow-hidden border-2 transition-colors ${
+                  idx === afterIdx ? 'border-cyan-500' : idx === beforeIdx ? 'border-zinc-500' : 'border-transparent hover:border-zinc-700'
+                }`}
+                title={`Compare with ${versionLabel(idx).toLowerCase()}`}
+              >
+                <img src={toDataUrl(image)} alt={versionLabel(idx)} className="w-full h-full object-cover" />
+              </button>
+              <div className="mt-1 flex items-center justify-between">
+                <span className="text-[11px] text-zinc-500">{versionLabel(idx)}</span>
+                <button
+                  onClick={() => { onContinueFrom(image); onClose(); }}
+                  className="p-0.5 text-zinc-500 hover:text-cyan-300 transition-colors"
+                  title="Continue editing from this version"
+                >
+                  <Undo2 size={12} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="overflow-auto p-5 space-y-3">
+          <div className="flex items-center justify-center gap-2 text-xs text-zinc-500">
+            {versionSelect(beforeIdx, setBeforeIdx)}
+            <span>vs</span>
+            {versionSelect(afterIdx, setAfterIdx)}
+          </div>
+          <CompareSlider before={versions[beforeIdx]} after={versions[afterIdx]} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImageVersionsPanel;
@@ -0,0 +1,158 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import type { Element, ElementContent } from 'hast';
+import { closePartialMarkdown } from '../services/partialMarkdown';
+import { downloadBlob } from '../services/conversationExport';
+import MermaidDiagram from './MermaidDiagram';
+import { Copy, Check, Download } from 'lucide-react';
+
+interface MarkdownContentProps {
+  content: string;
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', typescript: 'ts', ts: 'ts', tsx: 'tsx', jsx: 'jsx', python: 'py', py: 'py',
+  ruby: 'rb', go: 'go', rust: 'rs', java: 'java', kotlin: 'kt', swift: 'swift', c: 'c', cpp: 'cpp',
+  csharp: 'cs', cs: 'cs', php: 'php', bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', sql: 'sql',
+  html: 'html', xml: 'xml', css: 'css', scss: 'scss', json: 'json', yaml: 'yaml', yml: 'yaml',
+  toml: 'toml', markdown: 'md', md: 'md', mermaid: 'mmd', latex: 'tex', tex: 'tex', r: 'r', lua: 'lua',
+};
+
+const remarkPlugins = [remarkGfm, remarkMath];
+const rehypePlugins = [rehypeKatex, rehypeHighlight];
+
+// `code` renders both inline spans and fenced blocks; blocks provide this so it can tell them apart.
+const InsideCodeBlock = createContext(false);
+// Length of the markdown as received, before partial blocks were closed.
+const ReceivedLength = createContext(Infinity);
+
+const textOf = (node: ElementContent): string =>
+  node.type === 'text' ? node.value : node.type === 'element' ? node.children.map(textOf).join('') : '';
+
+const languageOf = (code: Element) => {
+  const classes = code.properties.className;
+  const list = Array.isArray(classes) ? classes.map(String) : [];
+  return list.find(name => name.startsWith('language-'))?.slice('language-'.length) ?? '';
+};
+
+const BlockButton: React.FC<{ title: string; onClick: () => void; children: React.ReactNode }> = ({ title, onClick, children }) => (
+  <button onClick={onClick} className="p-1 text-zinc-500 hover:text-zinc-200 rounded transition-colors" title={title}>
+    {children}
+  </button>
+);
+
+interface CodeBlockProps {
+  language: string;
+  source: string;
+  isPartial: boolean; // the closing fence has not streamed in yet
+  children: React.ReactNode;
+}
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ language, source, isPartial, children }) => {
+  const [copied, setCopied] = useState(false);
+  const [svg, setSvg] = useState<string | null>(null);
+  const isDiagram = language === 'mermaid' && !isPartial;
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(source);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    if (isDiagram && svg) {
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), 'diagram.svg');
+      return;
+    }
+    const extension = FILE_EXTENSIONS[language.toLowerCase()] ?? 'txt';
+    downloadBlob(new Blob([source], { type: 'text/plain' }), `snippet.${extension}`);
+  };
+
+  return (
+    <div className="not-prose my-2 rounded-lg border border-white/5 bg-black/40 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-white/5 text-[11px] text-zinc-500">
+        <span className="font-mono">{language || 'text'}</span>
+        <div className="flex items-center gap-1">
+          <BlockButton title={copied ? "Copied" : "Copy code"} onClick={handleCopy}>
+            {copied ? <Check size={13} /> : <Copy size={13} />}
+          </BlockButton>
+          <BlockButton title={isDiagram ? "Download SVG" : "Download"} onClick={handleDownload}>
+            <Download size={13} />
+          </BlockButton>
+        </div>
+      </div>
+      {isDiagram ? (
+        <MermaidDiagram source={source} onRendered={setSvg} />
+      ) : (
+        <InsideCodeBlock.Provider value={true}>
+          <pre className="overflow-auto p-3 font-mono text-xs leading-relaxed">{children}</pre>
+        </InsideCodeBlock.Provider>
+      )}
+    </div>
+  );
+};
+
+const InlineCode: Components['code'] = ({ node, className, ...props }) => {
+  const isBlock = useContext(InsideCodeBlock);
+  return isBlock
+    ? <code className={`${className ?? ''} !bg-transparent !p-0`} {...props} />
+    : <code className="bg-zinc-800 px-1 rounded text-cyan-300 font-mono" {...props} />;
+};
+
+const Pre: Components['pre'] = ({ node, children }) => {
+  const receivedLength = useContext(ReceivedLength);
+  const code = node?.children.find((child): child is Element => child.type === 'element' && child.tagName === 'code');
+  if (!code) return <pre>{children}</pre>;
+  return (
+    <CodeBlock
+      language={languageOf(code)}
+      source={textOf(code).replace(/\n$/, '')}
+      isPartial={(node?.position?.end.offset ?? 0) > receivedLength}
+    >
+      {children}
+    </CodeBlock>
+  );
+};
+
+// Defined once: new component functions on every streamed chunk would remount each block.
+const components: Components = {
+  pre: Pre,
+  code: InlineCode,
+  p: ({node, ...props}) => <p className="mb-2 last:mb-0" {...props} />,
+  ul: ({node, className, ...props}) => (
+    // Task lists come with their own checkboxes.
+    <ul className={className?.includes('contains-task-list') ? 'list-none ml-1 mb-2' : 'list-disc ml-4 mb-2'} {...props} />
+  ),
+  ol: ({node, ...props}) => <ol className="list-decimal ml-4 mb-2" {...props} />,
+  input: ({node, ...props}) => <input {...props} className="mr-1.5 align-middle accent-cyan-500" />,
+  table: ({node, ...props}) => (
+    <div className="my-2 overflow-x-auto">
+      <table className="w-full border-collapse text-xs" {...props} />
+    </div>
+  ),
+  th: ({node, ...props}) => <th className="border border-zinc-700 bg-zinc-800/60 px-2 py-1 text-left font-semibold" {...props} />,
+  td: ({node, ...props}) => <td className="border border-zinc-800 px-2 py-1 align-top" {...props} />,
+  a: ({node, ...props}) => <a target="_blank" rel="noopener noreferrer" className="text-cyan-400 underline" {...props} />,
+};
+
+/**
+ * Assistant replies: GitHub-flavoured markdown with highlighted code,
+ * KaTeX math and mermaid diagrams. Safe to render mid-stream.
+ */
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ content }) => {
+  const closed = useMemo(() => closePartialMarkdown(content), [content]);
+
+  return (
+    <ReceivedLength.Provider value={content.length}>
+      <ReactMarkdown remarkPlugins={remarkPlugins} rehypePlugins={rehypePlugins} components={components}>
+        {closed}
+      </ReactMarkdown>
+    </ReceivedLength.Provider>
+  );
+};
+
+export default MarkdownContent;
@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+
+interface MermaidDiagramProps {
+  source: string;
+  onRendered?: (svg: string) => void;
+}
+
+// Mermaid is large, so it is only fetched once a reply contains a diagram.
+let mermaidPromise: Promise<typeof import('mermaid').default> | null = null;
+const loadMermaid = () => {
+  mermaidPromise ??= import('mermaid').then(({ default: mermaid }) => {
+    mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict' });
+    return mermaid;
+  });
+  return mermaidPromise;
+};
+
+// Messages re-render on every streamed chunk; keep finished diagrams so they don't flash.
+const svgCache = new Map<string, string>();
+let nextDiagramId = 0;
+
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ source, onRendered }) => {
+  const [svg, setSvg] = useState<string | null>(() => svgCache.get(source) ?? null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const cached = svgCache.get(source);
+    if (cached) {
+      setSvg(cached);
+      onRendered?.(cached);
+      return;
+    }
+    let cancelled = false;
+    setError(null);
+    loadMermaid()
+      .then(mermaid => mermaid.render(`mermaid-${nextDiagramId++}`, source))
+      .then(({ svg: rendered }) => {
+        svgCache.set(source, rendered);
+        if (cancelled) return;
+        setSvg(rendered);
+        onRendered?.(rendered);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err?.message ?? String(err));
+      });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  if (error) {
+    return (
+      <div className="p-3 text-xs">
+        <p className="text-red-300 mb-2">Could not draw this diagram: {error}</p>
+        <pre className="font-mono text-zinc-400 whitespace-pre-wrap">{source}</pre>
+      </div>
+    );
+  }
+  if (!svg) {
+    return <p className="p-3 text-xs text-zinc-500">Drawing diagram…</p>;
+  }
+  return (
+    <div
+      className="p-3 flex justify-center overflow-auto [&_svg]:max-w-full [&_svg]:h-auto"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+};
+
+export default MermaidDiagram;
@@ -0,0 +1,151 @@
+import React, { useRef, useState } from 'react';
+import { Persona } from '../types';
+import {
+  PERSONA_LIMITS,
+  clampPersonaValue,
+  createPersona,
+  parsePersonaImport,
+  serializePersonas,
+} from '../services/personas';
+import { downloadBlob } from '../services/conversationExport';
+import { Plus, Trash2, Upload, Download } from 'lucide-react';
+
+interface PersonaSettingsProps {
+  personas: Persona[];
+  defaultPersonaId: string;
+  onChange: (personas: Persona[], defaultPersonaId: string) => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+const labelClass = "block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1";
+const iconButtonClass = "p-1.5 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed";
+
+const NUMERIC_FIELDS: { field: keyof typeof PERSONA_LIMITS; label: string }[] = [
+  { field: 'temperature', label: "Temperature" },
+  { field: 'topP', label: "Top P" },
+  { field: 'topK', label: "Top K" },
+  { field: 'maxOutputTokens', label: "Max output tokens" },
+  { field: 'thinkingBudget', label: "Thinking budget" },
+];
+
+const PersonaSettings: React.FC<PersonaSettingsProps> = ({ personas, defaultPersonaId, onChange }) => {
+  const [selectedId, setSelectedId] = useState(defaultPersonaId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = personas.find(persona => persona.id === selectedId) ?? personas[0];
+
+  const updateSelected = (patch: Partial<Persona>) =>
+    onChange(personas.map(persona => persona.id === selected.id ? { ...persona, ...patch } : persona), defaultPersonaId);
+
+  const handleAdd = () => {
+    const persona = createPersona();
+    onChange([...personas, persona], defaultPersonaId);
+    setSelectedId(persona.id);
+  };
+
+  const handleDelete = () => {
+    const remaining = personas.filter(persona => persona.id !== selected.id);
+    onChange(remaining, selected.id === defaultPersonaId ? remaining[0].id : defaultPersonaId);
+    setSelectedId(remaining[0].id);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePersonaImport(await file.text());
+      onChange([...personas, ...imported], defaultPersonaId);
+      setSelectedId(imported[0].id);
+    } catch (err: any) {
+      alert(`Could not import personas: ${err.message}`);
+    }
+  };
+
+  return (
+    <section className="space-y-3 pt-4 border-t border-zinc-800">
+      <div className="flex items-center justify-between">
+        <span className={labelClass}>Personas</span>
+        <div className="flex items-center gap-1">
+          <button onClick={handleAdd} className={iconButtonClass} title="New persona">
+            <Plus size={16} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className={iconButtonClass} title="Import personas">
+            <Upload size={16} />
+          </button>
+          <button onClick={() => downloadBlob(serializePersonas(personas), 'zuno-personas.json')} className={iconButtonClass} title="Export personas">
+            <Download size={16} />
+          </button>
+          <button onClick={handleDelete} disabled={personas.length <= 1} className={iconButtonClass} title="Delete persona">
+            <Trash2 size={16} />
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      <select className={inputClass} value={selected.id} onChange={(e) => setSelectedId(e.target.value)}>
+        {personas.map(persona => (
+          <option key={persona.id} value={persona.id}>
+            {persona.name}{persona.id === defaultPersonaId ? " (default)" : ""}
+          </option>
+        ))}
+      </select>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Name</label>
+          <input className={inputClass} value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>Model</label>
+          <input
+            className={inputClass}
+            value={selected.model}
+            placeholder="Provider default"
+            onChange={(e) => updateSelected({ model: e.target.value.trim() })}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className={labelClass}>System prompt</label>
+        <textarea
+          rows={4}
+          className={`${inputClass} resize-y`}
+          value={selected.systemPrompt}
+          onChange={(e) => updateSelected({ systemPrompt: e.target.value })}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {NUMERIC_FIELDS.map(({ field, label }) => (
+          <div key={field}>
+            <label className={labelClass}>{label}</label>
+            <input
+              type="number"
+              {...PERSONA_LIMITS[field]}
+              className={inputClass}
+              value={selected[field]}
+              onChange={(e) => updateSelected({ [field]: clampPersonaValue(field, Number(e.target.value)) })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-zinc-300">
+        <input
+          type="checkbox"
+          checked={selected.id === defaultPersonaId}
+          disabled={selected.id === defaultPersonaId}
+          onChange={() => onChange(personas, selected.id)}
+          className="accent-cyan-500"
+        />
+        Use for new chats
+      </label>
+      <p className="text-xs text-zinc-500">
+        A max output tokens of 0 leaves the limit to the model. The thinking budget applies when Thinking Mode is on.
+      </p>
+    </section>
+  );
+};
+
+export default PersonaSettings;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { BudgetPeriod, ModelPrice, UsageSettings } from '../types';
+import { DEFAULT_MODEL_PRICES } from '../services/usage';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+
+interface PriceSettingsProps {
+  usage: UsageSettings;
+  onChange: (patch: Partial<UsageSettings>) => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1.5 text-xs text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+const labelClass = "block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1";
+const iconButtonClass = "p-1.5 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors";
+
+const RATE_FIELDS: { field: 'inputPerMillion' | 'cachedPerMillion' | 'outputPerMillion'; label: string }[] = [
+  { field: 'inputPerMillion', label: "Input" },
+  { field: 'cachedPerMillion', label: "Cached" },
+  { field: 'outputPerMillion', label: "Output" },
+];
+
+const toRate = (value: string) => Math.max(0, Number(value) || 0);
+
+const PriceSettings: React.FC<PriceSettingsProps> = ({ usage, onChange }) => {
+  const updatePrice = (idx: number, patch: Partial<ModelPrice>) =>
+    onChange({ prices: usage.prices.map((price, i) => i === idx ? { ...price, ...patch } : price) });
+
+  return (
+    <section className="space-y-3 pt-4 border-t border-zinc-800">
+      <span className={labelClass}>Usage & cost</span>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Budget (USD, 0 = off)</label>
+          <input
+            type="number"
+            min={0}
+            step={0.5}
+            className={inputClass}
+            value={usage.budget}
+            onChange={(e) => onChange({ budget: toRate(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Per</label>
+          <select
+            className={inputClass}
+            value={usage.budgetPeriod}
+            onChange={(e) => onChange({ budgetPeriod: e.target.value as BudgetPeriod })}
+          >
+            <option value="day">Day</option>
+            <option value="month">Month</option>
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between">
+          <label className={labelClass}>Prices, USD per million tokens</label>
+          <div className="flex gap-1">
+            <button
+              type="button"
+              onClick={() => onChange({ prices: [...usage.prices, { model: '', inputPerMillion: 0, cachedPerMillion: 0, outputPerMillion: 0 }] })}
+              className={iconButtonClass}
+              title="Add model"
+            >
+              <Plus size={14} />
+            </button>
+            <button type="button" onClick={() => onChange({ prices: DEFAULT_MODEL_PRICES })} className={iconButtonClass} title="Reset to defaults">
+              <RotateCcw size={14} />
+            </button>
+          </div>
+        </div>
+        <div className="space-y-1.5">
+          {usage.prices.map((price, idx) => (
+            <div key={idx} className="flex items-center gap-1.5">
+              <input
+                className={`${inputClass} flex-[2]`}
+                value={price.model}
+                placeholder="model id or prefix"
+                onChange={(e) => updatePrice(idx, { model: e.target.value.trim() })}
+              />
+              {RATE_FIELDS.map(({ field, label }) => (
+                <input
+                  key={field}
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  className={`${inputClass} flex-1`}
+                  value={price[field]}
+                  title={label}
+                  placeholder={label}
+                  onChange={(e) => updatePrice(idx, { [field]: toRate(e.target.value) })}
+                />
+              ))}
+              <button
+                type="button"
+                onClick={() => onChange({ prices: usage.prices.filter((_, i) => i !== idx) })}
+                className={iconButtonClass}
+                title="Remove"
+              >
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-zinc-500">Columns: input, cached input, output (thinking is billed as output).</p>
+      </div>
+    </section>
+  );
+};
+
+export default PriceSettings;
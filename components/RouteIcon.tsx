@@ -0,0 +1,28 @@
+
+import React from 'react';
+import { ChatMode } from '../types';
+import { Sparkles, MessageSquare, ScanSearch, WandSparkles, ImagePlus } from 'lucide-react';
+
+interface RouteIconProps {
+  mode: ChatMode;
+  size?: number;
+  className?: string;
+}
+
+const RouteIcon: React.FC<RouteIconProps> = ({ mode, size = 16, className }) => {
+  switch (mode) {
+    case 'chat':
+      return <MessageSquare size={size} className={className} />;
+    case 'analyze':
+      return <ScanSearch size={size} className={className} />;
+    case 'edit-image':
+      return <WandSparkles size={size} className={className} />;
+    case 'generate-image':
+      return <ImagePlus size={size} className={className} />;
+    case 'auto':
+    default:
+      return <Sparkles size={size} className={className} />;
+  }
+};
+
+export default RouteIcon;
@@ -0,0 +1,144 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Conversation, Role } from '../types';
+import { SearchQuery, SearchResult, SearchSnippet } from '../services/searchIndex';
+import { Search, X, User, Bot } from 'lucide-react';
+
+interface SearchPanelProps {
+  conversations: Conversation[];
+  onSearch: (query: SearchQuery) => Promise<SearchResult[]>;
+  onOpenResult: (conversationId: string, messageId: string) => void;
+  onClose: () => void;
+}
+
+const SEARCH_DELAY_MS = 150;
+
+const inputClass = "bg-zinc-950 border border-zinc-800 rounded-lg px-2 py-1 text-xs text-zinc-300 focus:outline-none focus:border-zinc-600";
+
+// Date inputs give local calendar days; the range includes the whole of both days.
+const startOfDay = (value: string) => value ? new Date(`${value}T00:00:00`).getTime() : undefined;
+const endOfDay = (value: string) => value ? new Date(`${value}T23:59:59.999`).getTime() : undefined;
+
+const HighlightedSnippet: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([from, to], idx) => {
+    parts.push(snippet.text.slice(cursor, from));
+    parts.push(<mark key={idx} className="bg-cyan-500/25 text-cyan-200 rounded px-0.5">{snippet.text.slice(from, to)}</mark>);
+    cursor = to;
+  });
+  parts.push(snippet.text.slice(cursor));
+
+  return (
+    <p className="text-sm text-zinc-400 leading-relaxed break-words">
+      {snippet.truncatedStart && '…'}
+      {parts}
+      {snippet.truncatedEnd && '…'}
+    </p>
+  );
+};
+
+const SearchPanel: React.FC<SearchPanelProps> = ({ conversations, onSearch, onOpenResult, onClose }) => {
+  const [text, setText] = useState('');
+  const [role, setRole] = useState<Role | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [imagesOnly, setImagesOnly] = useState(false);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const latestQueryRef = useRef(0);
+
+  const titles = new Map(conversations.map(conv => [conv.id, conv.title]));
+
+  useEffect(() => {
+    const queryId = ++latestQueryRef.current;
+    if (!text.trim()) {
+      setResults([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const found = await onSearch({
+        text,
+        role: role || undefined,
+        from: startOfDay(from),
+        to: endOfDay(to),
+        hasImage: imagesOnly || undefined,
+      });
+      // Drop answers to queries the user has already typed past.
+      if (queryId === latestQueryRef.current) setResults(found);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, role, from, to, imagesOnly, onSearch]);
+
+  useEffect(() => {
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/70 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[75vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-4 py-3 border-b border-zinc-800">
+          <Search size={18} className="text-zinc-500 flex-shrink-0" />
+          <input
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder='Search messages — "exact phrase", prefix*'
+            className="flex-grow bg-transparent text-sm text-zinc-100 placeholder:text-zinc-600 focus:outline-none"
+          />
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-zinc-800 text-xs text-zinc-500">
+          <select value={role} onChange={(e) => setRole(e.target.value as Role | '')} className={inputClass}>
+            <option value="">Anyone</option>
+            <option value={Role.USER}>You</option>
+            <option value={Role.MODEL}>Zuno</option>
+          </select>
+          <label className="flex items-center gap-1">
+            From
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-1">
+            To
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex items-center gap-1.5 ml-auto">
+            <input type="checkbox" checked={imagesOnly} onChange={(e) => setImagesOnly(e.target.checked)} className="accent-cyan-500" />
+            Has image
+          </label>
+        </div>
+
+        <div className="overflow-y-auto p-2">
+          {text.trim() && results.length === 0 && (
+            <p className="px-3 py-6 text-center text-sm text-zinc-600">No matching messages.</p>
+          )}
+          {results.map(result => (
+            <button
+              key={`${result.conversationId}:${result.messageId}`}
+              onClick={() => onOpenResult(result.conversationId, result.messageId)}
+              className="w-full flex flex-col gap-1 px-3 py-2.5 rounded-xl text-left hover:bg-zinc-800 transition-colors"
+            >
+              <span className="flex items-center gap-2 text-[11px] text-zinc-500">
+                {result.role === Role.USER ? <User size={12} /> : <Bot size={12} />}
+                <span className="font-semibold text-zinc-300 truncate">{titles.get(result.conversationId) ?? 'Conversation'}</span>
+                <span className="flex-shrink-0">{new Date(result.timestamp).toLocaleString()}</span>
+              </span>
+              <HighlightedSnippet snippet={result.snippet} />
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchPanel;
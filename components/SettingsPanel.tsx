@@ -0,0 +1,277 @@
+
+import React, { useState } from 'react';
+import { AppSettings, GeminiTransportMode, ProviderSettings } from '../types';
+import { PROVIDER_OPTIONS } from '../services/providerRegistry';
+import PersonaSettings from './PersonaSettings';
+import VoiceSettings from './VoiceSettings';
+import PriceSettings from './PriceSettings';
+import WatermarkSettings from './WatermarkSettings';
+import ImageUploadSettings from './ImageUploadSettings';
+import { BUILTIN_TOOLS } from '../services/builtinTools';
+import { X } from 'lucide-react';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onSave: (settings: AppSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+const labelClass = "block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AppSettings>(settings);
+  const provider = draft.provider;
+
+  const updateProvider = (patch: Partial<ProviderSettings>) =>
+    setDraft(prev => ({ ...prev, provider: { ...prev.provider, ...patch } }));
+
+  const updateGemini = (patch: Partial<ProviderSettings['gemini']>) =>
+    updateProvider({ gemini: { ...provider.gemini, ...patch } });
+
+  const updateOpenAI = (patch: Partial<ProviderSettings['openAICompatible']>) =>
+    updateProvider({ openAICompatible: { ...provider.openAICompatible, ...patch } });
+
+  const updateContext = (patch: Partial<AppSettings['context']>) =>
+    setDraft(prev => ({ ...prev, context: { ...prev.context, ...patch } }));
+
+  const updateTools = (patch: Partial<AppSettings['tools']>) =>
+    setDraft(prev => ({ ...prev, tools: { ...prev.tools, ...patch } }));
+
+  // Adds or removes a tool name from one of the tool settings lists.
+  const toggleToolIn = (list: 'disabledTools' | 'askBeforeRunning', name: string, included: boolean) =>
+    updateTools({
+      [list]: included
+        ? [...draft.tools[list].filter(other => other !== name), name]
+        : draft.tools[list].filter(other => other !== name),
+    });
+
+  const handleSave = () => {
+    onSave({
+      ...draft,
+      personas: draft.personas.map(persona => ({ ...persona, name: persona.name.trim() || "Untitled persona" })),
+      usage: { ...draft.usage, prices: draft.usage.prices.filter(price => price.model) },
+    });
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center bg-black/70 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-5 py-4 border-b border-zinc-800">
+          <h2 className="font-bold tracking-tight">Settings</h2>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <section>
+            <span className={labelClass}>Model provider</span>
+            <div className="space-y-2">
+              {PROVIDER_OPTIONS.map(option => (
+                <label
+                  key={option.id}
+                  className={`flex items-start gap-3 p-3 rounded-xl border cursor-pointer transition-colors ${
+                    provider.providerId === option.id
+                      ? 'border-cyan-500/60 bg-cyan-500/5'
+                      : 'border-zinc-800 hover:border-zinc-700'
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="provider"
+                    checked={provider.providerId === option.id}
+                    onChange={() => updateProvider({ providerId: option.id })}
+                    className="mt-1 accent-cyan-500"
+                  />
+                  <div>
+                    <p className="text-sm font-semibold text-zinc-200">{option.label}</p>
+                    <p className="text-xs text-zinc-500">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          {provider.providerId === 'gemini' && (
+            <section className="space-y-3">
+              <div>
+                <label className={labelClass}>Connection</label>
+                <select
+                  className={inputClass}
+                  value={provider.gemini.transport}
+                  onChange={(e) => updateGemini({ transport: e.target.value as GeminiTransportMode })}
+                >
+                  <option value="direct">Direct, with the API key from the build</option>
+                  <option value="proxy">Through the proxy server</option>
+                </select>
+              </div>
+              {provider.gemini.transport === 'proxy' && (
+                <div>
+                  <label className={labelClass}>Proxy URL</label>
+                  <input className={inputClass} value={provider.gemini.proxyUrl} placeholder="http://localhost:8787" onChange={(e) => updateGemini({ proxyUrl: e.target.value })} />
+                  <p className="mt-1 text-xs text-zinc-500">Start it with <code>npm run proxy</code>; the key then stays on the server.</p>
+                </div>
+              )}
+              <div>
+                <label className={labelClass}>Chat model</label>
+                <input className={inputClass} value={provider.gemini.chatModel} onChange={(e) => updateGemini({ chatModel: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Reasoning & vision model</label>
+                <input className={inputClass} value={provider.gemini.reasoningModel} onChange={(e) => updateGemini({ reasoningModel: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Image model</label>
+                <input className={inputClass} value={provider.gemini.imageModel} onChange={(e) => updateGemini({ imageModel: e.target.value })} />
+              </div>
+            </section>
+          )}
+
+          {provider.providerId === 'openai-compatible' && (
+            <section className="space-y-3">
+              <div>
+                <label className={labelClass}>Base URL</label>
+                <input className={inputClass} value={provider.openAICompatible.baseUrl} placeholder="http://localhost:11434/v1" onChange={(e) => updateOpenAI({ baseUrl: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>Model</label>
+                <input className={inputClass} value={provider.openAICompatible.model} onChange={(e) => updateOpenAI({ model: e.target.value })} />
+              </div>
+              <div>
+                <label className={labelClass}>API key (optional)</label>
+                <input type="password" className={inputClass} value={provider.openAICompatible.apiKey} onChange={(e) => updateOpenAI({ apiKey: e.target.value })} />
+              </div>
+              <label className="flex items-center gap-2 text-sm text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={provider.openAICompatible.supportsImages}
+                  onChange={(e) => updateOpenAI({ supportsImages: e.target.checked })}
+                  className="accent-cyan-500"
+                />
+                Model accepts image input
+              </label>
+            </section>
+          )}
+
+          <section className="space-y-3 pt-4 border-t border-zinc-800">
+            <span className={labelClass}>Context window</span>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Token budget</label>
+                <input
+                  type="number"
+                  min={1000}
+                  step={1000}
+                  className={inputClass}
+                  value={draft.context.tokenBudget}
+                  onChange={(e) => updateContext({ tokenBudget: Math.max(1000, Number(e.target.value) || 0) })}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Always keep last</label>
+                <input
+                  type="number"
+                  min={2}
+                  className={inputClass}
+                  value={draft.context.keepRecentMessages}
+                  onChange={(e) => updateContext({ keepRecentMessages: Math.max(2, Number(e.target.value) || 0) })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-zinc-500">
+              Past the budget, old attachments stop being resent and the oldest turns are replaced by a summary.
+            </p>
+          </section>
+
+          <section className="space-y-3 pt-4 border-t border-zinc-800">
+            <span className={labelClass}>Tools</span>
+            <label className="flex items-center gap-2 text-sm text-zinc-300">
+              <input
+                type="checkbox"
+                checked={draft.tools.enabled}
+                onChange={(e) => updateTools({ enabled: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Let the model use local tools
+            </label>
+            {draft.tools.enabled && (
+              <div className="space-y-1">
+                {BUILTIN_TOOLS.map(tool => {
+                  const isEnabled = !draft.tools.disabledTools.includes(tool.name);
+                  return (
+                    <div key={tool.name} className="flex items-center gap-3 text-sm">
+                      <label className="flex items-center gap-2 flex-grow text-zinc-300">
+                        <input
+                          type="checkbox"
+                          checked={isEnabled}
+                          onChange={(e) => toggleToolIn('disabledTools', tool.name, !e.target.checked)}
+                          className="accent-cyan-500"
+                        />
+                        {tool.label}
+                      </label>
+                      <label className={`flex items-center gap-1.5 text-xs text-zinc-500 ${isEnabled ? '' : 'opacity-40'}`}>
+                        <input
+                          type="checkbox"
+                          disabled={!isEnabled}
+                          checked={draft.tools.askBeforeRunning.includes(tool.name)}
+                          onChange={(e) => toggleToolIn('askBeforeRunning', tool.name, e.target.checked)}
+                          className="accent-cyan-500"
+                        />
+                        Ask before running
+                      </label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <p className="text-xs text-zinc-500">
+              Tools run in this browser. Only Gemini and the Mock provider can call them.
+            </p>
+          </section>
+
+          <VoiceSettings
+            voice={draft.voice}
+            onChange={(patch) => setDraft(prev => ({ ...prev, voice: { ...prev.voice, ...patch } }))}
+          />
+
+          <PriceSettings
+            usage={draft.usage}
+            onChange={(patch) => setDraft(prev => ({ ...prev, usage: { ...prev.usage, ...patch } }))}
+          />
+
+          <ImageUploadSettings
+            imageUpload={draft.imageUpload}
+            onChange={(patch) => setDraft(prev => ({ ...prev, imageUpload: { ...prev.imageUpload, ...patch } }))}
+          />
+
+          <WatermarkSettings
+            watermark={draft.watermark}
+            onChange={(patch) => setDraft(prev => ({ ...prev, watermark: { ...prev.watermark, ...patch } }))}
+          />
+
+          <PersonaSettings
+            personas={draft.personas}
+            defaultPersonaId={draft.defaultPersonaId}
+            onChange={(personas, defaultPersonaId) => setDraft(prev => ({ ...prev, personas, defaultPersonaId }))}
+          />
+        </div>
+
+        <div className="flex justify-end gap-2 px-5 py-4 border-t border-zinc-800">
+          <button onClick={onClose} className="px-3 py-1.5 rounded-lg text-xs font-bold text-zinc-400 hover:text-zinc-200 transition-colors">
+            Cancel
+          </button>
+          <button onClick={handleSave} className="px-3 py-1.5 bg-zinc-100 text-zinc-950 hover:bg-zinc-200 rounded-lg text-xs font-bold transition-all">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { Conversation, Message, Role } from '../types';
+import { createShareLink, LONG_LINK_CHARS, SHARE_IMAGE_OPTIONS, ShareImageMode } from '../services/shareLink';
+import { Check, Copy, Link2, Share2, X } from 'lucide-react';
+
+interface ShareDialogProps {
+  conversation: Conversation;
+  branch: Message[]; // the messages being shown
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+const labelClass = "block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1";
+
+const messageLabel = (msg: Message, idx: number) => {
+  const text = msg.content.replace(/\s+/g, ' ').trim() || (msg.attachments?.length ? "(attachment)" : "(empty)");
+  return `${idx + 1}. ${msg.role === Role.USER ? 'You' : 'Zuno'}: ${text.length > 48 ? `${text.slice(0, 48)}…` : text}`;
+};
+
+/** Builds a read-only link to the conversation, or to a range of its messages. */
+const ShareDialog: React.FC<ShareDialogProps> = ({ conversation, branch, onClose }) => {
+  const [first, setFirst] = useState(0);
+  const [last, setLast] = useState(branch.length - 1);
+  const [images, setImages] = useState<ShareImageMode>('downscaled');
+  const [passphrase, setPassphrase] = useState('');
+  const [link, setLink] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  // A link made with other options no longer matches what is picked.
+  useEffect(() => {
+    setLink(null);
+    setError(null);
+  }, [first, last, images, passphrase]);
+
+  const hasImages = branch.slice(first, last + 1).some(msg => msg.attachments?.some(att => att.kind === 'image'));
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      setLink(await createShareLink(conversation, branch, {
+        range: [first, last],
+        images,
+        passphrase: passphrase || undefined,
+      }));
+    } catch (err: any) {
+      console.error("Failed to create share link:", err);
+      setError(err.message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = () => {
+    if (!link) return;
+    navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/70 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[80vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-zinc-800">
+          <Share2 size={18} className="text-zinc-500" />
+          <h2 className="flex-grow font-bold tracking-tight">Share conversation</h2>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4">
+          <p className="text-xs text-zinc-500">
+            The messages travel inside the link itself and are never uploaded. Anyone with the link can read them.
+          </p>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>From</label>
+              <select
+                className={inputClass}
+                value={first}
+                onChange={(e) => {
+                  const next = Number(e.target.value);
+                  setFirst(next);
+                  if (last < next) setLast(next);
+                }}
+              >
+                {branch.map((msg, idx) => <option key={msg.id} value={idx}>{messageLabel(msg, idx)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>To</label>
+              <select
+                className={inputClass}
+                value={last}
+                onChange={(e) => {
+                  const next = Number(e.target.value);
+                  setLast(next);
+                  if (first > next) setFirst(next);
+                }}
+              >
+                {branch.map((msg, idx) => <option key={msg.id} value={idx}>{messageLabel(msg, idx)}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {hasImages && (
+            <div>
+              <label className={labelClass}>Images</label>
+              <div className="flex gap-2">
+                {SHARE_IMAGE_OPTIONS.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setImages(option.id)}
+                    className={`flex-1 px-3 py-2 rounded-lg border text-sm transition-colors ${
+                      images === option.id ? 'border-cyan-500 bg-cyan-500/10 text-cyan-300' : 'border-zinc-800 text-zinc-400 hover:border-zinc-600'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <label className={labelClass}>Passphrase (optional)</label>
+            <input
+              type="password"
+              className={inputClass}
+              value={passphrase}
+              placeholder="Leave empty for an open link"
+              autoComplete="new-password"
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {passphrase && (
+              <p className="mt-1 text-xs text-zinc-500">Send the passphrase separately. Without it the link cannot be opened.</p>
+            )}
+          </div>
+
+          <p className="text-xs text-zinc-500">PDF and audio attachments are left out.</p>
+
+          {link ? (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input readOnly className={`${inputClass} font-mono text-xs`} value={link} onFocus={(e) => e.target.select()} />
+                <button
+                  onClick={handleCopy}
+                  className="flex-shrink-0 flex items-center gap-1.5 px-3 py-2 bg-white text-black rounded-lg text-sm font-semibold hover:bg-zinc-200 transition-colors"
+                >
+                  {copied ? <Check size={14} /> : <Copy size={14} />}
+                  {copied ? "Copied" : "Copy"}
+                </button>
+              </div>
+              <p className={`text-xs ${link.length > LONG_LINK_CHARS ? 'text-amber-300' : 'text-zinc-500'}`}>
+                {link.length.toLocaleString()} characters.
+                {link.length > LONG_LINK_CHARS && " Some chat and mail apps cut links this long; share fewer messages or leave out images."}
+              </p>
+            </div>
+          ) : (
+            <button
+              onClick={handleCreate}
+              disabled={isCreating}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-white text-black rounded-xl text-sm font-semibold hover:bg-zinc-200 transition-colors disabled:opacity-50"
+            >
+              <Link2 size={16} />
+              {isCreating ? "Creating link…" : "Create link"}
+            </button>
+          )}
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShareDialog;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { Conversation } from '../types';
+import { openSharedConversation, readShareFragment, ShareFragment } from '../services/shareLink';
+import { getActivePath } from '../services/messageTree';
+import ChatMessage from './ChatMessage';
+import { Cpu, Eye, Lock, MessageSquarePlus, X } from 'lucide-react';
+
+interface SharedConversationViewProps {
+  hash: string; // the `#share=...` fragment
+  canContinue: boolean; // false until saved conversations have loaded
+  onContinue: (conversation: Conversation) => void;
+  onClose: () => void;
+}
+
+/** A conversation opened from a share link, read-only until it is continued. */
+const SharedConversationView: React.FC<SharedConversationViewProps> = ({ hash, canContinue, onContinue, onClose }) => {
+  const [fragment, setFragment] = useState<ShareFragment | null>(null);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+
+  const open = async (target: ShareFragment, secret?: string) => {
+    setIsOpening(true);
+    setError(null);
+    try {
+      setConversation(await openSharedConversation(target, secret));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  useEffect(() => {
+    setConversation(null);
+    setPassphrase('');
+    setError(null);
+    try {
+      const next = readShareFragment(hash);
+      setFragment(next);
+      if (!next.encrypted) open(next);
+    } catch (err: any) {
+      setFragment(null);
+      setError(err.message);
+    }
+  }, [hash]);
+
+  const messages = conversation ? getActivePath(conversation.session.messages, conversation.session.activeLeafId) : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-zinc-950 text-zinc-100">
+      <header className="flex-shrink-0 flex items-center gap-3 px-6 py-4 border-b border-zinc-900">
+        <div className="w-9 h-9 bg-white rounded-xl flex items-center justify-center">
+          <Cpu className="text-black" size={20} />
+        </div>
+        <div className="flex-grow min-w-0">
+          <h1 className="font-bold tracking-tight truncate">{conversation?.title ?? "Shared conversation"}</h1>
+          <p className="flex items-center gap-1.5 text-[10px] text-zinc-500 font-bold uppercase tracking-wider">
+            <Eye size={11} />
+            Shared with you · read-only
+          </p>
+        </div>
+        {conversation && (
+          <button
+            onClick={() => onContinue(conversation)}
+            disabled={!canContinue}
+            className="flex items-center gap-2 px-4 py-2 bg-white text-black rounded-xl text-sm font-semibold hover:bg-zinc-200 transition-colors disabled:opacity-50"
+            title="Add it to your conversations and reply"
+          >
+            <MessageSquarePlus size={16} />
+            Continue this chat
+          </button>
+        )}
+        <button onClick={onClose} className="p-2 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Go to your chats">
+          <X size={20} />
+        </button>
+      </header>
+
+      <main className="flex-grow overflow-y-auto px-4 py-8 md:px-0">
+        <div className="max-w-3xl mx-auto">
+          {conversation ? (
+            <div className="space-y-2">
+              {messages.map(msg => <ChatMessage key={msg.id} message={msg} />)}
+            </div>
+          ) : fragment?.encrypted ? (
+            <form
+              className="max-w-sm mx-auto mt-[10vh] space-y-3"
+              onSubmit={(e) => { e.preventDefault(); open(fragment, passphrase); }}
+            >
+              <p className="flex items-center gap-2 font-semibold">
+                <Lock size={16} className="text-zinc-500" />
+                This conversation is protected
+              </p>
+              <input
+                type="password"
+                autoFocus
+                value={passphrase}
+                placeholder="Passphrase"
+                onChange={(e) => setPassphrase(e.target.value)}
+                className="w-full bg-zinc-900 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600"
+              />
+              <button
+                type="submit"
+                disabled={!passphrase || isOpening}
+                className="w-full px-4 py-2 bg-white text-black rounded-lg text-sm font-semibold hover:bg-zinc-200 transition-colors disabled:opacity-50"
+              >
+                {isOpening ? "Opening…" : "Open"}
+              </button>
+              {error && <p className="text-xs text-red-400">{error}</p>}
+            </form>
+          ) : error ? (
+            <p className="mt-[10vh] text-center text-sm text-red-400">{error}</p>
+          ) : (
+            <p className="mt-[10vh] text-center text-sm text-zinc-500">Opening…</p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedConversationView;
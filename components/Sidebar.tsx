@@ -0,0 +1,165 @@
+
+import React, { useRef, useState } from 'react';
+import { Conversation } from '../types';
+import { sortConversations } from '../services/conversationStore';
+import { MessageSquare, Pin, PinOff, Pencil, Trash2, Plus, Check, X, Upload } from 'lucide-react';
+
+interface SidebarProps {
+  conversations: Conversation[];
+  activeId: string;
+  isOpen: boolean;
+  onSelect: (id: string) => void;
+  onNewChat: () => void;
+  onRename: (id: string, title: string) => void;
+  onTogglePin: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const Sidebar: React.FC<SidebarProps> = ({
+  conversations,
+  activeId,
+  isOpen,
+  onSelect,
+  onNewChat,
+  onRename,
+  onTogglePin,
+  onDelete,
+  onImport,
+  onClose,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const startRename = (conv: Conversation) => {
+    setEditingId(conv.id);
+    setDraftTitle(conv.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conv: Conversation) => {
+    if (confirm(`Delete "${conv.title}"? This cannot be undone.`)) {
+      onDelete(conv.id);
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onImport(file);
+    e.target.value = '';
+  };
+
+  const visible = sortConversations(conversations).filter(
+    conv => conv.session.messages.length > 0 || conv.id === activeId
+  );
+
+  return (
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 bg-black/60 z-20 md:hidden" onClick={onClose} />
+      )}
+      <aside
+        className={`fixed md:static inset-y-0 left-0 z-30 w-72 flex-shrink-0 flex flex-col bg-zinc-950 border-r border-zinc-900 transition-transform md:translate-x-0 ${
+          isOpen ? 'translate-x-0' : '-translate-x-full'
+        }`}
+      >
+        <div className="flex gap-2 p-4 border-b border-zinc-900">
+          <button
+            onClick={onNewChat}
+            className="flex-grow flex items-center justify-center gap-2 px-3 py-2 bg-zinc-100 text-zinc-950 hover:bg-zinc-200 rounded-lg text-xs font-bold transition-all shadow-[0_0_10px_rgba(255,255,255,0.1)]"
+          >
+            <Plus size={16} strokeWidth={3} />
+            New Chat
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="p-2 text-zinc-500 hover:text-zinc-200 bg-zinc-900 border border-zinc-800 rounded-lg transition-colors"
+            title="Import conversation (JSON)"
+          >
+            <Upload size={16} />
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImportFile}
+            className="hidden"
+          />
+        </div>
+
+        <nav className="flex-grow overflow-y-auto p-2 space-y-1">
+          {visible.map(conv => {
+            const isActive = conv.id === activeId;
+            const isEditing = conv.id === editingId;
+
+            return (
+              <div
+                key={conv.id}
+                onClick={() => !isEditing && onSelect(conv.id)}
+                className={`group flex items-center gap-2 px-3 py-2 rounded-lg cursor-pointer text-sm transition-colors ${
+                  isActive ? 'bg-zinc-800 text-zinc-100' : 'text-zinc-400 hover:bg-zinc-900 hover:text-zinc-200'
+                }`}
+              >
+                {conv.pinned ? (
+                  <Pin size={14} className="flex-shrink-0 text-cyan-400" />
+                ) : (
+                  <MessageSquare size={14} className="flex-shrink-0 text-zinc-600" />
+                )}
+
+                {isEditing ? (
+                  <>
+                    <input
+                      autoFocus
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      onClick={(e) => e.stopPropagation()}
+                      className="flex-grow min-w-0 bg-zinc-900 border border-zinc-700 rounded px-1.5 py-0.5 text-xs text-zinc-100 focus:outline-none"
+                    />
+                    <button onClick={(e) => { e.stopPropagation(); commitRename(); }} className="p-1 text-zinc-400 hover:text-green-400" title="Save">
+                      <Check size={14} />
+                    </button>
+                    <button onClick={(e) => { e.stopPropagation(); setEditingId(null); }} className="p-1 text-zinc-400 hover:text-zinc-200" title="Cancel">
+                      <X size={14} />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-grow truncate">{conv.title}</span>
+                    {(conv.session.isLoading || conv.session.isStreaming) && (
+                      <span className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-pulse flex-shrink-0" />
+                    )}
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={(e) => { e.stopPropagation(); onTogglePin(conv.id); }} className="p-1 text-zinc-500 hover:text-cyan-400" title={conv.pinned ? 'Unpin' : 'Pin'}>
+                        {conv.pinned ? <PinOff size={13} /> : <Pin size={13} />}
+                      </button>
+                      <button onClick={(e) => { e.stopPropagation(); startRename(conv); }} className="p-1 text-zinc-500 hover:text-zinc-200" title="Rename">
+                        <Pencil size={13} />
+                      </button>
+                      <button onClick={(e) => { e.stopPropagation(); handleDelete(conv); }} className="p-1 text-zinc-500 hover:text-red-400" title="Delete">
+                        <Trash2 size={13} />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </nav>
+      </aside>
+    </>
+  );
+};
+
+export default Sidebar;
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { MessageThoughts } from '../types';
+import MarkdownContent from './MarkdownContent';
+import { BrainCircuit, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface ThoughtsSectionProps {
+  thoughts: MessageThoughts;
+  isStreaming: boolean; // the reply is still being generated
+}
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(1, Math.round(ms / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const ThoughtsSection: React.FC<ThoughtsSectionProps> = ({ thoughts, isStreaming }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isThinking = isStreaming && thoughts.durationMs === undefined;
+  const [now, setNow] = useState(Date.now);
+
+  // Thought summaries arrive in bursts, so the timer ticks on its own in between.
+  useEffect(() => {
+    if (!isThinking) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isThinking]);
+
+  const label = isThinking
+    ? `Thinking… ${formatElapsed(now - thoughts.startedAt)}`
+    : thoughts.durationMs !== undefined ? `Thought for ${formatElapsed(thoughts.durationMs)}` : "Thoughts";
+
+  return (
+    <div className="mb-3 rounded-lg border border-zinc-800 bg-zinc-950/40 text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-zinc-400 hover:text-zinc-200 transition-colors"
+      >
+        {isOpen ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <BrainCircuit size={13} className={isThinking ? 'text-cyan-400 animate-pulse' : ''} />
+        <span className="font-semibold">{label}</span>
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 text-zinc-400 prose prose-invert prose-sm max-w-none break-words">
+          <MarkdownContent content={thoughts.text} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThoughtsSection;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ToolCall, ToolCallStatus } from '../types';
+import { BUILTIN_TOOLS } from '../services/builtinTools';
+import { Wrench, ChevronDown, ChevronRight, Loader2, Check, X, Ban, ShieldQuestion } from 'lucide-react';
+
+interface ToolCallCardProps {
+  call: ToolCall;
+  onApprove?: (callId: string, approved: boolean) => void; // only while the reply is still running
+}
+
+const STATUS: Record<ToolCallStatus, { label: string; className: string; icon: React.ReactNode }> = {
+  'awaiting-approval': { label: "Needs approval", className: 'text-amber-300', icon: <ShieldQuestion size={13} /> },
+  'running': { label: "Running", className: 'text-cyan-300', icon: <Loader2 size={13} className="animate-spin" /> },
+  'done': { label: "Done", className: 'text-emerald-300', icon: <Check size={13} /> },
+  'error': { label: "Failed", className: 'text-red-300', icon: <X size={13} /> },
+  'denied': { label: "Declined", className: 'text-zinc-500', icon: <Ban size={13} /> },
+};
+
+const formatValue = (value: unknown) => typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, onApprove }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const status = STATUS[call.status];
+  const label = BUILTIN_TOOLS.find(tool => tool.name === call.name)?.label ?? call.name;
+  const needsApproval = call.status === 'awaiting-approval';
+  // The code being approved should be visible without an extra click.
+  const showDetails = isOpen || needsApproval;
+
+  return (
+    <div className="mb-2 rounded-lg border border-zinc-800 bg-zinc-950/60 text-xs">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-zinc-400 hover:text-zinc-200 transition-colors"
+      >
+        {showDetails ? <ChevronDown size={13} /> : <ChevronRight size={13} />}
+        <Wrench size={13} />
+        <span className="font-semibold text-zinc-300">{label}</span>
+        <span className={`ml-auto flex items-center gap-1 ${status.className}`}>
+          {status.icon}
+          {status.label}
+        </span>
+      </button>
+
+      {showDetails && (
+        <div className="px-3 pb-3 space-y-2">
+          <div>
+            <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 mb-1">Arguments</p>
+            <pre className="overflow-auto max-h-60 rounded bg-black/40 p-2 font-mono text-zinc-300 whitespace-pre-wrap">
+              {call.name === 'run_javascript' && typeof call.args.code === 'string' ? call.args.code : formatValue(call.args)}
+            </pre>
+          </div>
+          {call.status === 'done' && (
+            <div>
+              <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-600 mb-1">Result</p>
+              <pre className="overflow-auto max-h-60 rounded bg-black/40 p-2 font-mono text-zinc-300 whitespace-pre-wrap">
+                {formatValue(call.result)}
+              </pre>
+            </div>
+          )}
+          {call.error && <p className="text-red-300 whitespace-pre-wrap">{call.error}</p>}
+          {needsApproval && onApprove && (
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => onApprove(call.id, false)}
+                className="px-2 py-1 font-bold text-zinc-400 hover:text-zinc-200 transition-colors"
+              >
+                Decline
+              </button>
+              <button
+                onClick={() => onApprove(call.id, true)}
+                className="px-2 py-1 font-bold bg-zinc-100 text-zinc-950 hover:bg-zinc-200 rounded-md transition-colors"
+              >
+                Run
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Conversation, UsageSettings } from '../types';
+import { UsageRow, UsageTotals, formatCost, formatTokens, spentThisPeriod, summarizeUsage } from '../services/usage';
+import { BarChart3, X } from 'lucide-react';
+
+interface UsagePanelProps {
+  conversations: Conversation[];
+  activeConversationId: string;
+  usage: UsageSettings;
+  onClose: () => void;
+}
+
+type Grouping = 'byConversation' | 'byDay' | 'byModel';
+
+const GROUPINGS: { id: Grouping; label: string; column: string }[] = [
+  { id: 'byConversation', label: "Conversations", column: "Conversation" },
+  { id: 'byDay', label: "Days", column: "Day" },
+  { id: 'byModel', label: "Models", column: "Model" },
+];
+
+const costLabel = (totals: UsageTotals) =>
+  `${formatCost(totals.cost)}${totals.unpriced > 0 ? ` + ${totals.unpriced} unpriced` : ''}`;
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string; warn?: boolean }> = ({ label, value, detail, warn }) => (
+  <div className={`flex-1 min-w-[9rem] rounded-xl border p-3 ${warn ? 'border-amber-500/50 bg-amber-500/5' : 'border-zinc-800 bg-zinc-950/60'}`}>
+    <p className="text-[10px] font-bold uppercase tracking-wider text-zinc-500">{label}</p>
+    <p className={`text-lg font-bold ${warn ? 'text-amber-300' : 'text-zinc-100'}`}>{value}</p>
+    {detail && <p className="text-[11px] text-zinc-500">{detail}</p>}
+  </div>
+);
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ conversations, activeConversationId, usage, onClose }) => {
+  const [grouping, setGrouping] = useState<Grouping>('byConversation');
+  const summary = useMemo(() => summarizeUsage(conversations, usage.prices), [conversations, usage.prices]);
+  const spent = useMemo(() => spentThisPeriod(conversations, usage), [conversations, usage]);
+  const current = summary.byConversation.find(row => row.key === activeConversationId)?.totals;
+  const rows: UsageRow[] = summary[grouping];
+
+  useEffect(() => {
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  const periodLabel = usage.budgetPeriod === 'day' ? "Today" : "This month";
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/70 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[80vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-zinc-800">
+          <BarChart3 size={18} className="text-zinc-500" />
+          <h2 className="flex-grow font-bold tracking-tight">Usage</h2>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-3 p-5 border-b border-zinc-800">
+          <StatCard
+            label="This conversation"
+            value={current ? costLabel(current) : '$0'}
+            detail={current ? `${current.responses} replies` : "No replies yet"}
+          />
+          <StatCard
+            label={periodLabel}
+            value={formatCost(spent)}
+            detail={usage.budget > 0 ? `of ${formatCost(usage.budget)} budget` : "No budget set"}
+            warn={usage.budget > 0 && spent >= usage.budget}
+          />
+          <StatCard
+            label="All time"
+            value={costLabel(summary.total)}
+            detail={`${formatTokens(summary.total.promptTokens + summary.total.outputTokens + summary.total.thinkingTokens)} tokens`}
+          />
+        </div>
+
+        <div className="flex gap-1 px-5 pt-3">
+          {GROUPINGS.map(option => (
+            <button
+              key={option.id}
+              onClick={() => setGrouping(option.id)}
+              className={`px-3 py-1 rounded-lg text-xs font-bold transition-colors ${
+                grouping === option.id ? 'bg-zinc-100 text-zinc-950' : 'text-zinc-500 hover:text-zinc-200'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="overflow-auto p-5 pt-3">
+          {rows.length === 0 ? (
+            <p className="py-6 text-center text-sm text-zinc-600">No usage recorded yet.</p>
+          ) : (
+            <table className="w-full text-xs">
+              <thead className="text-left text-[10px] uppercase tracking-wider text-zinc-500">
+                <tr>
+                  <th className="py-2 pr-3 font-bold">{GROUPINGS.find(option => option.id === grouping)!.column}</th>
+                  <th className="py-2 px-2 font-bold text-right">Replies</th>
+                  <th className="py-2 px-2 font-bold text-right">Input</th>
+                  <th className="py-2 px-2 font-bold text-right">Cached</th>
+                  <th className="py-2 px-2 font-bold text-right">Output</th>
+                  <th className="py-2 px-2 font-bold text-right">Thinking</th>
+                  <th className="py-2 pl-2 font-bold text-right">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-zinc-300">
+                {rows.map(row => (
+                  <tr key={row.key} className={`border-t border-zinc-800 ${grouping === 'byConversation' && row.key === activeConversationId ? 'text-cyan-300' : ''}`}>
+                    <td className="py-2 pr-3 max-w-[14rem] truncate">{row.label}</td>
+                    <td className="py-2 px-2 text-right">{row.totals.responses}</td>
+                    <td className="py-2 px-2 text-right">{formatTokens(row.totals.promptTokens)}</td>
+                    <td className="py-2 px-2 text-right">{formatTokens(row.totals.cachedTokens)}</td>
+                    <td className="py-2 px-2 text-right">{formatTokens(row.totals.outputTokens)}</td>
+                    <td className="py-2 px-2 text-right">{formatTokens(row.totals.thinkingTokens)}</td>
+                    <td className="py-2 pl-2 text-right font-semibold">{costLabel(row.totals)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="mt-4 text-[11px] text-zinc-600">
+            Costs are estimates from the price table in Settings. Replies from models without a price are counted but not priced.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Provenance } from '../types';
+import { detectImageFormat, hashPrompt, readProvenance } from '../services/provenance';
+import { ShieldCheck, ShieldQuestion, Upload, X } from 'lucide-react';
+
+interface VerifyImagePanelProps {
+  onClose: () => void;
+}
+
+interface CheckedFile {
+  name: string;
+  previewUrl: string;
+  provenance: Provenance | null;
+  supported: boolean; // PNG or JPEG, the formats that can carry a record
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 placeholder:text-zinc-600 focus:outline-none focus:border-zinc-600";
+
+const Field: React.FC<{ label: string; value: string; mono?: boolean }> = ({ label, value, mono }) => (
+  <div className="flex gap-3 text-xs">
+    <span className="w-24 flex-shrink-0 text-zinc-500">{label}</span>
+    <span className={`text-zinc-200 break-all ${mono ? 'font-mono' : ''}`}>{value}</span>
+  </div>
+);
+
+/** Reads the provenance record back out of an image file, entirely in the browser. */
+const VerifyImagePanel: React.FC<VerifyImagePanelProps> = ({ onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [checked, setChecked] = useState<CheckedFile | null>(null);
+  const [prompt, setPrompt] = useState('');
+  const [promptMatches, setPromptMatches] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  useEffect(() => () => {
+    if (checked) URL.revokeObjectURL(checked.previewUrl);
+  }, [checked]);
+
+  useEffect(() => {
+    const recorded = checked?.provenance?.promptHash;
+    if (!recorded || !prompt) {
+      setPromptMatches(null);
+      return;
+    }
+    let isCurrent = true;
+    hashPrompt(prompt).then(hash => {
+      if (isCurrent) setPromptMatches(hash === recorded);
+    });
+    return () => { isCurrent = false; };
+  }, [prompt, checked]);
+
+  const checkFile = async (file: File | undefined) => {
+    if (!file) return;
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    setChecked({
+      name: file.name,
+      previewUrl: URL.createObjectURL(file),
+      provenance: readProvenance(bytes),
+      supported: detectImageFormat(bytes) !== 'other',
+    });
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    checkFile(e.dataTransfer.files[0]);
+  };
+
+  const provenance = checked?.provenance;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-start justify-center bg-black/70 p-4 pt-[10vh]" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[80vh] flex flex-col bg-zinc-900 border border-zinc-800 rounded-2xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-4 border-b border-zinc-800">
+          <ShieldCheck size={18} className="text-zinc-500" />
+          <h2 className="flex-grow font-bold tracking-tight">Verify image</h2>
+          <button onClick={onClose} className="p-1 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-5 space-y-4">
+          <input
+            type="file"
+            ref={fileInputRef}
+            accept="image/*"
+            onChange={(e) => { checkFile(e.target.files?.[0]); e.target.value = ''; }}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+            className="w-full flex flex-col items-center gap-2 py-6 border border-dashed border-zinc-700 hover:border-zinc-500 rounded-xl text-sm text-zinc-400 transition-colors"
+          >
+            <Upload size={20} />
+            Choose or drop an image
+          </button>
+
+          {checked && (
+            <div className="flex gap-4">
+              <img src={checked.previewUrl} alt={checked.name} className="w-24 h-24 flex-shrink-0 object-cover rounded-lg border border-zinc-800" />
+              <div className="min-w-0 flex-grow space-y-1.5">
+                {provenance ? (
+                  <>
+                    <p className="flex items-center gap-1.5 text-sm font-semibold text-emerald-400">
+                      <ShieldCheck size={16} />
+                      Provenance record found
+                    </p>
+                    <Field label="Generator" value={provenance.generator} />
+                    <Field label="Model" value={provenance.model} />
+                    <Field label="Created" value={new Date(provenance.createdAt).toLocaleString()} />
+                    <Field label="Prompt hash" value={provenance.promptHash} mono />
+                  </>
+                ) : (
+                  <>
+                    <p className="flex items-center gap-1.5 text-sm font-semibold text-zinc-300">
+                      <ShieldQuestion size={16} />
+                      No provenance record
+                    </p>
+                    <p className="text-xs text-zinc-500">
+                      {checked.supported
+                        ? "The image was not made here, or an editor re-saved it and dropped the metadata."
+                        : "Only PNG and JPEG files can carry a record."}
+                    </p>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {provenance && (
+            <div>
+              <label className="block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1">Check a prompt</label>
+              <textarea
+                className={`${inputClass} resize-none`}
+                rows={2}
+                value={prompt}
+                placeholder="Paste the prompt you think made this image"
+                onChange={(e) => setPrompt(e.target.value)}
+              />
+              {promptMatches !== null && (
+                <p className={`mt-1 text-xs ${promptMatches ? 'text-emerald-400' : 'text-amber-300'}`}>
+                  {promptMatches ? "The prompt matches the recorded hash." : "The prompt does not match. It must be exactly the same text."}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyImagePanel;
@@ -0,0 +1,196 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Message, VoiceSettings } from '../types';
+import { SPEECH_LANGUAGES, getSpeechRecognition, speak, stopSpeaking } from '../services/speech';
+import { Mic, Volume2, X, Loader2 } from 'lucide-react';
+
+interface VoiceModeProps {
+  voice: VoiceSettings;
+  isGenerating: boolean;
+  latestReply: Message | null; // last model message on the active branch
+  onSend: (text: string) => void;
+  onVoiceChange: (patch: Partial<VoiceSettings>) => void;
+  onClose: () => void;
+}
+
+type Phase = 'listening' | 'waiting' | 'speaking';
+
+// How long the user must stay quiet before what they said is sent.
+const SILENCE_MS = 1500;
+
+const PHASE_LABELS: Record<Phase, string> = {
+  listening: "Listening…",
+  waiting: "Thinking…",
+  speaking: "Speaking — talk to interrupt",
+};
+
+/**
+ * Hands-free loop: listen, send after a pause, read the answer aloud, listen
+ * again. Recognition keeps running while the answer plays so the user can
+ * cut in (barge-in); it is ignored while the reply is being generated.
+ */
+const VoiceMode: React.FC<VoiceModeProps> = ({ voice, isGenerating, latestReply, onSend, onVoiceChange, onClose }) => {
+  const [phase, setPhase] = useState<Phase>('listening');
+  const [heard, setHeard] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const phaseRef = useRef<Phase>('listening');
+  const finalTextRef = useRef('');
+  const silenceTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  const replyBeforeSendRef = useRef<string | null>(null);
+  const latestReplyIdRef = useRef(latestReply?.id ?? null);
+  latestReplyIdRef.current = latestReply?.id ?? null;
+  const onSendRef = useRef(onSend);
+  onSendRef.current = onSend;
+
+  const changePhase = (next: Phase) => {
+    phaseRef.current = next;
+    setPhase(next);
+  };
+
+  useEffect(() => {
+    const SpeechRecognition = getSpeechRecognition();
+    if (!SpeechRecognition) {
+      setError("Speech recognition is not supported in this browser.");
+      return;
+    }
+    let active = true;
+    const recognition = new SpeechRecognition();
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = voice.recognitionLang;
+
+    const send = () => {
+      const text = finalTextRef.current.trim();
+      finalTextRef.current = '';
+      setHeard('');
+      if (!text || phaseRef.current !== 'listening') return;
+      replyBeforeSendRef.current = latestReplyIdRef.current;
+      changePhase('waiting');
+      onSendRef.current(text);
+    };
+
+    recognition.onresult = (event: any) => {
+      if (phaseRef.current === 'waiting') return;
+      let interim = '';
+      for (let i = event.resultIndex; i < event.results.length; ++i) {
+        const transcript = event.results[i][0].transcript;
+        if (event.results[i].isFinal) finalTextRef.current += `${transcript} `;
+        else interim += transcript;
+      }
+      if (phaseRef.current === 'speaking') {
+        // Barge-in: the user started talking over the answer.
+        stopSpeaking();
+        changePhase('listening');
+      }
+      setHeard(`${finalTextRef.current}${interim}`);
+      clearTimeout(silenceTimerRef.current);
+      silenceTimerRef.current = setTimeout(() => {
+        // Whatever is still interim after the pause counts as said.
+        finalTextRef.current += interim;
+        send();
+      }, SILENCE_MS);
+    };
+    recognition.onerror = (event: any) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        active = false;
+        setError("Microphone access was denied.");
+      }
+    };
+    // Browsers end recognition after a while even in continuous mode; keep it going.
+    recognition.onend = () => {
+      if (!active) return;
+      try {
+        recognition.start();
+      } catch {
+        // Already restarting.
+      }
+    };
+
+    recognition.start();
+    return () => {
+      active = false;
+      clearTimeout(silenceTimerRef.current);
+      recognition.abort();
+    };
+  }, [voice.recognitionLang]);
+
+  // Once the reply to what was sent is complete, read it out.
+  useEffect(() => {
+    if (phase !== 'waiting' || isGenerating || !latestReply || latestReply.id === replyBeforeSendRef.current) return;
+    const text = latestReply.error ? `Sorry, ${latestReply.error.message}` : latestReply.content;
+    changePhase('speaking');
+    speak(text, voice).then(() => {
+      if (phaseRef.current === 'speaking') changePhase('listening');
+    });
+  }, [phase, isGenerating, latestReply]);
+
+  useEffect(() => () => stopSpeaking(), []);
+
+  useEffect(() => {
+    const closeOnEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', closeOnEscape);
+    return () => document.removeEventListener('keydown', closeOnEscape);
+  }, [onClose]);
+
+  const handleOrbClick = () => {
+    if (phaseRef.current === 'speaking') {
+      stopSpeaking();
+      changePhase('listening');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col items-center justify-center gap-8 bg-zinc-950/95 p-6">
+      <button onClick={onClose} className="absolute top-4 right-4 p-2 text-zinc-500 hover:text-zinc-200 rounded-lg transition-colors" title="Leave voice mode">
+        <X size={22} />
+      </button>
+
+      <button
+        onClick={handleOrbClick}
+        className={`w-36 h-36 rounded-full flex items-center justify-center border transition-all ${
+          phase === 'listening'
+            ? 'border-cyan-500/60 bg-cyan-500/10 text-cyan-300 shadow-[0_0_40px_rgba(6,182,212,0.25)] animate-pulse'
+            : phase === 'speaking'
+              ? 'border-zinc-200/40 bg-zinc-100/10 text-zinc-100 shadow-[0_0_40px_rgba(255,255,255,0.15)]'
+              : 'border-zinc-800 bg-zinc-900 text-zinc-400'
+        }`}
+        title={phase === 'speaking' ? "Stop speaking" : undefined}
+      >
+        {phase === 'listening' && <Mic size={48} />}
+        {phase === 'waiting' && <Loader2 size={48} className="animate-spin" />}
+        {phase === 'speaking' && <Volume2 size={48} />}
+      </button>
+
+      <div className="text-center max-w-xl space-y-2">
+        <p className="text-sm font-bold uppercase tracking-widest text-zinc-500">{error ?? PHASE_LABELS[phase]}</p>
+        <p className="text-lg text-zinc-200 min-h-[3.5rem]">{heard}</p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-center gap-3 text-xs text-zinc-500">
+        <label className="flex items-center gap-2">
+          I speak
+          <select
+            value={voice.recognitionLang}
+            onChange={(e) => onVoiceChange({ recognitionLang: e.target.value })}
+            className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-zinc-300 focus:outline-none"
+          >
+            {SPEECH_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Voice
+          <select
+            value={voice.speechLang}
+            onChange={(e) => onVoiceChange({ speechLang: e.target.value, voiceURI: '' })}
+            className="bg-zinc-900 border border-zinc-800 rounded-lg px-2 py-1 text-zinc-300 focus:outline-none"
+          >
+            {SPEECH_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.label}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceMode;
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { VoiceSettings as VoiceSettingsValue } from '../types';
+import { SPEECH_LANGUAGES, hasSpeechSynthesis, listVoices, speak } from '../services/speech';
+import { Volume2 } from 'lucide-react';
+
+interface VoiceSettingsProps {
+  voice: VoiceSettingsValue;
+  onChange: (patch: Partial<VoiceSettingsValue>) => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-zinc-600";
+const labelClass = "block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1";
+
+const SAMPLE_TEXT = "This is how replies will sound.";
+
+const VoiceSettings: React.FC<VoiceSettingsProps> = ({ voice, onChange }) => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>(() => listVoices(voice.speechLang));
+
+  // Voices load asynchronously in Chrome; the list is empty until `voiceschanged` fires.
+  useEffect(() => {
+    if (!hasSpeechSynthesis()) return;
+    const refresh = () => setVoices(listVoices(voice.speechLang));
+    refresh();
+    window.speechSynthesis.addEventListener('voiceschanged', refresh);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', refresh);
+  }, [voice.speechLang]);
+
+  return (
+    <section className="space-y-3 pt-4 border-t border-zinc-800">
+      <span className={labelClass}>Voice</span>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>Dictation language</label>
+          <select
+            className={inputClass}
+            value={voice.recognitionLang}
+            onChange={(e) => onChange({ recognitionLang: e.target.value })}
+          >
+            {SPEECH_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Reading language</label>
+          <select
+            className={inputClass}
+            value={voice.speechLang}
+            onChange={(e) => onChange({ speechLang: e.target.value, voiceURI: '' })}
+          >
+            {SPEECH_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.label}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Voice</label>
+          <select
+            className={inputClass}
+            value={voice.voiceURI}
+            onChange={(e) => onChange({ voiceURI: e.target.value })}
+          >
+            <option value="">Browser default</option>
+            {voices.map(option => <option key={option.voiceURI} value={option.voiceURI}>{option.name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Speed</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min={0.5}
+              max={2}
+              step={0.1}
+              className={inputClass}
+              value={voice.rate}
+              onChange={(e) => onChange({ rate: Math.min(2, Math.max(0.5, Number(e.target.value) || 1)) })}
+            />
+            <button
+              type="button"
+              onClick={() => speak(SAMPLE_TEXT, voice)}
+              disabled={!hasSpeechSynthesis()}
+              className="p-2 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors disabled:opacity-40"
+              title="Preview voice"
+            >
+              <Volume2 size={16} />
+            </button>
+          </div>
+        </div>
+      </div>
+      {hasSpeechSynthesis() && voices.length === 0 && (
+        <p className="text-xs text-amber-300/80">
+          This browser has no voice for the selected language; replies will be read with its default voice.
+        </p>
+      )}
+    </section>
+  );
+};
+
+export default VoiceSettings;
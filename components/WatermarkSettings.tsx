@@ -0,0 +1,164 @@
+import React, { useRef, useState } from 'react';
+import { WatermarkKind, WatermarkPosition, WatermarkSettings as WatermarkSettingsValue } from '../types';
+import { MAX_LOGO_BYTES, WATERMARK_POSITIONS } from '../services/watermark';
+import { formatBytes, toDataUrl } from '../services/attachments';
+import { ImagePlus, Trash2 } from 'lucide-react';
+
+interface WatermarkSettingsProps {
+  watermark: WatermarkSettingsValue;
+  onChange: (patch: Partial<WatermarkSettingsValue>) => void;
+}
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 rounded-lg px-3 py-2 text-sm text-zinc-100 focus:outline-none focus:border-zinc-600";
+const labelClass = "block text-[11px] font-bold uppercase tracking-wider text-zinc-500 mb-1";
+
+const LOGO_TYPES = 'image/png,image/webp,image/svg+xml';
+
+const WatermarkSettings: React.FC<WatermarkSettingsProps> = ({ watermark, onChange }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [logoError, setLogoError] = useState<string | null>(null);
+
+  const handleLogoSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError(`The logo must be under ${formatBytes(MAX_LOGO_BYTES)}.`);
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setLogoError(null);
+      onChange({ logo: { data: (reader.result as string).split(',')[1] ?? '', mimeType: file.type } });
+    };
+    reader.onerror = () => setLogoError(`"${file.name}" could not be read.`);
+    reader.readAsDataURL(file);
+  };
+
+  return (
+    <section className="space-y-3 pt-4 border-t border-zinc-800">
+      <span className={labelClass}>Generated images</span>
+      <label className="flex items-center gap-2 text-sm text-zinc-300">
+        <input
+          type="checkbox"
+          checked={watermark.enabled}
+          onChange={(e) => onChange({ enabled: e.target.checked })}
+          className="accent-cyan-500"
+        />
+        Add a visible watermark
+      </label>
+
+      {watermark.enabled && (
+        <>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Mark</label>
+              <select
+                className={inputClass}
+                value={watermark.kind}
+                onChange={(e) => onChange({ kind: e.target.value as WatermarkKind })}
+              >
+                <option value="text">Text</option>
+                <option value="logo">Logo image</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Position</label>
+              <select
+                className={inputClass}
+                value={watermark.position}
+                onChange={(e) => onChange({ position: e.target.value as WatermarkPosition })}
+              >
+                {WATERMARK_POSITIONS.map(position => <option key={position.id} value={position.id}>{position.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {watermark.kind === 'text' ? (
+            <div>
+              <label className={labelClass}>Text</label>
+              <input
+                className={inputClass}
+                value={watermark.text}
+                onChange={(e) => onChange({ text: e.target.value })}
+              />
+            </div>
+          ) : (
+            <div>
+              <label className={labelClass}>Logo</label>
+              <div className="flex items-center gap-3">
+                {watermark.logo ? (
+                  <img src={toDataUrl(watermark.logo)} alt="Watermark logo" className="h-10 max-w-[8rem] object-contain rounded bg-zinc-800 p-1" />
+                ) : (
+                  <span className="text-xs text-zinc-500">No logo chosen; images are left unmarked.</span>
+                )}
+                <input type="file" ref={fileInputRef} accept={LOGO_TYPES} onChange={handleLogoSelect} className="hidden" />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="p-1.5 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors"
+                  title="Choose logo"
+                >
+                  <ImagePlus size={16} />
+                </button>
+                {watermark.logo && (
+                  <button
+                    type="button"
+                    onClick={() => onChange({ logo: null })}
+                    className="p-1.5 text-zinc-500 hover:text-zinc-200 hover:bg-zinc-800 rounded-lg transition-colors"
+                    title="Remove logo"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                )}
+              </div>
+              {logoError && <p className="mt-1 text-xs text-red-400">{logoError}</p>}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Size: {Math.round(watermark.scale * 100)}% of width</label>
+              <input
+                type="range"
+                min={0.05}
+                max={0.6}
+                step={0.01}
+                value={watermark.scale}
+                onChange={(e) => onChange({ scale: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Opacity: {Math.round(watermark.opacity * 100)}%</label>
+              <input
+                type="range"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={watermark.opacity}
+                onChange={(e) => onChange({ opacity: Number(e.target.value) })}
+                className="w-full accent-cyan-500"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-zinc-300">
+        <input
+          type="checkbox"
+          checked={watermark.embedProvenance}
+          onChange={(e) => onChange({ embedProvenance: e.target.checked })}
+          className="accent-cyan-500"
+        />
+        Embed provenance metadata
+      </label>
+      <p className="text-xs text-zinc-500">
+        PNG and JPEG images record the model, a hash of the prompt and the time they were made. Check a file with Verify image.
+      </p>
+    </section>
+  );
+};
+
+export default WatermarkSettings;
@@ -0,0 +1,73 @@
+// Keeps the app shell available offline. Conversations already live in
+// IndexedDB, so once the shell loads, history can be browsed without a
+// network. Model requests are never cached.
+
+const CACHE = 'zuno-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// Scripts, styles and fonts the page pulls from CDNs.
+const CDN_HOSTS = new Set([
+  'cdn.tailwindcss.com',
+  'esm.sh',
+  'fonts.googleapis.com',
+  'fonts.gstatic.com',
+  'cdn.jsdelivr.net',
+]);
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The page lists what it loaded before this worker took control.
+self.addEventListener('message', (event) => {
+  if (event.data?.type !== 'cache-urls') return;
+  const urls = event.data.urls.filter((url) => isCacheable(new URL(url)));
+  event.waitUntil(caches.open(CACHE).then((cache) => Promise.all(urls.map((url) => cache.add(url).catch(() => undefined)))));
+});
+
+const isCacheable = (url) =>
+  (url.origin === self.location.origin && !url.pathname.startsWith('/api/')) || CDN_HOSTS.has(url.hostname);
+
+// Pages come from the network when it answers, so a deploy shows up on the next load.
+const networkFirst = async (request) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+const staleWhileRevalidate = async (event) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(event.request);
+  const refresh = fetch(event.request).then((response) => {
+    if (response.ok || response.type === 'opaque') cache.put(event.request, response.clone());
+    return response;
+  });
+  if (cached) {
+    event.waitUntil(refresh.catch(() => undefined));
+    return cached;
+  }
+  return refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+    return;
+  }
+  if (isCacheable(new URL(request.url))) event.respondWith(staleWhileRevalidate(event));
+});
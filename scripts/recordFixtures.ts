@@ -0,0 +1,67 @@
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { AddressInfo } from 'node:net';
+import path from 'node:path';
+import { GoogleGenAI } from '@google/genai';
+import { createMockUpstream } from '../server/mockUpstream';
+import { createRecordingTransport } from '../services/geminiRecorder';
+import { SCENARIOS } from '../tests/scenarios';
+
+/**
+ * Records the scenarios in `tests/scenarios.ts` into `tests/fixtures/gemini/`.
+ *
+ *   npm run record:fixtures                  against Gemini, with GEMINI_API_KEY
+ *   npm run record:fixtures -- --mock        against the mock upstream
+ *   npm run record:fixtures -- chat-stream   only the named scenarios
+ *
+ * Scenarios that end in an error are recorded too; that is what the error
+ * fixtures are for.
+ */
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No env file; the process environment is used as is.
+}
+
+const FIXTURE_DIR = path.resolve('tests/fixtures/gemini');
+const args = process.argv.slice(2);
+const useMock = args.includes('--mock');
+const only = args.filter(arg => !arg.startsWith('--'));
+
+const main = async () => {
+  const unknown = only.filter(name => !SCENARIOS[name]);
+  if (unknown.length > 0) {
+    console.error(`Unknown scenarios: ${unknown.join(', ')}. Known: ${Object.keys(SCENARIOS).join(', ')}.`);
+    process.exit(1);
+  }
+
+  let baseUrl: string | undefined;
+  const mock = useMock ? createMockUpstream() : null;
+  if (mock) {
+    await new Promise<void>(resolve => mock.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(mock.address() as AddressInfo).port}`;
+  }
+  const apiKey = useMock ? 'mock-key' : process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error("GEMINI_API_KEY is not set. Add it to .env.local or run with --mock.");
+    process.exit(1);
+  }
+  const ai = new GoogleGenAI({ apiKey, httpOptions: baseUrl ? { baseUrl } : undefined });
+
+  mkdirSync(FIXTURE_DIR, { recursive: true });
+  for (const [name, run] of Object.entries(SCENARIOS)) {
+    if (only.length > 0 && !only.includes(name)) continue;
+    const recorder = createRecordingTransport(ai.models);
+    try {
+      await run(recorder.transport);
+      console.log(`${name}: recorded`);
+    } catch (err: any) {
+      console.log(`${name}: recorded, ended with ${err.name}: ${err.message}`);
+    }
+    const fixture = recorder.toFixture(name);
+    writeFileSync(path.join(FIXTURE_DIR, `${name}.json`), `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+  mock?.close();
+};
+
+main();
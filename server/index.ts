@@ -0,0 +1,70 @@
+import { AddressInfo } from 'node:net';
+import { createProxyServer } from './proxyServer';
+import { createMockUpstream } from './mockUpstream';
+
+/**
+ * Starts the Gemini proxy. Configuration comes from the environment (and
+ * `.env.local`, like the Vite app):
+ *
+ *   GEMINI_API_KEY          key used for upstream calls (not needed with --mock)
+ *   PROXY_PORT / PROXY_HOST where to listen, default 127.0.0.1:8787
+ *   PROXY_ALLOWED_ORIGINS   comma-separated origins browsers may call from, default
+ *                           http://localhost:3000; not authentication, any other client
+ *                           can send an allowed Origin
+ *   PROXY_ALLOWED_MODELS    comma-separated models clients may use, default the app's defaults
+ *   PROXY_CLIENT_TOKEN      secret every request must send as X-Proxy-Token; the app sends
+ *                           it when built with GEMINI_PROXY_TOKEN
+ *   PROXY_RATE_LIMIT        requests per minute per client, default 30
+ *   PROXY_MAX_BODY_MB       largest accepted request, default 20
+ *   PROXY_TRUST_FORWARDED   "1" to rate limit by X-Forwarded-For
+ *   GEMINI_UPSTREAM_URL     alternative upstream, e.g. a mock
+ *
+ * `--mock` also starts the mock upstream and points the proxy at it.
+ */
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No env file; the process environment is used as is.
+}
+
+// The app's default Gemini models (DEFAULT_GEMINI_MODELS in services/geminiService.ts).
+const DEFAULT_ALLOWED_MODELS = 'gemini-3-flash-preview,gemini-3-pro-preview,gemini-2.5-flash-image';
+
+const env = process.env;
+
+const listOf = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+const useMock = process.argv.includes('--mock');
+
+const listen = (server: ReturnType<typeof createMockUpstream>, port: number, host: string) =>
+  new Promise<AddressInfo>(resolve => server.listen(port, host, () => resolve(server.address() as AddressInfo)));
+
+const main = async () => {
+  let upstreamUrl = env.GEMINI_UPSTREAM_URL;
+  if (useMock) {
+    const mock = await listen(createMockUpstream(), 0, '127.0.0.1');
+    upstreamUrl = `http://127.0.0.1:${mock.port}`;
+    console.log(`Mock upstream on ${upstreamUrl}`);
+  }
+
+  const apiKey = useMock ? 'mock-key' : env.GEMINI_API_KEY;
+  if (!apiKey) {
+    console.error("GEMINI_API_KEY is not set. Add it to .env.local or run with --mock.");
+    process.exit(1);
+  }
+
+  const server = createProxyServer({
+    apiKey,
+    upstreamUrl,
+    allowedOrigins: listOf(env.PROXY_ALLOWED_ORIGINS ?? 'http://localhost:3000'),
+    allowedModels: listOf(env.PROXY_ALLOWED_MODELS ?? DEFAULT_ALLOWED_MODELS),
+    clientToken: env.PROXY_CLIENT_TOKEN || undefined,
+    rateLimit: { limit: Number(env.PROXY_RATE_LIMIT) || 30, windowMs: 60000 },
+    maxBodyBytes: (Number(env.PROXY_MAX_BODY_MB) || 20) * 1024 * 1024,
+    trustForwardedFor: env.PROXY_TRUST_FORWARDED === '1',
+  });
+  const address = await listen(server, Number(env.PROXY_PORT) || 8787, env.PROXY_HOST ?? '127.0.0.1');
+  console.log(`Gemini proxy listening on http://${address.address}:${address.port}`);
+};
+
+main();
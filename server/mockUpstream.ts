@@ -0,0 +1,95 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+
+/**
+ * Stand-in for the Gemini REST API, for running the proxy without a key or
+ * network. Replies echo the last user message; a message containing
+ * `mock-error:<status>` makes the upstream fail with that HTTP status.
+ */
+
+// 1×1 transparent PNG returned by image models.
+const MOCK_IMAGE_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const STATUS_NAMES: Record<number, string> = {
+  400: 'INVALID_ARGUMENT',
+  401: 'UNAUTHENTICATED',
+  403: 'PERMISSION_DENIED',
+  404: 'NOT_FOUND',
+  429: 'RESOURCE_EXHAUSTED',
+  500: 'INTERNAL',
+  503: 'UNAVAILABLE',
+};
+
+const sendError = (res: ServerResponse, code: number, message: string) => {
+  res.writeHead(code, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ error: { code, message, status: STATUS_NAMES[code] ?? 'UNKNOWN' } }));
+};
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+};
+
+const lastUserText = (contents: any): string => {
+  const list = Array.isArray(contents) ? contents : [contents];
+  const last = [...list].reverse().find(content => content?.role !== 'model');
+  return (last?.parts ?? []).map((part: any) => part.text ?? '').join(' ').trim();
+};
+
+const candidate = (parts: any[], finishReason?: string) => ({
+  candidates: [{ content: { role: 'model', parts }, index: 0, ...(finishReason ? { finishReason } : {}) }],
+});
+
+const usage = (prompt: string, reply: string) => ({
+  usageMetadata: {
+    promptTokenCount: Math.ceil(prompt.length / 4),
+    candidatesTokenCount: Math.ceil(reply.length / 4),
+    totalTokenCount: Math.ceil(prompt.length / 4) + Math.ceil(reply.length / 4),
+  },
+});
+
+export const createMockUpstream = () =>
+  createServer(async (req, res) => {
+    const match = new URL(req.url ?? '/', 'http://localhost').pathname.match(/\/models\/([^/:]+):(\w+)$/);
+    if (req.method !== 'POST' || !match) return sendError(res, 404, "Unknown mock endpoint.");
+    if (!req.headers['x-goog-api-key']) return sendError(res, 401, "API key not valid.");
+
+    const [, model, method] = match;
+    let body: any;
+    try {
+      body = await readBody(req);
+    } catch {
+      return sendError(res, 400, "Invalid JSON payload.");
+    }
+    const prompt = lastUserText(body.contents);
+    const forcedError = prompt.match(/mock-error:(\d{3})/);
+    if (forcedError) return sendError(res, Number(forcedError[1]), "Mock upstream error.");
+
+    const reply = `Mock reply from ${model}: ${prompt || "(no text)"}`;
+
+    if (method === 'countTokens') {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ totalTokens: Math.ceil(JSON.stringify(body.contents ?? '').length / 4) }));
+      return;
+    }
+    if (method === 'generateContent') {
+      const parts = model.includes('image')
+        ? [{ text: "Mock image." }, { inlineData: { mimeType: 'image/png', data: MOCK_IMAGE_PNG } }]
+        : [{ text: reply }];
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ ...candidate(parts, 'STOP'), ...usage(prompt, reply) }));
+      return;
+    }
+    if (method === 'streamGenerateContent') {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const words = reply.split(/(?<= )/);
+      words.forEach((word, idx) => {
+        const isLast = idx === words.length - 1;
+        const chunk = isLast ? { ...candidate([{ text: word }], 'STOP'), ...usage(prompt, reply) } : candidate([{ text: word }]);
+        res.write(`data: ${JSON.stringify(chunk)}\r\n\r\n`);
+      });
+      res.end();
+      return;
+    }
+    sendError(res, 404, `Unknown method ${method}.`);
+  });
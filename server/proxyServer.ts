@@ -0,0 +1,243 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { timingSafeEqual } from 'node:crypto';
+import { GoogleGenAI } from '@google/genai';
+import { PROXY_ROUTES, PROXY_TOKEN_HEADER, ProxyErrorBody, ProxyEventName, formatServerSentEvent } from '../services/geminiProxy';
+import { RateLimitOptions, createRateLimiter } from './rateLimiter';
+
+export interface ProxyConfig {
+  apiKey: string;
+  upstreamUrl?: string; // defaults to Google; set to a mock upstream for tests
+  allowedOrigins: string[]; // '*' allows any
+  allowedModels: string[]; // models clients may call; the key pays for them
+  clientToken?: string; // when set, every POST must carry it in PROXY_TOKEN_HEADER
+  rateLimit: RateLimitOptions;
+  maxBodyBytes: number;
+  trustForwardedFor: boolean; // behind a reverse proxy that sets X-Forwarded-For
+}
+
+// Generation settings clients may pass on. Everything else in `config` is
+// dropped, above all `httpOptions`, whose `baseUrl` would send the key to
+// a host of the client's choosing.
+const FORWARDED_CONFIG_KEYS = [
+  'systemInstruction',
+  'temperature',
+  'topP',
+  'topK',
+  'maxOutputTokens',
+  'thinkingConfig',
+  'tools',
+  'toolConfig',
+] as const;
+
+// Keeps idle connections (image generation, long thinking) from being dropped by intermediaries.
+const KEEP_ALIVE_MS = 15000;
+
+class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const toErrorBody = (error: any): ProxyErrorBody => ({
+  message: error?.message ?? String(error),
+  status: typeof error?.status === 'number' ? error.status : 500,
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJsonBody = (req: IncomingMessage, maxBytes: number) =>
+  new Promise<any>((resolve, reject) => {
+    if (Number(req.headers['content-length']) > maxBytes) {
+      reject(new HttpError(413, `Request body is larger than ${maxBytes} bytes.`));
+      return;
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, `Request body is larger than ${maxBytes} bytes.`));
+        // Keep draining without buffering so the 413 can still be written.
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, "Request body is not valid JSON."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+// Only the SDK parameters are forwarded; anything else the client sends is ignored.
+const toParams = (body: any, allowedModels: string[], signal: AbortSignal) => {
+  if (typeof body?.model !== 'string' || !body.model || body.contents === undefined) {
+    throw new HttpError(400, "Expected a JSON body with `model` and `contents`.");
+  }
+  if (!allowedModels.includes(body.model)) throw new HttpError(403, `The proxy does not serve the model "${body.model}".`);
+  const config: Record<string, unknown> = { abortSignal: signal };
+  for (const key of FORWARDED_CONFIG_KEYS) {
+    if (body.config?.[key] !== undefined) config[key] = body.config[key];
+  }
+  return { model: body.model, contents: body.contents, config };
+};
+
+// The SDK attaches Google's response headers, which are not the client's business.
+const withoutHttpResponse = (response: object) => {
+  const { sdkHttpResponse: _sdkHttpResponse, ...rest } = response as { sdkHttpResponse?: unknown };
+  return rest;
+};
+
+const tokensMatch = (given: string, expected: string) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+/**
+ * HTTP server that holds the Gemini key and relays chat streams, image tasks
+ * and token counts for the browser, with CORS, per-client rate limits and a
+ * request size cap.
+ */
+export const createProxyServer = (config: ProxyConfig) => {
+  const ai = new GoogleGenAI({
+    apiKey: config.apiKey,
+    httpOptions: config.upstreamUrl ? { baseUrl: config.upstreamUrl } : undefined,
+  });
+  const limiter = createRateLimiter(config.rateLimit);
+
+  const clientKey = (req: IncomingMessage) => {
+    const forwarded = req.headers['x-forwarded-for'];
+    // The reverse proxy appends the address it saw; entries before it are whatever the client sent.
+    if (config.trustForwardedFor && typeof forwarded === 'string') return forwarded.split(',').pop()!.trim();
+    return req.socket.remoteAddress ?? 'unknown';
+  };
+
+  const hasClientToken = (req: IncomingMessage) => {
+    const token = req.headers[PROXY_TOKEN_HEADER];
+    return !!config.clientToken && typeof token === 'string' && tokensMatch(token, config.clientToken);
+  };
+
+  // Returns false when the origin may not use the proxy.
+  const applyCors = (req: IncomingMessage, res: ServerResponse) => {
+    const origin = req.headers.origin;
+    if (!origin) return true; // not a browser request
+    if (!config.allowedOrigins.includes('*') && !config.allowedOrigins.includes(origin)) return false;
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    return true;
+  };
+
+  const startEventStream = (res: ServerResponse) => {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    const timer = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+    res.on('close', () => clearInterval(timer));
+    return (event: ProxyEventName, data: unknown) => res.write(formatServerSentEvent(event, data));
+  };
+
+  const handleChatStream = async (params: any, res: ServerResponse) => {
+    // Awaited before the 200 goes out, so upstream rejections keep their HTTP status.
+    const stream = await ai.models.generateContentStream(params);
+    const send = startEventStream(res);
+    try {
+      for await (const chunk of stream) send('chunk', withoutHttpResponse(chunk));
+      send('done', {});
+    } catch (error) {
+      if (!params.config.abortSignal.aborted) send('error', toErrorBody(error));
+    }
+    res.end();
+  };
+
+  const handleImageTask = async (params: any, res: ServerResponse) => {
+    const send = startEventStream(res);
+    try {
+      send('chunk', withoutHttpResponse(await ai.models.generateContent(params)));
+      send('done', {});
+    } catch (error) {
+      if (!params.config.abortSignal.aborted) send('error', toErrorBody(error));
+    }
+    res.end();
+  };
+
+  const handleCountTokens = async (params: any, res: ServerResponse) => {
+    const { abortSignal, ...countConfig } = params.config;
+    sendJson(res, 200, await ai.models.countTokens({ ...params, config: countConfig }));
+  };
+
+  const handlers: Record<string, (params: any, res: ServerResponse) => Promise<void>> = {
+    [PROXY_ROUTES.chatStream]: handleChatStream,
+    [PROXY_ROUTES.imageTask]: handleImageTask,
+    [PROXY_ROUTES.countTokens]: handleCountTokens,
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    const path = new URL(req.url ?? '/', 'http://localhost').pathname;
+    if (!applyCors(req, res)) throw new HttpError(403, "This origin may not use the proxy.");
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST',
+        'Access-Control-Allow-Headers': `Content-Type, ${PROXY_TOKEN_HEADER}`,
+        'Access-Control-Max-Age': '600',
+      });
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && path === PROXY_ROUTES.health) {
+      sendJson(res, 200, { ok: true });
+      return;
+    }
+
+    const handler = handlers[path];
+    if (!handler) throw new HttpError(404, "Not found.");
+    if (req.method !== 'POST') throw new HttpError(405, "Use POST.");
+    // Any client can claim an allowed Origin, so only the token authenticates.
+    if (config.clientToken && !hasClientToken(req)) {
+      throw new HttpError(401, `The proxy needs its client token in the ${PROXY_TOKEN_HEADER} header.`);
+    }
+
+    const limit = limiter.take(clientKey(req));
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', String(Math.ceil(limit.retryAfterMs / 1000)));
+      throw new HttpError(429, "Too many requests to the proxy. Wait a moment and try again.");
+    }
+
+    const body = await readJsonBody(req, config.maxBodyBytes);
+    // Stop the upstream call as soon as the browser goes away.
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    await handler(toParams(body, config.allowedModels, controller.signal), res);
+  };
+
+  return createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      if (!(error instanceof HttpError) && error?.name !== 'AbortError') console.error("Proxy request failed:", error);
+      const body = toErrorBody(error);
+      if (res.headersSent) {
+        res.end();
+      } else {
+        // A rejected upload is not read to the end, so the connection cannot be reused.
+        if (body.status === 413) res.setHeader('Connection', 'close');
+        sendJson(res, body.status, { error: body });
+      }
+    });
+  });
+};
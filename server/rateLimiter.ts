@@ -0,0 +1,50 @@
+export interface RateLimitOptions {
+  limit: number; // requests allowed per window
+  windowMs: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterMs: number; // 0 when allowed
+}
+
+// Past this many tracked clients, buckets that have refilled completely are dropped.
+const PRUNE_THRESHOLD = 1000;
+
+/**
+ * Token bucket per client: each client may burst up to `limit` requests and
+ * regains them evenly over `windowMs`.
+ */
+export const createRateLimiter = ({ limit, windowMs }: RateLimitOptions) => {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = limit / windowMs;
+
+  const refill = (bucket: { tokens: number; updatedAt: number }, now: number) => {
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+  };
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      refill(bucket, now);
+      if (bucket.tokens >= limit) buckets.delete(key);
+    }
+  };
+
+  const take = (clientKey: string, now = Date.now()): RateLimitResult => {
+    if (buckets.size > PRUNE_THRESHOLD) prune(now);
+    let bucket = buckets.get(clientKey);
+    if (!bucket) {
+      bucket = { tokens: limit, updatedAt: now };
+      buckets.set(clientKey, bucket);
+    }
+    refill(bucket, now);
+    if (bucket.tokens < 1) {
+      return { allowed: false, retryAfterMs: Math.ceil((1 - bucket.tokens) / refillPerMs) };
+    }
+    bucket.tokens -= 1;
+    return { allowed: true, retryAfterMs: 0 };
+  };
+
+  return { take };
+};
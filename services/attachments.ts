@@ -0,0 +1,233 @@
+import { Attachment, AttachmentKind, InlineImage, Message, Role } from "../types";
+
+/**
+ * Files the user can attach to a prompt. Every attachment travels inline
+ * with the request as base64, so the limits below keep a message safely
+ * under the roughly 20 MB that Gemini accepts for inline data.
+ */
+
+export const ATTACHMENT_LIMITS = {
+  maxFiles: 10,
+  maxFileBytes: 15 * 1024 * 1024,
+  maxTotalBytes: 20 * 1024 * 1024,
+  // Images that will be downscaled may start larger; the result must still fit the limits above.
+  maxSourceImageBytes: 60 * 1024 * 1024,
+};
+
+export const KIND_LABELS: Record<AttachmentKind, string> = {
+  image: "image",
+  pdf: "PDF",
+  text: "text",
+  audio: "audio",
+};
+
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif']);
+// The model does not take these, but the browser may be able to decode and re-encode them.
+const CONVERTIBLE_IMAGE_TYPES = new Set(['image/tiff', 'image/gif', 'image/bmp', 'image/avif']);
+const AUDIO_TYPES = new Set([
+  'audio/wav', 'audio/x-wav', 'audio/mp3', 'audio/mpeg', 'audio/aiff', 'audio/x-aiff',
+  'audio/aac', 'audio/ogg', 'audio/flac', 'audio/x-flac',
+]);
+
+// Source files often arrive with an empty or vendor-specific MIME type.
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'xml', 'yaml', 'yml', 'toml', 'ini', 'log',
+  'html', 'htm', 'css', 'scss', 'js', 'jsx', 'mjs', 'cjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java',
+  'kt', 'swift', 'c', 'h', 'cc', 'cpp', 'hpp', 'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'r', 'lua',
+  'dart', 'scala', 'vue', 'svelte',
+]);
+const TEXT_TYPES = new Set(['application/json', 'application/xml', 'application/javascript', 'application/x-sh']);
+
+/** Value for the file input's `accept` attribute. */
+export const ACCEPTED_FILE_TYPES = [
+  ...IMAGE_TYPES,
+  ...CONVERTIBLE_IMAGE_TYPES,
+  'application/pdf',
+  ...AUDIO_TYPES,
+  'text/*',
+  ...TEXT_TYPES,
+  ...[...TEXT_EXTENSIONS].map(ext => `.${ext}`),
+].join(',');
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const isSendableImageType = (mimeType: string) => IMAGE_TYPES.has(mimeType);
+
+export const isConvertibleImage = (file: { type: string }) => CONVERTIBLE_IMAGE_TYPES.has(file.type);
+
+export const detectKind = (file: { name: string; type: string }): AttachmentKind | null => {
+  if (IMAGE_TYPES.has(file.type)) return 'image';
+  if (file.type === 'application/pdf') return 'pdf';
+  if (AUDIO_TYPES.has(file.type)) return 'audio';
+  if (file.type.startsWith('text/') || TEXT_TYPES.has(file.type) || TEXT_EXTENSIONS.has(extensionOf(file.name))) {
+    return 'text';
+  }
+  return null;
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Splits newly picked files into those that fit next to the existing
+ * attachments and readable reasons for the ones that do not. With
+ * `processImages`, images are only checked against the source limit here;
+ * `checkProcessedSize` checks what they shrink to.
+ */
+export const checkFiles = (existing: Attachment[], files: File[], { processImages = false } = {}) => {
+  const accepted: File[] = [];
+  const errors: string[] = [];
+  let count = existing.length;
+  let total = existing.reduce((sum, att) => sum + att.size, 0);
+
+  for (const file of files) {
+    const kind = detectKind(file) ?? (processImages && isConvertibleImage(file) ? 'image' : null);
+    const isProcessed = processImages && kind === 'image';
+    const maxBytes = isProcessed ? ATTACHMENT_LIMITS.maxSourceImageBytes : ATTACHMENT_LIMITS.maxFileBytes;
+    if (!kind) {
+      errors.push(isConvertibleImage(file)
+        ? `"${file.name}" needs converting first. Turn on image optimization in Settings to send it.`
+        : `"${file.name}" is not a supported file type.`);
+    } else if (file.size > maxBytes) {
+      errors.push(`"${file.name}" is larger than ${formatBytes(maxBytes)}.`);
+    } else if (count >= ATTACHMENT_LIMITS.maxFiles) {
+      errors.push(`Only ${ATTACHMENT_LIMITS.maxFiles} files can be attached to one message.`);
+      break;
+    } else if (!isProcessed && total + file.size > ATTACHMENT_LIMITS.maxTotalBytes) {
+      errors.push(`"${file.name}" would take the message over ${formatBytes(ATTACHMENT_LIMITS.maxTotalBytes)}.`);
+    } else {
+      accepted.push(file);
+      count++;
+      if (!isProcessed) total += file.size;
+    }
+  }
+  return { accepted, errors };
+};
+
+/** The size checks `checkFiles` left for after images were processed. */
+export const checkProcessedSize = (existing: Attachment[], added: Attachment[]) => {
+  const accepted: Attachment[] = [];
+  const errors: string[] = [];
+  let total = existing.reduce((sum, att) => sum + att.size, 0);
+
+  for (const att of added) {
+    if (att.size > ATTACHMENT_LIMITS.maxFileBytes) {
+      errors.push(`"${att.name}" is still larger than ${formatBytes(ATTACHMENT_LIMITS.maxFileBytes)} after resizing.`);
+    } else if (total + att.size > ATTACHMENT_LIMITS.maxTotalBytes) {
+      errors.push(`"${att.name}" would take the message over ${formatBytes(ATTACHMENT_LIMITS.maxTotalBytes)}.`);
+    } else {
+      accepted.push(att);
+      total += att.size;
+    }
+  }
+  return { accepted, errors };
+};
+
+export const createAttachmentId = () => `att_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const base64Size = (data: string) => Math.floor(data.length * 3 / 4) - (data.endsWith('==') ? 2 : data.endsWith('=') ? 1 : 0);
+
+export const readAttachment = (file: File): Promise<Attachment> =>
+  new Promise((resolve, reject) => {
+    const kind = detectKind(file);
+    if (!kind) {
+      reject(new AttachmentError(`"${file.name}" is not a supported file type.`));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onloadend = () => resolve({
+      id: createAttachmentId(),
+      kind,
+      name: file.name || `pasted-${kind}`,
+      mimeType: file.type || 'text/plain',
+      size: file.size,
+      data: (reader.result as string).split(',')[1] ?? '',
+    });
+    reader.onerror = () => reject(new AttachmentError(`"${file.name}" could not be read.`));
+    reader.readAsDataURL(file);
+  });
+
+/** Wraps an image produced by the model (or stored by older versions) as an attachment. */
+export const imageToAttachment = (image: InlineImage, name: string, id = createAttachmentId()): Attachment => ({
+  id,
+  kind: 'image',
+  name,
+  mimeType: image.mimeType,
+  size: base64Size(image.data),
+  data: image.data,
+});
+
+/**
+ * Converts the single `image` field that messages carried before
+ * attachments existed. The id matches the Blob key those versions used.
+ */
+export const fromLegacyImage = (messageId: string, image: { id?: string; data: string; mimeType: string }) =>
+  imageToAttachment(image, `image.${image.mimeType.split('/')[1] ?? 'png'}`, image.id ?? `${messageId}_image`);
+
+export const toDataUrl = (att: Pick<Attachment, 'data' | 'mimeType'>) => `data:${att.mimeType};base64,${att.data}`;
+
+/** Loads an image for drawing onto a canvas. */
+export const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("The image could not be loaded."));
+    img.src = src;
+  });
+
+export const decodeText = (att: Attachment) =>
+  new TextDecoder().decode(Uint8Array.from(atob(att.data), ch => ch.charCodeAt(0)));
+
+export const isMask = (att: Attachment) => att.purpose === 'mask';
+
+/** Images the user or model actually shared; edit masks are left out. */
+export const imagesOf = (msg: Pick<Message, 'attachments'>) =>
+  (msg.attachments ?? []).filter(att => att.kind === 'image' && !isMask(att));
+
+export const maskOf = (msg: Pick<Message, 'attachments'>) => (msg.attachments ?? []).find(isMask);
+
+/** A fresh copy of `image` for a new turn, remembering where it came from. */
+export const carryImage = (image: Attachment): Attachment => ({
+  ...image,
+  id: createAttachmentId(),
+  purpose: undefined,
+  originalSize: undefined,
+  sourceId: image.id,
+});
+
+export const hasImage = (msg: Pick<Message, 'attachments'>) => imagesOf(msg).length > 0;
+
+/**
+ * The edit history that led to `imageId`, oldest first, found by following
+ * `sourceId` links across every branch of the conversation. Copies carried
+ * into a user turn are the same picture as their source, so only the source
+ * is listed.
+ */
+export const getImageVersions = (messages: Message[], imageId: string): Attachment[] => {
+  const images = new Map<string, { image: Attachment; fromUser: boolean }>();
+  for (const msg of messages) {
+    for (const image of imagesOf(msg)) images.set(image.id, { image, fromUser: msg.role === Role.USER });
+  }
+
+  const chain: Attachment[] = [];
+  const seen = new Set<string>();
+  let id: string | undefined = imageId;
+  while (id && images.has(id) && !seen.has(id)) {
+    seen.add(id);
+    const { image, fromUser } = images.get(id)!;
+    const isCarriedCopy = fromUser && !!image.sourceId && images.has(image.sourceId);
+    if (!isCarriedCopy) chain.push(image);
+    id = image.sourceId;
+  }
+  return chain.reverse();
+};
@@ -0,0 +1,331 @@
+import { ToolDefinition, ToolError } from "./toolRegistry";
+import { createSandboxDocument, SandboxRequest, SandboxResponse } from "./sandboxWorker";
+
+// --- Calculator -------------------------------------------------------------
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, cbrt: Math.cbrt, abs: Math.abs, exp: Math.exp,
+  ln: Math.log, log: Math.log10, log2: Math.log2, log10: Math.log10,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  min: Math.min, max: Math.max, pow: Math.pow,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E, tau: 2 * Math.PI };
+
+/**
+ * Evaluates arithmetic without `eval`: numbers, + - * / % ^, parentheses,
+ * the functions above and pi/e/tau. `^` is exponentiation and binds right.
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.match(/\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?|[a-z_]\w*|\*\*|[-+*/%^(),]|\S/gi) ?? [];
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw new ToolError(`Expected "${token}" at "${tokens[pos] ?? 'end of input'}".`);
+    pos++;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      value = tokens[pos++] === '+' ? value + parseProduct() : value - parseProduct();
+    }
+    return value;
+  };
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = tokens[pos++];
+      const right = parseUnary();
+      value = op === '*' ? value * right : op === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  const parseUnary = (): number => {
+    if (peek() === '-') { pos++; return -parseUnary(); }
+    if (peek() === '+') { pos++; return parseUnary(); }
+    return parsePower();
+  };
+  const parsePower = (): number => {
+    const base = parseAtom();
+    if (peek() === '^' || peek() === '**') {
+      pos++;
+      return Math.pow(base, parseUnary());
+    }
+    return base;
+  };
+  const parseAtom = (): number => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new ToolError("The expression ended unexpectedly.");
+    if (token === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) return parseFloat(token);
+    const name = token.toLowerCase();
+    if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+    if (Object.hasOwn(FUNCTIONS, name)) {
+      expect('(');
+      const args = [parseSum()];
+      while (peek() === ',') { pos++; args.push(parseSum()); }
+      expect(')');
+      return FUNCTIONS[name](...args);
+    }
+    throw new ToolError(`Unknown symbol "${token}".`);
+  };
+
+  const value = parseSum();
+  if (pos < tokens.length) throw new ToolError(`Unexpected "${tokens[pos]}".`);
+  return value;
+};
+
+// --- Unit conversion --------------------------------------------------------
+
+// Factors to the first unit listed in each group.
+const UNIT_GROUPS: Record<string, Record<string, number>> = {
+  length: {
+    m: 1, km: 1000, cm: 0.01, mm: 0.001, um: 1e-6, nm: 1e-9,
+    mi: 1609.344, yd: 0.9144, ft: 0.3048, in: 0.0254, nmi: 1852,
+  },
+  mass: { kg: 1, g: 0.001, mg: 1e-6, t: 1000, lb: 0.45359237, oz: 0.028349523125, st: 6.35029318 },
+  volume: {
+    l: 1, ml: 0.001, m3: 1000, cm3: 0.001, gal: 3.785411784, qt: 0.946352946, pt: 0.473176473,
+    cup: 0.2365882365, floz: 0.0295735295625, tbsp: 0.01478676478125, tsp: 0.00492892159375,
+  },
+  area: { m2: 1, km2: 1e6, cm2: 1e-4, ha: 1e4, acre: 4046.8564224, ft2: 0.09290304, in2: 0.00064516, mi2: 2589988.110336 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 0.514444444, 'ft/s': 0.3048 },
+  time: { s: 1, ms: 0.001, min: 60, h: 3600, day: 86400, week: 604800, year: 31557600 },
+  data: { b: 1, kb: 1e3, mb: 1e6, gb: 1e9, tb: 1e12, kib: 1024, mib: 1024 ** 2, gib: 1024 ** 3, tib: 1024 ** 4, bit: 0.125 },
+  energy: { j: 1, kj: 1000, cal: 4.184, kcal: 4184, wh: 3600, kwh: 3.6e6, btu: 1055.05585 },
+  pressure: { pa: 1, kpa: 1000, bar: 1e5, atm: 101325, psi: 6894.757293168, mmhg: 133.322387415 },
+};
+
+const TEMPERATURE_TO_KELVIN: Record<string, (value: number) => number> = {
+  c: value => value + 273.15,
+  f: value => (value - 32) * 5 / 9 + 273.15,
+  k: value => value,
+};
+const TEMPERATURE_FROM_KELVIN: Record<string, (value: number) => number> = {
+  c: value => value - 273.15,
+  f: value => (value - 273.15) * 9 / 5 + 32,
+  k: value => value,
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', kilometer: 'km', kilometers: 'km', mile: 'mi', miles: 'mi',
+  foot: 'ft', feet: 'ft', inch: 'in', inches: 'in', yard: 'yd', yards: 'yd',
+  kilogram: 'kg', kilograms: 'kg', gram: 'g', grams: 'g', pound: 'lb', pounds: 'lb', lbs: 'lb', ounce: 'oz', ounces: 'oz',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', gallon: 'gal', gallons: 'gal',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k',
+  kph: 'km/h', kmh: 'km/h', knots: 'knot', sec: 's', second: 's', seconds: 's', minute: 'min', minutes: 'min',
+  hour: 'h', hours: 'h', hr: 'h', days: 'day', weeks: 'week', years: 'year',
+};
+
+const normalizeUnit = (unit: string) => {
+  const key = unit.trim().toLowerCase().replace(/\s+/g, '');
+  return Object.hasOwn(UNIT_ALIASES, key) ? UNIT_ALIASES[key] : key;
+};
+
+export const convertUnits = (value: number, from: string, to: string) => {
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+
+  const isTemperature = (unit: string) => Object.hasOwn(TEMPERATURE_TO_KELVIN, unit);
+  if (isTemperature(fromUnit) || isTemperature(toUnit)) {
+    if (!(isTemperature(fromUnit) && isTemperature(toUnit))) {
+      throw new ToolError(`Cannot convert between "${from}" and "${to}".`);
+    }
+    return TEMPERATURE_FROM_KELVIN[toUnit](TEMPERATURE_TO_KELVIN[fromUnit](value));
+  }
+
+  const group = Object.values(UNIT_GROUPS).find(units => Object.hasOwn(units, fromUnit) && Object.hasOwn(units, toUnit));
+  if (!group) {
+    const known = [fromUnit, toUnit].find(unit => !Object.values(UNIT_GROUPS).some(units => Object.hasOwn(units, unit)));
+    throw new ToolError(known ? `Unknown unit "${known}".` : `Cannot convert between "${from}" and "${to}".`);
+  }
+  return value * group[fromUnit] / group[toUnit];
+};
+
+// --- Dates ------------------------------------------------------------------
+
+const parseDateArg = (value: string | undefined, name: string) => {
+  if (!value) return new Date();
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new ToolError(`"${name}" is not a valid date: ${value}`);
+  return date;
+};
+
+const formatInZone = (date: Date, timeZone: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone, year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit', hour12: false, timeZoneName: 'short',
+    }).format(date);
+  } catch {
+    throw new ToolError(`Unknown time zone "${timeZone}". Use an IANA name such as "Asia/Dhaka".`);
+  }
+};
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  seconds: 1000, minutes: 60_000, hours: 3_600_000, days: 86_400_000, weeks: 604_800_000,
+};
+
+// Jan 31 plus one month is the last day of February, not early March.
+const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+};
+
+// --- JavaScript sandbox -----------------------------------------------------
+
+const SANDBOX_TIMEOUT_MS = 5000;
+
+const runInSandbox = (code: string, signal?: AbortSignal) =>
+  new Promise<SandboxResponse>((resolve, reject) => {
+    const frame = document.createElement('iframe');
+    frame.sandbox.add('allow-scripts');
+    frame.style.display = 'none';
+    frame.srcdoc = createSandboxDocument();
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      window.removeEventListener('message', onMessage);
+      // Removing the frame also stops its worker.
+      frame.remove();
+    };
+    const onAbort = () => {
+      finish();
+      reject(new ToolError("Cancelled."));
+    };
+    const timer = setTimeout(() => {
+      finish();
+      reject(new ToolError(`The code did not finish within ${SANDBOX_TIMEOUT_MS / 1000} seconds.`));
+    }, SANDBOX_TIMEOUT_MS);
+
+    const onMessage = (event: MessageEvent<SandboxResponse>) => {
+      if (event.source !== frame.contentWindow) return;
+      finish();
+      // Whatever the code posts arrives here too, so the shape is not trusted.
+      const data: any = typeof event.data === 'object' && event.data ? event.data : {};
+      const logs = Array.isArray(data.logs) ? data.logs.map(String) : [];
+      resolve('error' in data ? { error: String(data.error), logs } : { result: String(data.result), logs });
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    window.addEventListener('message', onMessage);
+    frame.onload = () => {
+      const request: SandboxRequest = { code };
+      frame.contentWindow?.postMessage(request, '*');
+    };
+    document.body.appendChild(frame);
+  });
+
+// --- Registry ---------------------------------------------------------------
+
+export const BUILTIN_TOOLS: ToolDefinition[] = [
+  {
+    name: 'calculator',
+    label: "Calculator",
+    description: "Evaluates an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, cbrt, abs, exp, ln, log (base 10), log2, sin, cos, tan, asin, acos, atan (radians), round, floor, ceil, min, max, pow and the constants pi, e, tau.",
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: "The expression, e.g. \"(12.5 * 4) ^ 2 / sqrt(2)\"." },
+      },
+      required: ['expression'],
+    },
+    run: ({ expression }) => {
+      const value = evaluateExpression(expression);
+      if (!Number.isFinite(value)) throw new ToolError(`The result is not a finite number (${value}).`);
+      return { expression, value };
+    },
+  },
+  {
+    name: 'convert_units',
+    label: "Unit converter",
+    description: `Converts a value between units of the same kind. Known units — ${Object.entries(UNIT_GROUPS).map(([group, units]) => `${group}: ${Object.keys(units).join(', ')}`).join('; ')}; temperature: c, f, k.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: "The amount to convert." },
+        from: { type: 'string', description: "The unit of the value, e.g. \"mi\"." },
+        to: { type: 'string', description: "The unit to convert to, e.g. \"km\"." },
+      },
+      required: ['value', 'from', 'to'],
+    },
+    run: ({ value, from, to }) => ({ value, from, to, result: convertUnits(value, from, to) }),
+  },
+  {
+    name: 'convert_time_zone',
+    label: "Time zones",
+    description: "Shows a moment in another time zone. Without a datetime it uses the current time, so it also answers \"what time is it in …\".",
+    parameters: {
+      type: 'object',
+      properties: {
+        datetime: { type: 'string', description: "ISO 8601 date and time with an offset, e.g. \"2025-03-01T09:00:00+06:00\". Optional." },
+        to_time_zone: { type: 'string', description: "IANA time zone, e.g. \"America/New_York\"." },
+      },
+      required: ['to_time_zone'],
+    },
+    run: ({ datetime, to_time_zone }) => {
+      const date = parseDateArg(datetime, 'datetime');
+      return { utc: date.toISOString(), timeZone: to_time_zone, local: formatInZone(date, to_time_zone) };
+    },
+  },
+  {
+    name: 'date_calculator',
+    label: "Date calculator",
+    description: "Finds the time between two dates, or adds a duration (negative to subtract) to a date. Dates are ISO 8601; a missing date means now.",
+    parameters: {
+      type: 'object',
+      properties: {
+        operation: { type: 'string', description: "What to do.", enum: ['difference', 'add'] },
+        start: { type: 'string', description: "The first date. Optional." },
+        end: { type: 'string', description: "For \"difference\": the second date. Optional." },
+        amount: { type: 'number', description: "For \"add\": how much to add." },
+        unit: { type: 'string', description: "For \"add\": the unit of the amount.", enum: [...Object.keys(DURATION_UNITS_MS), 'months', 'years'] },
+      },
+      required: ['operation'],
+    },
+    run: ({ operation, start, end, amount, unit }) => {
+      const from = parseDateArg(start, 'start');
+      if (operation === 'difference') {
+        const ms = parseDateArg(end, 'end').getTime() - from.getTime();
+        return {
+          days: ms / DURATION_UNITS_MS.days,
+          hours: ms / DURATION_UNITS_MS.hours,
+          minutes: ms / DURATION_UNITS_MS.minutes,
+          weeks: ms / DURATION_UNITS_MS.weeks,
+        };
+      }
+      if (amount === undefined || !unit) throw new ToolError("\"add\" needs an amount and a unit.");
+      const result = unit === 'months' ? addMonths(from, amount)
+        : unit === 'years' ? addMonths(from, amount * 12)
+        : new Date(from.getTime() + amount * DURATION_UNITS_MS[unit]);
+      return { start: from.toISOString(), result: result.toISOString() };
+    },
+  },
+  {
+    name: 'run_javascript',
+    label: "JavaScript sandbox",
+    description: `Runs JavaScript in a sandboxed worker without network, page or storage access, for exact computation or data processing. The code is the body of an async function: use \`return\` to produce the result. console.log output is captured. Time limit ${SANDBOX_TIMEOUT_MS / 1000} seconds.`,
+    parameters: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: "The JavaScript to run." },
+      },
+      required: ['code'],
+    },
+    run: async ({ code }, signal) => {
+      const response = await runInSandbox(code, signal);
+      if ('error' in response) throw new ToolError(`${response.error}${response.logs.length ? `\nOutput:\n${response.logs.join('\n')}` : ''}`);
+      return response;
+    },
+  },
+];
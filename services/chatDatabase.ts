@@ -0,0 +1,332 @@
+import { Attachment, ContextSummary, Conversation, Message } from "../types";
+import { base64ToBlob, blobToBase64 } from "./blobUtils";
+import { fromLegacyImage } from "./attachments";
+import { DEFAULT_PERSONA } from "./personas";
+import { chainMessages } from "./messageTree";
+import {
+  clearLocalStorageConversations,
+  createSessionState,
+  loadLocalStorageConversations,
+} from "./conversationStore";
+
+const DB_NAME = 'zuno';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+// Named before attachments existed; holds the Blob of every kind of attachment.
+const IMAGES_STORE = 'images';
+
+/**
+ * Version of the serialized conversation record. When `Message` (or
+ * `Conversation`) changes shape, bump this and add a step to
+ * `recordMigrations` that upgrades a record from the previous version.
+ */
+const RECORD_VERSION = 4;
+
+const WRITE_DELAY_MS = 400;
+// A streaming reply schedules a write per chunk; it is still saved this often.
+const MAX_WRITE_DELAY_MS = 2000;
+
+interface StoredMessage extends Omit<Message, 'attachments'> {
+  attachments?: Omit<Attachment, 'data'>[];
+}
+
+interface ConversationRecord {
+  version: number;
+  id: string;
+  title: string;
+  pinned: boolean;
+  personaId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  messages: StoredMessage[];
+  activeLeafId: string | null;
+  contextSummary?: ContextSummary | null;
+}
+
+interface ImageRecord {
+  id: string;
+  conversationId: string;
+  blob: Blob;
+}
+
+const recordMigrations: Record<number, (record: any) => any> = {
+  // v1 -> v2: flat message lists become a single branch of the message tree.
+  1: record => ({
+    ...record,
+    messages: chainMessages(record.messages),
+    activeLeafId: record.messages[record.messages.length - 1]?.id ?? null,
+  }),
+  // v2 -> v3: the single `image` becomes the first entry of `attachments`.
+  // Blob keys are unchanged, so the stored images keep working.
+  2: record => ({
+    ...record,
+    messages: record.messages.map(({ image, ...msg }: any) => {
+      if (!image) return msg;
+      const { data: _data, ...attachment } = fromLegacyImage(msg.id, { ...image, data: '' });
+      return { ...msg, attachments: [attachment] };
+    }),
+  }),
+  // v3 -> v4: conversations are assigned a persona.
+  3: record => ({ ...record, personaId: DEFAULT_PERSONA.id }),
+};
+
+const migrateRecord = (record: any): ConversationRecord => {
+  let current = record;
+  for (let version = current.version ?? RECORD_VERSION; version < RECORD_VERSION; version++) {
+    current = { ...recordMigrations[version](current), version: version + 1 };
+  }
+  return current;
+};
+
+export class StorageQuotaError extends Error {
+  constructor() {
+    super("Browser storage is full. New messages will not be saved until you delete some conversations.");
+    this.name = 'StorageQuotaError';
+  }
+}
+
+const toStorageError = (error: DOMException | Error | null) => {
+  if (error?.name === 'QuotaExceededError') return new StorageQuotaError();
+  return new Error(`Failed to save chat history: ${error?.message || 'unknown storage error'}`);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+          images.createIndex('conversationId', 'conversationId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onabort = () => reject(toStorageError(tx.error));
+    tx.onerror = () => reject(toStorageError(tx.error));
+  });
+
+const toRecord = (conv: Conversation): ConversationRecord => ({
+  version: RECORD_VERSION,
+  id: conv.id,
+  title: conv.title,
+  pinned: conv.pinned,
+  personaId: conv.personaId,
+  createdAt: conv.createdAt,
+  updatedAt: conv.updatedAt,
+  messages: conv.session.messages.map(({ attachments, ...msg }) =>
+    attachments?.length ? { ...msg, attachments: attachments.map(({ data: _data, ...att }) => att) } : msg
+  ),
+  activeLeafId: conv.session.activeLeafId,
+  contextSummary: conv.session.contextSummary,
+});
+
+/**
+ * Keeps messages that another tab saved to the same conversation since this
+ * tab last wrote it, unless this tab deleted them.
+ */
+const mergeStoredMessages = (record: ConversationRecord, stored: any, removedIds: Set<string> | undefined) => {
+  if (!stored) return record;
+  const ownIds = new Set(record.messages.map(msg => msg.id));
+  const theirs = migrateRecord(stored).messages.filter(msg => !ownIds.has(msg.id) && !removedIds?.has(msg.id));
+  return theirs.length > 0 ? { ...record, messages: [...record.messages, ...theirs] } : record;
+};
+
+/**
+ * Writes the given conversations and any attachments not already stored, and
+ * removes deleted conversations along with their attachments, in one transaction.
+ * `removedMessageIds` lists, per conversation, the messages deleted since the
+ * last write; their attachments go too unless a remaining message shares them.
+ */
+const writeChanges = async (
+  changed: Conversation[],
+  deletedIds: string[],
+  storedImageIds: Set<string>,
+  removedMessageIds = new Map<string, Set<string>>()
+) => {
+  const db = await openDatabase();
+  const tx = db.transaction([CONVERSATIONS_STORE, IMAGES_STORE], 'readwrite');
+  const conversationStore = tx.objectStore(CONVERSATIONS_STORE);
+  const imageStore = tx.objectStore(IMAGES_STORE);
+  const newImageIds: string[] = [];
+
+  for (const conv of changed) {
+    const conversationRecord = toRecord(conv);
+    const storedRequest = conversationStore.get(conv.id);
+    storedRequest.onsuccess = () => {
+      const removedIds = removedMessageIds.get(conv.id);
+      const merged = mergeStoredMessages(conversationRecord, storedRequest.result, removedIds);
+      conversationStore.put(merged);
+      if (!removedIds?.size || !storedRequest.result) return;
+
+      // An edited prompt keeps the attachments of the one it replaces.
+      const keptIds = new Set(merged.messages.flatMap(msg => msg.attachments?.map(att => att.id) ?? []));
+      const removedMessages = migrateRecord(storedRequest.result).messages.filter(msg => removedIds.has(msg.id));
+      for (const att of removedMessages.flatMap(msg => msg.attachments ?? [])) {
+        if (keptIds.has(att.id)) continue;
+        imageStore.delete(att.id);
+        storedImageIds.delete(att.id);
+      }
+    };
+    for (const att of conv.session.messages.flatMap(msg => msg.attachments ?? [])) {
+      if (storedImageIds.has(att.id)) continue;
+      const record: ImageRecord = {
+        id: att.id,
+        conversationId: conv.id,
+        blob: base64ToBlob(att.data, att.mimeType),
+      };
+      imageStore.put(record);
+      newImageIds.push(att.id);
+    }
+  }
+
+  for (const id of deletedIds) {
+    conversationStore.delete(id);
+    const cursorRequest = imageStore.index('conversationId').openKeyCursor(IDBKeyRange.only(id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      imageStore.delete(cursor.primaryKey);
+      storedImageIds.delete(cursor.primaryKey as string);
+      cursor.continue();
+    };
+  }
+
+  await transactionDone(tx);
+  newImageIds.forEach(id => storedImageIds.add(id));
+};
+
+const hydrateRecord = async (
+  record: ConversationRecord,
+  images: Map<string, Blob>
+): Promise<Conversation> => {
+  const messages: Message[] = await Promise.all(
+    record.messages.map(async ({ attachments, ...msg }) => {
+      const hydrated: Message = { ...msg, timestamp: new Date(msg.timestamp) };
+      if (attachments?.length) {
+        // An attachment whose Blob is missing is dropped rather than shown broken.
+        const loaded = await Promise.all(attachments.map(async att => {
+          const blob = images.get(att.id);
+          return blob ? { ...att, size: blob.size, data: await blobToBase64(blob) } : null;
+        }));
+        hydrated.attachments = loaded.filter((att): att is Attachment => att !== null);
+      }
+      return hydrated;
+    })
+  );
+
+  return {
+    id: record.id,
+    title: record.title,
+    pinned: record.pinned,
+    personaId: record.personaId,
+    createdAt: new Date(record.createdAt),
+    updatedAt: new Date(record.updatedAt),
+    session: {
+      ...createSessionState(messages, record.activeLeafId),
+      contextSummary: record.contextSummary ?? null,
+    },
+  };
+};
+
+export interface ConversationWriter {
+  /** Queues a debounced save of whatever changed since the last write. */
+  schedule: (conversations: Conversation[]) => void;
+  /** Writes any queued changes immediately. */
+  flush: () => Promise<void>;
+}
+
+/**
+ * Loads saved conversations, migrating any history still in localStorage.
+ * The returned writer already knows what is on disk, so it only writes
+ * conversations that change afterwards.
+ */
+export const openConversationStore = async (
+  onError: (error: Error) => void
+): Promise<{ conversations: Conversation[]; writer: ConversationWriter }> => {
+  const db = await openDatabase();
+  const tx = db.transaction([CONVERSATIONS_STORE, IMAGES_STORE], 'readonly');
+  const [records, imageRecords] = await Promise.all([
+    requestToPromise<ConversationRecord[]>(tx.objectStore(CONVERSATIONS_STORE).getAll()),
+    requestToPromise<ImageRecord[]>(tx.objectStore(IMAGES_STORE).getAll()),
+  ]);
+
+  const storedImageIds = new Set(imageRecords.map(img => img.id));
+  const images = new Map(imageRecords.map(img => [img.id, img.blob]));
+  let conversations = await Promise.all(
+    records.map(record => hydrateRecord(migrateRecord(record), images))
+  );
+
+  if (conversations.length === 0) {
+    const legacy = loadLocalStorageConversations();
+    if (legacy.length > 0) {
+      await writeChanges(legacy, [], storedImageIds);
+      clearLocalStorageConversations();
+      conversations = legacy;
+    }
+  }
+
+  const lastSaved = new Map(conversations.map(conv => [conv.id, conv]));
+  let pending: Conversation[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let pendingSince: number | null = null;
+
+  const flush = async () => {
+    clearTimeout(timer);
+    if (!pending) return;
+    const current = pending;
+    pending = null;
+    pendingSince = null;
+
+    // Conversation objects are replaced on every update, so identity tells us what changed.
+    const persistable = current.filter(conv => conv.session.messages.length > 0);
+    const changed = persistable.filter(conv => lastSaved.get(conv.id) !== conv);
+    const liveIds = new Set(persistable.map(conv => conv.id));
+    const deletedIds = [...lastSaved.keys()].filter(id => !liveIds.has(id));
+    if (changed.length === 0 && deletedIds.length === 0) return;
+
+    const removedMessageIds = new Map(changed.map(conv => {
+      const liveMessageIds = new Set(conv.session.messages.map(msg => msg.id));
+      const saved = lastSaved.get(conv.id)?.session.messages ?? [];
+      return [conv.id, new Set(saved.map(msg => msg.id).filter(id => !liveMessageIds.has(id)))];
+    }));
+
+    try {
+      await writeChanges(changed, deletedIds, storedImageIds, removedMessageIds);
+      changed.forEach(conv => lastSaved.set(conv.id, conv));
+      deletedIds.forEach(id => lastSaved.delete(id));
+    } catch (err: any) {
+      console.error("Failed to save chat history:", err);
+      onError(err);
+    }
+  };
+
+  const schedule = (next: Conversation[]) => {
+    pending = next;
+    pendingSince ??= Date.now();
+    clearTimeout(timer);
+    timer = setTimeout(flush, Math.max(0, Math.min(WRITE_DELAY_MS, pendingSince + MAX_WRITE_DELAY_MS - Date.now())));
+  };
+
+  return { conversations, writer: { schedule, flush } };
+};
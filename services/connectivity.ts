@@ -0,0 +1,100 @@
+/**
+ * Tracks whether requests can reach the model right now. The browser's
+ * online flag only says a network interface is up, so providers that talk
+ * to a server also get probed: at start, when the browser comes back
+ * online, when the tab becomes visible, and on a timer.
+ */
+
+// 'unreachable': the browser is online but the provider's server does not answer.
+export type ConnectionStatus = 'online' | 'offline' | 'unreachable';
+
+export const CONNECTION_LABELS: Record<ConnectionStatus, string> = {
+  online: "Connected",
+  offline: "Offline",
+  unreachable: "API unreachable",
+};
+
+const PROBE_TIMEOUT_MS = 5000;
+const RECHECK_ONLINE_MS = 5 * 60 * 1000;
+const RECHECK_OFFLINE_MS = 30 * 1000;
+
+/**
+ * True when anything answers at `url`. An opaque `no-cors` response is
+ * enough: only a network failure rejects.
+ */
+export const probeUrl = async (url: string, signal?: AbortSignal) => {
+  try {
+    await fetch(url, { method: 'HEAD', mode: 'no-cors', cache: 'no-store', signal });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export interface ConnectivityMonitor {
+  /** Probes again now, e.g. after a request failed with a network error. */
+  recheck: () => void;
+  dispose: () => void;
+}
+
+/**
+ * Reports the status through `onChange` whenever it changes. Without a
+ * `checkHealth`, as for the in-browser mock provider, the status is always online.
+ */
+export const createConnectivityMonitor = (
+  checkHealth: ((signal?: AbortSignal) => Promise<boolean>) | undefined,
+  onChange: (status: ConnectionStatus) => void,
+): ConnectivityMonitor => {
+  let status: ConnectionStatus | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let probe: AbortController | null = null;
+  let disposed = false;
+
+  const report = (next: ConnectionStatus) => {
+    if (next !== status) {
+      status = next;
+      onChange(next);
+    }
+    clearTimeout(timer);
+    if (checkHealth) timer = setTimeout(recheck, next === 'online' ? RECHECK_ONLINE_MS : RECHECK_OFFLINE_MS);
+  };
+
+  const recheck = async () => {
+    if (disposed) return;
+    if (!checkHealth) return report('online');
+    if (!navigator.onLine) return report('offline');
+
+    probe?.abort();
+    const controller = new AbortController();
+    probe = controller;
+    const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    const healthy = await checkHealth(controller.signal).catch(() => false);
+    clearTimeout(timeout);
+    // A newer probe has started; its answer is the one to report.
+    if (disposed || probe !== controller) return;
+    probe = null;
+    report(healthy ? 'online' : 'unreachable');
+  };
+
+  const handleOffline = () => report('offline');
+  const handleVisible = () => {
+    if (document.visibilityState === 'visible') recheck();
+  };
+
+  window.addEventListener('online', recheck);
+  window.addEventListener('offline', handleOffline);
+  document.addEventListener('visibilitychange', handleVisible);
+  recheck();
+
+  return {
+    recheck,
+    dispose: () => {
+      disposed = true;
+      probe?.abort();
+      clearTimeout(timer);
+      window.removeEventListener('online', recheck);
+      window.removeEventListener('offline', handleOffline);
+      document.removeEventListener('visibilitychange', handleVisible);
+    },
+  };
+};
@@ -0,0 +1,209 @@
+import { Attachment, ChatProvider, ContextSettings, ContextSummary, Message, Role } from "../types";
+import { isMask } from "./attachments";
+
+/**
+ * Keeps the outgoing payload under the configured token budget. When a
+ * branch grows too long we first stop resending old attachments, then fold the
+ * oldest turns into a rolling summary written by the model itself.
+ */
+
+// Rough averages; good enough for budgeting, refined by `countTokens` when available.
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258;
+const PDF_BYTES_PER_PAGE = 75_000; // each page costs about as much as an image
+const AUDIO_BYTES_PER_TOKEN = 500; // ~32 tokens per second of compressed audio
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const SYSTEM_PROMPT_TOKENS = 40;
+const SUMMARY_RESERVE_TOKENS = 400;
+
+// Only ask the backend for an exact count once we are getting close.
+const EXACT_COUNT_THRESHOLD = 0.5;
+
+export type ContextState = 'full' | 'text-only' | 'summarized';
+
+export interface ContextPlan {
+  states: Map<string, ContextState>;
+  estimatedTokens: number;
+  budget: number;
+}
+
+/**
+ * Drops messages that must never go back to the model, such as failed replies.
+ */
+// Masks only mean something to the image model that received them with their edit.
+export const toSendableHistory = (history: Message[]) =>
+  history
+    .filter(msg => !msg.error)
+    .map(msg => msg.attachments?.some(isMask) ? { ...msg, attachments: msg.attachments.filter(att => !isMask(att)) } : msg);
+
+export const estimateTextTokens = (text: string) => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const attachmentTokens = (att: Attachment) => {
+  switch (att.kind) {
+    case 'image': return IMAGE_TOKENS;
+    case 'pdf': return Math.ceil(att.size / PDF_BYTES_PER_PAGE) * IMAGE_TOKENS;
+    case 'audio': return Math.ceil(att.size / AUDIO_BYTES_PER_TOKEN);
+    case 'text': return Math.ceil(att.size / CHARS_PER_TOKEN);
+  }
+};
+
+type Budgeted = Pick<Message, 'content' | 'attachments'>;
+
+const messageTokens = (msg: Budgeted, withAttachments: boolean) =>
+  MESSAGE_OVERHEAD_TOKENS + estimateTextTokens(msg.content)
+  + (withAttachments ? (msg.attachments ?? []).reduce((sum, att) => sum + attachmentTokens(att), 0) : 0);
+
+/**
+ * Decides, for each message of `history`, whether it is sent as-is, sent
+ * without its attachments, or replaced by the summary. `scale` corrects the local
+ * estimate when an exact count showed it to be off.
+ */
+export const planContext = (
+  history: Message[],
+  pending: Budgeted,
+  settings: ContextSettings,
+  summary: ContextSummary | null,
+  scale = 1
+): ContextPlan => {
+  const states = new Map<string, ContextState>(history.map(msg => [msg.id, 'full']));
+  const protectedFrom = Math.max(0, history.length - settings.keepRecentMessages);
+  const cost = (msg: Message) => messageTokens(msg, states.get(msg.id) === 'full') * scale;
+
+  // A summary is only reused while it still covers a prefix of this branch.
+  const summaryIndex = summary ? history.findIndex(msg => msg.id === summary.upToMessageId) : -1;
+  let summarizedCount = 0;
+  if (summaryIndex !== -1 && summaryIndex < protectedFrom) {
+    summarizedCount = summaryIndex + 1;
+    history.slice(0, summarizedCount).forEach(msg => states.set(msg.id, 'summarized'));
+  }
+
+  const total = () => {
+    const reusesSummary = summary !== null && summarizedCount === summaryIndex + 1;
+    const summaryTokens = summarizedCount === 0
+      ? 0
+      : (reusesSummary ? estimateTextTokens(summary.content) : SUMMARY_RESERVE_TOKENS) * scale;
+    return SYSTEM_PROMPT_TOKENS + summaryTokens + messageTokens(pending, true) * scale
+      + history.reduce((sum, msg) => sum + (states.get(msg.id) === 'summarized' ? 0 : cost(msg)), 0);
+  };
+
+  let estimatedTokens = total();
+
+  // 1. Stop resending old attachments, oldest first.
+  for (let i = summarizedCount; i < protectedFrom && estimatedTokens > settings.tokenBudget; i++) {
+    if (history[i].attachments?.length) {
+      states.set(history[i].id, 'text-only');
+      estimatedTokens = total();
+    }
+  }
+
+  // 2. Fold whole exchanges into the summary until we fit. Cutting after a
+  //    model turn keeps the remaining history starting with a user message.
+  while (estimatedTokens > settings.tokenBudget && summarizedCount < protectedFrom) {
+    states.set(history[summarizedCount].id, 'summarized');
+    summarizedCount++;
+    while (summarizedCount < protectedFrom && history[summarizedCount].role === Role.MODEL) {
+      states.set(history[summarizedCount].id, 'summarized');
+      summarizedCount++;
+    }
+    estimatedTokens = total();
+  }
+
+  return { states, estimatedTokens: Math.round(estimatedTokens), budget: settings.tokenBudget };
+};
+
+const formatTranscript = (messages: Message[]) =>
+  messages
+    .filter(msg => msg.content)
+    .map(msg => {
+      const files = (msg.attachments ?? []).map(att => ` [attached: ${att.name}]`).join('');
+      return `${msg.role === Role.USER ? 'User' : 'Zuno'}: ${msg.content}${files}`;
+    })
+    .join('\n\n');
+
+const summarizeTurns = async (
+  provider: ChatProvider,
+  previousSummary: string | undefined,
+  messages: Message[],
+  signal?: AbortSignal
+) => {
+  const prompt = [
+    "Summarize the conversation below so it can replace the original turns as context for continuing the chat.",
+    "Keep facts, decisions, names, numbers, code identifiers and open questions. Be concise and write in plain prose.",
+    previousSummary ? `\nSummary of what came before:\n${previousSummary}` : "",
+    `\nConversation:\n${formatTranscript(messages)}`,
+  ].join('\n');
+
+  return provider.startChatStream([], prompt, () => {}, { signal });
+};
+
+export interface PreparedContext {
+  history: Message[];
+  summary: ContextSummary | null;
+}
+
+/**
+ * Produces the history to send for the next request, generating or
+ * extending the rolling summary when the branch no longer fits.
+ */
+export const prepareContext = async (
+  provider: ChatProvider,
+  history: Message[],
+  pending: Budgeted,
+  settings: ContextSettings,
+  summary: ContextSummary | null,
+  signal?: AbortSignal
+): Promise<PreparedContext> => {
+  let plan = planContext(history, pending, settings, summary);
+
+  if (provider.countTokens && plan.estimatedTokens > settings.tokenBudget * EXACT_COUNT_THRESHOLD) {
+    try {
+      const exact = await provider.countTokens(history, pending.content, { attachments: pending.attachments });
+      const naive = planContext(history, pending, { ...settings, tokenBudget: Infinity }, null);
+      if (exact > 0 && naive.estimatedTokens > 0) {
+        plan = planContext(history, pending, settings, summary, exact / naive.estimatedTokens);
+      }
+    } catch (err) {
+      console.warn("Token count failed, using local estimate:", err);
+    }
+  }
+
+  const summarized = history.filter(msg => plan.states.get(msg.id) === 'summarized');
+  const kept = history
+    .filter(msg => plan.states.get(msg.id) !== 'summarized')
+    .map(msg => plan.states.get(msg.id) === 'text-only' ? { ...msg, attachments: undefined } : msg);
+
+  if (summarized.length === 0) {
+    return { history: kept, summary };
+  }
+
+  const boundary = summarized[summarized.length - 1];
+  let nextSummary = summary;
+  if (summary?.upToMessageId !== boundary.id) {
+    const alreadySummarized = summary ? summarized.findIndex(msg => msg.id === summary.upToMessageId) + 1 : 0;
+    const content = await summarizeTurns(
+      provider,
+      alreadySummarized > 0 ? summary!.content : undefined,
+      summarized.slice(alreadySummarized),
+      signal
+    );
+    nextSummary = { upToMessageId: boundary.id, content };
+  }
+
+  // The summary travels as a synthetic exchange so every provider can use it.
+  const summaryTurns: Message[] = [
+    {
+      id: `summary_${boundary.id}`,
+      role: Role.USER,
+      content: `Summary of our earlier conversation:\n\n${nextSummary!.content}`,
+      timestamp: boundary.timestamp,
+    },
+    {
+      id: `summary_${boundary.id}_ack`,
+      role: Role.MODEL,
+      content: "Understood. I'll continue from that context.",
+      timestamp: boundary.timestamp,
+    },
+  ];
+
+  return { history: [...summaryTurns, ...kept], summary: nextSummary };
+};
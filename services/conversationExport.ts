@@ -0,0 +1,458 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { strToU8, zipSync } from 'fflate';
+import { Attachment, AttachmentKind, ChatErrorKind, ChatRoute, ContextSummary, Conversation, Message, Role, TokenUsage, ToolCall, ToolCallStatus } from "../types";
+import { base64Size, createAttachmentId, fromLegacyImage, toDataUrl } from "./attachments";
+import { createConversation, createSessionState } from "./conversationStore";
+import { chainMessages, getActivePath } from "./messageTree";
+
+/**
+ * Moves conversations in and out of the app. Markdown and HTML exports are
+ * for reading and only contain the branch being shown; the JSON export keeps
+ * the whole message tree so it can be imported back without losing anything.
+ */
+
+const EXPORT_FORMAT = 'zuno-conversation';
+// v1 carried a single `image` per message; v2 carries `attachments`.
+const EXPORT_VERSION = 2;
+
+const ROLES = new Set<string>(Object.values(Role));
+const ATTACHMENT_KINDS = new Set<string>(['image', 'pdf', 'text', 'audio']);
+const MODES = new Set<string>(['auto', 'chat', 'analyze', 'edit-image', 'generate-image']);
+const TOOL_CALL_STATUSES = new Set<string>(['awaiting-approval', 'running', 'done', 'error', 'denied']);
+const ERROR_KINDS = new Set<string>([
+  'auth', 'rate-limit', 'safety', 'network', 'model-not-found', 'context-too-long', 'unavailable', 'unknown',
+]);
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  conversation: {
+    title: string;
+    pinned: boolean;
+    personaId: string;
+    createdAt: Date;
+    updatedAt: Date;
+    activeLeafId: string | null;
+    contextSummary: ContextSummary | null;
+    messages: Message[];
+  };
+}
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_OPTIONS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'markdown', label: 'Markdown', description: 'Current branch, attachments as separate files' },
+  { format: 'json', label: 'JSON', description: 'Every branch, can be imported again' },
+  { format: 'html', label: 'HTML', description: 'Current branch as a standalone page' },
+];
+
+export class ConversationImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationImportError';
+  }
+}
+
+const speakerName = (role: Role) => role === Role.USER ? 'You' : 'Zuno';
+
+const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'conversation';
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]!));
+
+const branchOf = (conv: Conversation) => getActivePath(conv.session.messages, conv.session.activeLeafId);
+
+const buildMarkdown = (conv: Conversation, attachmentPath: (att: Attachment) => string) => {
+  const sections = branchOf(conv).map(msg => {
+    const heading = `### ${speakerName(msg.role)} · ${msg.timestamp.toLocaleString()}`;
+    const parts = [heading];
+    if (msg.content) parts.push(msg.content);
+    for (const att of msg.attachments ?? []) {
+      const link = `[${att.name}](${encodeURI(attachmentPath(att))})`;
+      parts.push(att.kind === 'image' ? `!${link}` : `📎 ${link}`);
+    }
+    if (msg.error) parts.push(`> **Error:** ${msg.error.message}`);
+    if (msg.interrupted) parts.push('_Stopped before the reply finished._');
+    return parts.join('\n\n');
+  });
+
+  return [
+    `# ${conv.title}`,
+    `_Exported from Zuno AI on ${new Date().toLocaleString()}_`,
+    ...sections,
+  ].join('\n\n') + '\n';
+};
+
+/**
+ * Markdown for the current branch. Attachments are written next to the
+ * document, so a conversation with files comes out as a zip archive.
+ */
+const exportMarkdown = (conv: Conversation): { blob: Blob; filename: string } => {
+  const slug = fileSlug(conv.title);
+  const files: Record<string, Uint8Array> = {};
+  const markdown = buildMarkdown(conv, att => {
+    const path = `attachments/${att.id}-${att.name.replace(/[\\/:*?"<>|]+/g, '_')}`;
+    files[path] = Uint8Array.from(atob(att.data), ch => ch.charCodeAt(0));
+    return path;
+  });
+
+  if (Object.keys(files).length === 0) {
+    return { blob: new Blob([markdown], { type: 'text/markdown' }), filename: `${slug}.md` };
+  }
+
+  const archive = zipSync({ [`${slug}.md`]: strToU8(markdown), ...files }, { level: 0 });
+  return { blob: new Blob([archive], { type: 'application/zip' }), filename: `${slug}.zip` };
+};
+
+/**
+ * The JSON export of `conv`, or of just `messages` from it when given, as
+ * {@link parseConversationImport} reads it back.
+ */
+export const buildExportPayload = (
+  conv: Conversation,
+  messages = conv.session.messages,
+  activeLeafId = conv.session.activeLeafId
+): ConversationExport => ({
+  format: EXPORT_FORMAT,
+  version: EXPORT_VERSION,
+  exportedAt: new Date().toISOString(),
+  conversation: {
+    title: conv.title,
+    pinned: conv.pinned,
+    personaId: conv.personaId,
+    createdAt: conv.createdAt,
+    updatedAt: conv.updatedAt,
+    activeLeafId,
+    // A summary of messages that were left out would be wrong.
+    contextSummary: messages === conv.session.messages ? conv.session.contextSummary : null,
+    messages,
+  },
+});
+
+const exportJson = (conv: Conversation): { blob: Blob; filename: string } => {
+  const payload = buildExportPayload(conv);
+  return {
+    blob: new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+    filename: `${fileSlug(conv.title)}.json`,
+  };
+};
+
+const HTML_STYLES = `
+  body { margin: 0; background: #09090b; color: #f4f4f5; font: 15px/1.6 Inter, system-ui, sans-serif; }
+  main { max-width: 760px; margin: 0 auto; padding: 40px 20px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .meta { color: #71717a; font-size: 12px; margin-bottom: 32px; }
+  .message { margin: 0 0 20px; padding: 14px 18px; border-radius: 16px; border: 1px solid #27272a; background: #18181b; }
+  .message.user { background: #27272a; margin-left: 15%; }
+  .speaker { font-size: 11px; font-weight: 700; text-transform: uppercase; letter-spacing: .08em; color: #71717a; margin-bottom: 6px; }
+  .message img { max-width: 100%; border-radius: 12px; margin-top: 8px; }
+  .error { color: #fca5a5; }
+  .note { color: #71717a; font-size: 12px; font-style: italic; }
+  pre { background: #09090b; border: 1px solid #27272a; border-radius: 8px; padding: 12px; overflow-x: auto; }
+  code { font-family: 'JetBrains Mono', ui-monospace, monospace; font-size: 13px; }
+  a { color: #22d3ee; }
+  table { border-collapse: collapse; margin: 8px 0; }
+  th, td { border: 1px solid #27272a; padding: 4px 8px; text-align: left; }
+`;
+
+const renderMarkdown = (content: string) =>
+  renderToStaticMarkup(React.createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, content));
+
+/**
+ * The current branch as a single HTML file with inline styles and
+ * attachments, readable offline without the app.
+ */
+const exportHtml = (conv: Conversation): { blob: Blob; filename: string } => {
+  const body = branchOf(conv).map(msg => {
+    const parts = [
+      `<div class="speaker">${speakerName(msg.role)} · ${escapeHtml(msg.timestamp.toLocaleString())}</div>`,
+    ];
+    if (msg.content) parts.push(renderMarkdown(msg.content));
+    for (const att of msg.attachments ?? []) {
+      const src = escapeHtml(toDataUrl(att));
+      if (att.kind === 'image') parts.push(`<img src="${src}" alt="${escapeHtml(att.name)}">`);
+      else if (att.kind === 'audio') parts.push(`<audio controls src="${src}"></audio>`);
+      else parts.push(`<p class="note"><a href="${src}" download="${escapeHtml(att.name)}">${escapeHtml(att.name)}</a></p>`);
+    }
+    if (msg.error) parts.push(`<p class="error">${escapeHtml(msg.error.message)}</p>`);
+    if (msg.interrupted) parts.push('<p class="note">Stopped before the reply finished.</p>');
+    return `<section class="message ${msg.role}">${parts.join('\n')}</section>`;
+  }).join('\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(conv.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(conv.title)}</h1>
+<div class="meta">Exported from Zuno AI on ${escapeHtml(new Date().toLocaleString())}</div>
+${body}
+</main>
+</body>
+</html>
+`;
+  return { blob: new Blob([html], { type: 'text/html' }), filename: `${fileSlug(conv.title)}.html` };
+};
+
+export const exportConversation = (conv: Conversation, format: ExportFormat) => {
+  switch (format) {
+    case 'markdown': return exportMarkdown(conv);
+    case 'json': return exportJson(conv);
+    case 'html': return exportHtml(conv);
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseDate = (value: unknown, where: string) => {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) {
+    throw new ConversationImportError(`${where} has an invalid timestamp.`);
+  }
+  return date;
+};
+
+const parseAttachment = (raw: unknown, where: string): Attachment => {
+  const { id, kind, name, mimeType, data, purpose, sourceId } = isRecord(raw) ? raw : {} as Record<string, unknown>;
+  if (typeof kind !== 'string' || !ATTACHMENT_KINDS.has(kind) || typeof mimeType !== 'string' || typeof data !== 'string') {
+    throw new ConversationImportError(`${where} has an invalid attachment.`);
+  }
+  try {
+    atob(data);
+  } catch {
+    throw new ConversationImportError(`${where} has attachment data that is not base64.`);
+  }
+  return {
+    // Kept only until reassignIds, so `sourceId` links can be followed.
+    id: typeof id === 'string' && id ? id : createAttachmentId(),
+    kind: kind as AttachmentKind,
+    name: typeof name === 'string' && name ? name : 'attachment',
+    mimeType,
+    size: base64Size(data),
+    data,
+    ...(purpose === 'mask' ? { purpose: 'mask' as const } : {}),
+    ...(typeof sourceId === 'string' && sourceId ? { sourceId } : {}),
+  };
+};
+
+const parseToolCall = (raw: unknown, where: string): ToolCall => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !isRecord(raw.args)) {
+    throw new ConversationImportError(`${where} has an invalid tool call.`);
+  }
+  return {
+    id: raw.id,
+    name: raw.name,
+    args: raw.args,
+    // Nothing is waiting on an imported call any more.
+    status: TOOL_CALL_STATUSES.has(raw.status) && raw.status !== 'awaiting-approval' && raw.status !== 'running'
+      ? raw.status as ToolCallStatus
+      : 'denied',
+    ...(raw.result !== undefined ? { result: raw.result } : {}),
+    ...(typeof raw.error === 'string' ? { error: raw.error } : {}),
+  };
+};
+
+const USAGE_COUNTS = ['promptTokens', 'outputTokens', 'thinkingTokens', 'cachedTokens'] as const;
+
+// Usage is informational, so a malformed entry is dropped instead of failing the import.
+const parseUsage = (raw: unknown): TokenUsage | undefined => {
+  if (!isRecord(raw) || typeof raw.model !== 'string') return undefined;
+  if (!USAGE_COUNTS.every(field => typeof raw[field] === 'number' && raw[field] >= 0)) return undefined;
+  return {
+    model: raw.model,
+    promptTokens: raw.promptTokens,
+    outputTokens: raw.outputTokens,
+    thinkingTokens: raw.thinkingTokens,
+    cachedTokens: raw.cachedTokens,
+  };
+};
+
+/**
+ * Checks one entry against the `Message` shape and rebuilds its Date. Unknown
+ * fields are dropped rather than carried into storage.
+ */
+const parseMessage = (raw: unknown, index: number): Message => {
+  const where = `Message ${index + 1}`;
+  if (!isRecord(raw)) throw new ConversationImportError(`${where} is not an object.`);
+  if (typeof raw.id !== 'string' || !raw.id) throw new ConversationImportError(`${where} is missing an id.`);
+  if (!ROLES.has(raw.role)) throw new ConversationImportError(`${where} has an unknown role "${raw.role}".`);
+  if (typeof raw.content !== 'string') throw new ConversationImportError(`${where} has no text content.`);
+  if (raw.parentId != null && typeof raw.parentId !== 'string') {
+    throw new ConversationImportError(`${where} has an invalid parent.`);
+  }
+
+  const message: Message = {
+    id: raw.id,
+    parentId: raw.parentId ?? null,
+    role: raw.role,
+    content: raw.content,
+    timestamp: parseDate(raw.timestamp, where),
+  };
+
+  if (Array.isArray(raw.attachments) && raw.attachments.length > 0) {
+    message.attachments = raw.attachments.map((att: unknown) => parseAttachment(att, where));
+  } else if (raw.image != null) {
+    // Version 1 exports.
+    const { data, mimeType } = parseAttachment({ ...raw.image, kind: 'image', name: 'image' }, where);
+    message.attachments = [fromLegacyImage(raw.id, { data, mimeType })];
+  }
+  if (Array.isArray(raw.toolCalls) && raw.toolCalls.length > 0) {
+    message.toolCalls = raw.toolCalls.map((call: unknown) => parseToolCall(call, where));
+  }
+  if (isRecord(raw.thoughts) && typeof raw.thoughts.text === 'string' && typeof raw.thoughts.startedAt === 'number') {
+    message.thoughts = {
+      text: raw.thoughts.text,
+      startedAt: raw.thoughts.startedAt,
+      ...(typeof raw.thoughts.durationMs === 'number' ? { durationMs: raw.thoughts.durationMs } : {}),
+    };
+  }
+  const usage = parseUsage(raw.usage);
+  if (usage) message.usage = usage;
+  if (raw.interrupted === true) message.interrupted = true;
+  if (MODES.has(raw.mode)) message.mode = raw.mode;
+  if (MODES.has(raw.route) && raw.route !== 'auto') message.route = raw.route as ChatRoute;
+  if (isRecord(raw.error) && typeof raw.error.message === 'string') {
+    message.error = {
+      kind: ERROR_KINDS.has(raw.error.kind) ? raw.error.kind as ChatErrorKind : 'unknown',
+      message: raw.error.message,
+      ...(typeof raw.error.blockReason === 'string' ? { blockReason: raw.error.blockReason } : {}),
+    };
+  }
+  return message;
+};
+
+/**
+ * Gives imported messages and attachments fresh ids so importing the same
+ * file twice, or a file exported from this browser, never collides with
+ * stored attachments.
+ */
+const reassignIds = (messages: Message[], activeLeafId: string | null, summary: ContextSummary | null) => {
+  const base = Date.now();
+  const ids = new Map(messages.map((msg, idx) => [msg.id, `import_${base}_${idx}`]));
+  // Keyed by object as well as by old id: a hand-edited file may repeat an id.
+  const newIds = new Map<Attachment, string>();
+  const attachmentIds = new Map<string, string>();
+  for (const att of messages.flatMap(msg => msg.attachments ?? [])) {
+    newIds.set(att, createAttachmentId());
+    if (!attachmentIds.has(att.id)) attachmentIds.set(att.id, newIds.get(att)!);
+  }
+  return {
+    messages: messages.map(msg => ({
+      ...msg,
+      id: ids.get(msg.id)!,
+      parentId: msg.parentId ? ids.get(msg.parentId)! : null,
+      attachments: msg.attachments?.map(att => ({
+        ...att,
+        id: newIds.get(att)!,
+        // A link to an image that is not in the file is dropped.
+        sourceId: att.sourceId ? attachmentIds.get(att.sourceId) : undefined,
+      })),
+    })),
+    activeLeafId: activeLeafId ? ids.get(activeLeafId) ?? null : null,
+    contextSummary: summary && ids.has(summary.upToMessageId)
+      ? { ...summary, upToMessageId: ids.get(summary.upToMessageId)! }
+      : null,
+  };
+};
+
+const validateTree = (messages: Message[]) => {
+  const ids = new Set<string>();
+  for (const msg of messages) {
+    if (ids.has(msg.id)) throw new ConversationImportError(`Message id "${msg.id}" appears more than once.`);
+    ids.add(msg.id);
+  }
+  for (const msg of messages) {
+    if (msg.parentId && !ids.has(msg.parentId)) {
+      throw new ConversationImportError(`Message "${msg.id}" replies to a message that is not in the file.`);
+    }
+  }
+  // Every chain of replies must end at a root; a loop would hang the app.
+  const parents = new Map(messages.map(msg => [msg.id, msg.parentId ?? null]));
+  const rooted = new Set<string>();
+  for (const msg of messages) {
+    const chain = new Set<string>();
+    let id: string | null = msg.id;
+    while (id && !rooted.has(id)) {
+      if (chain.has(id)) throw new ConversationImportError(`Message "${id}" is among its own replies.`);
+      chain.add(id);
+      id = parents.get(id) ?? null;
+    }
+    chain.forEach(seen => rooted.add(seen));
+  }
+};
+
+/**
+ * Parses a JSON export into a new conversation. Also accepts a bare array of
+ * messages, the format older versions kept in localStorage.
+ */
+export const parseConversationImport = (text: string): Conversation => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ConversationImportError("The file is not valid JSON.");
+  }
+
+  let source: Record<string, any>;
+  let messages: Message[];
+  if (Array.isArray(data)) {
+    source = {};
+    messages = chainMessages(data.map(parseMessage));
+  } else if (isRecord(data) && data.format === EXPORT_FORMAT && isRecord(data.conversation)) {
+    if (typeof data.version !== 'number' || data.version > EXPORT_VERSION) {
+      throw new ConversationImportError("This file was exported by a newer version of Zuno AI.");
+    }
+    source = data.conversation;
+    if (!Array.isArray(source.messages)) throw new ConversationImportError("The file has no messages.");
+    messages = source.messages.map(parseMessage);
+  } else {
+    throw new ConversationImportError("This is not a Zuno AI conversation export.");
+  }
+
+  if (messages.length === 0) throw new ConversationImportError("The file has no messages.");
+  validateTree(messages);
+
+  const savedLeaf = typeof source.activeLeafId === 'string' && messages.some(msg => msg.id === source.activeLeafId)
+    ? source.activeLeafId
+    : messages[messages.length - 1].id;
+  const summary = isRecord(source.contextSummary)
+    && typeof source.contextSummary.upToMessageId === 'string'
+    && typeof source.contextSummary.content === 'string'
+    ? { upToMessageId: source.contextSummary.upToMessageId, content: source.contextSummary.content }
+    : null;
+  const imported = reassignIds(messages, savedLeaf, summary);
+
+  // An unknown persona id falls back to the first persona when the chat is used.
+  const conversation = createConversation(imported.messages, typeof source.personaId === 'string' ? source.personaId : undefined);
+  return {
+    ...conversation,
+    title: typeof source.title === 'string' && source.title.trim() ? source.title.trim() : conversation.title,
+    createdAt: source.createdAt ? parseDate(source.createdAt, "The conversation") : imported.messages[0].timestamp,
+    session: {
+      ...createSessionState(imported.messages, imported.activeLeafId),
+      contextSummary: imported.contextSummary,
+    },
+  };
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,113 @@
+import { ChatSessionState, Conversation, Message, Role } from "../types";
+import { chainMessages } from "./messageTree";
+import { fromLegacyImage } from "./attachments";
+import { DEFAULT_PERSONA } from "./personas";
+
+const STORAGE_KEY = 'zuno_conversations';
+const ACTIVE_KEY = 'zuno_active_conversation';
+const LEGACY_STORAGE_KEY = 'zuno_chat_history';
+
+export const DEFAULT_TITLE = "New Chat";
+
+export const createSessionState = (
+  messages: Message[] = [],
+  activeLeafId: string | null = messages[messages.length - 1]?.id ?? null
+): ChatSessionState => ({
+  messages,
+  activeLeafId,
+  contextSummary: null,
+  isLoading: false,
+  isStreaming: false,
+  error: null,
+});
+
+export const createConversation = (messages: Message[] = [], personaId = DEFAULT_PERSONA.id): Conversation => {
+  const now = new Date();
+  return {
+    id: `conv_${now.getTime()}_${Math.random().toString(36).slice(2, 8)}`,
+    title: deriveTitle(messages),
+    pinned: false,
+    personaId,
+    createdAt: now,
+    updatedAt: now,
+    session: createSessionState(messages),
+  };
+};
+
+/**
+ * Builds a short title from the first user prompt of a conversation.
+ */
+export const deriveTitle = (messages: Message[]) => {
+  const firstPrompt = messages.find(msg => msg.role === Role.USER && msg.content.trim());
+  if (!firstPrompt) return DEFAULT_TITLE;
+
+  const text = firstPrompt.content.replace(/\s+/g, ' ').trim();
+  return text.length > 40 ? `${text.slice(0, 40).trimEnd()}…` : text;
+};
+
+/**
+ * Pinned conversations first, then most recently updated.
+ */
+export const sortConversations = (conversations: Conversation[]) =>
+  [...conversations].sort((a, b) => {
+    if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+    return b.updatedAt.getTime() - a.updatedAt.getTime();
+  });
+
+const hydrateMessages = (messages: any[]): Message[] =>
+  chainMessages(messages.map(({ image, ...msg }) => ({
+    ...msg,
+    timestamp: new Date(msg.timestamp),
+    ...(image ? { attachments: [fromLegacyImage(msg.id, image)] } : {}),
+  })));
+
+/**
+ * Reads conversations persisted to localStorage by earlier versions of the
+ * app: the multi-thread list, or else the single global history, which
+ * becomes the first conversation. Only used to migrate into IndexedDB.
+ */
+export const loadLocalStorageConversations = (): Conversation[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved) {
+    try {
+      const parsed: any[] = JSON.parse(saved);
+      return parsed.map(conv => ({
+        ...conv,
+        personaId: DEFAULT_PERSONA.id,
+        createdAt: new Date(conv.createdAt),
+        updatedAt: new Date(conv.updatedAt),
+        session: createSessionState(hydrateMessages(conv.session.messages)),
+      }));
+    } catch (err) {
+      console.error("Failed to load conversations:", err);
+    }
+  }
+
+  const legacyHistory = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacyHistory) {
+    try {
+      const messages = hydrateMessages(JSON.parse(legacyHistory));
+      if (messages.length > 0) {
+        const migrated = createConversation(messages);
+        migrated.createdAt = messages[0].timestamp;
+        migrated.updatedAt = messages[messages.length - 1].timestamp;
+        return [migrated];
+      }
+    } catch (err) {
+      console.error("Failed to migrate chat history:", err);
+    }
+  }
+
+  return [];
+};
+
+export const clearLocalStorageConversations = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+export const loadActiveConversationId = () => localStorage.getItem(ACTIVE_KEY);
+
+export const saveActiveConversationId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
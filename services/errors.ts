@@ -0,0 +1,159 @@
+import { ChatErrorKind, MessageError } from "../types";
+
+interface ChatErrorOptions {
+  retryable?: boolean;
+  status?: number;
+  cause?: unknown;
+}
+
+/**
+ * Base class for failures talking to a model provider. Providers throw one of
+ * the subclasses below so the UI can explain what went wrong and whether
+ * trying again makes sense.
+ */
+export class ChatError extends Error {
+  readonly kind: ChatErrorKind;
+  readonly retryable: boolean;
+  readonly status?: number;
+
+  constructor(kind: ChatErrorKind, message: string, options: ChatErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ChatError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+  }
+
+  toMessageError(): MessageError {
+    return { kind: this.kind, message: this.message };
+  }
+}
+
+export class AuthError extends ChatError {
+  constructor(message = "The API key was rejected. Check that it is valid and has access to this model.", options: ChatErrorOptions = {}) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ChatError {
+  constructor(message = "Rate limit or quota exceeded. Wait a moment and try again.", options: ChatErrorOptions = {}) {
+    super('rate-limit', message, { ...options, retryable: true });
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyBlockError extends ChatError {
+  readonly blockReason: string;
+
+  constructor(blockReason: string, options: ChatErrorOptions = {}) {
+    super('safety', `The response was blocked by safety filters (${blockReason}). Try rephrasing your request.`, options);
+    this.name = 'SafetyBlockError';
+    this.blockReason = blockReason;
+  }
+
+  toMessageError(): MessageError {
+    return { ...super.toMessageError(), blockReason: this.blockReason };
+  }
+}
+
+export class NetworkError extends ChatError {
+  constructor(message = "Could not reach the model server. Check your connection.", options: ChatErrorOptions = {}) {
+    super('network', message, { ...options, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ModelNotFoundError extends ChatError {
+  constructor(message = "The model was not found. Check the model id in Settings.", options: ChatErrorOptions = {}) {
+    super('model-not-found', message, options);
+    this.name = 'ModelNotFoundError';
+  }
+}
+
+export class ContextTooLongError extends ChatError {
+  constructor(message = "This conversation is too long for the model. Lower the token budget in Settings or start a new chat.", options: ChatErrorOptions = {}) {
+    super('context-too-long', message, options);
+    this.name = 'ContextTooLongError';
+  }
+}
+
+export class ServiceUnavailableError extends ChatError {
+  constructor(message = "The model service is temporarily unavailable. Try again shortly.", options: ChatErrorOptions = {}) {
+    super('unavailable', message, { ...options, retryable: true });
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export const isAbortError = (error: any) => error?.name === 'AbortError';
+
+/**
+ * Maps whatever a provider SDK or `fetch` threw onto the taxonomy above,
+ * using the HTTP status when there is one and the message text otherwise.
+ */
+export const classifyError = (error: any): ChatError => {
+  if (error instanceof ChatError) return error;
+
+  const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+  const message: string = error?.message ?? String(error);
+  const text = message.toLowerCase();
+  const options = { status, cause: error };
+
+  if (/input token count|maximum number of tokens|too many tokens|context (length|window)|prompt is too long/.test(text)) {
+    return new ContextTooLongError(undefined, options);
+  }
+  if (status === 401 || status === 403 || /api key|permission denied|unauthenticated|unauthori[sz]ed/.test(text)) {
+    return new AuthError(undefined, options);
+  }
+  if (status === 429 || /resource_exhausted|rate limit|quota/.test(text)) {
+    return new RateLimitError(undefined, options);
+  }
+  if (status === 404 || /entity was not found|model.*not found|not_found/.test(text)) {
+    return new ModelNotFoundError(undefined, options);
+  }
+  if ((status !== undefined && status >= 500) || /unavailable|overloaded|internal error/.test(text)) {
+    return new ServiceUnavailableError(undefined, options);
+  }
+  if (error instanceof TypeError || /failed to fetch|network|econnrefused|timed? ?out/.test(text)) {
+    return new NetworkError(undefined, options);
+  }
+  return new ChatError('unknown', message || "An unexpected error occurred.", options);
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 16000;
+const MAX_ATTEMPTS = 4;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+/**
+ * Runs `operation`, retrying transient failures with exponential backoff and
+ * full jitter. `canRetry` lets streaming callers refuse once output has
+ * reached the user, since a retry would duplicate it.
+ */
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: { signal?: AbortSignal; canRetry?: () => boolean } = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error: any) {
+      if (options.signal?.aborted || isAbortError(error)) throw error;
+      const chatError = classifyError(error);
+      const canRetry = chatError.retryable && attempt < MAX_ATTEMPTS && (options.canRetry?.() ?? true);
+      if (!canRetry) throw chatError;
+
+      const delay = Math.random() * Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+      console.warn(`${chatError.name} on attempt ${attempt}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+};
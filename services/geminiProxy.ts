@@ -0,0 +1,137 @@
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from "@google/genai";
+
+/**
+ * Wire format shared by the browser and the proxy in `server/`. Requests are
+ * the SDK parameters as JSON; streamed answers come back as server-sent
+ * events carrying the raw `GenerateContentResponse` chunks, so geminiService
+ * handles them exactly like SDK output.
+ */
+
+export const PROXY_ROUTES = {
+  chatStream: '/api/chat/stream',
+  imageTask: '/api/image',
+  countTokens: '/api/count-tokens',
+  health: '/api/health',
+};
+
+// Carries the proxy's client token (PROXY_CLIENT_TOKEN in server/index.ts), when it has one.
+export const PROXY_TOKEN_HEADER = 'x-proxy-token';
+
+export type ProxyEventName = 'chunk' | 'done' | 'error';
+
+export interface ProxyErrorBody {
+  message: string;
+  status: number; // upstream or proxy HTTP status
+}
+
+export const formatServerSentEvent = (event: ProxyEventName, data: unknown) =>
+  `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Splits a `text/event-stream` body into events. Comment lines (used as
+ * keep-alives) are skipped.
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let event = 'message';
+  let data: string[] = [];
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line === '') {
+        if (data.length > 0) yield { event, data: data.join('\n') };
+        event = 'message';
+        data = [];
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        data.push(line.slice(5).trimStart());
+      }
+    }
+  }
+}
+
+/**
+ * The model calls geminiService makes. `GoogleGenAI.models` is the direct
+ * implementation; {@link createProxyTransport} sends the same calls to the proxy.
+ */
+export interface GeminiTransport {
+  generateContentStream(params: GenerateContentParameters): Promise<AsyncGenerator<GenerateContentResponse>>;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  countTokens(params: CountTokensParameters): Promise<CountTokensResponse>;
+}
+
+// Errors carry the HTTP status so `classifyError` treats them like SDK errors.
+const proxyError = ({ message, status }: ProxyErrorBody) => Object.assign(new Error(message), { status });
+
+const readErrorBody = async (response: Response): Promise<ProxyErrorBody> => {
+  try {
+    const body = await response.json();
+    return { message: body.error?.message ?? response.statusText, status: response.status };
+  } catch {
+    return { message: `The proxy answered ${response.status} ${response.statusText}`, status: response.status };
+  }
+};
+
+// Everything but the abort signal is plain data and can be serialized.
+const toRequestBody = ({ model, contents, config }: GenerateContentParameters | CountTokensParameters) => {
+  const { abortSignal, ...rest } = (config ?? {}) as GenerateContentParameters['config'] & {};
+  return { body: { model, contents, config: rest }, signal: abortSignal };
+};
+
+async function* readChunks(response: Response) {
+  for await (const { event, data } of readServerSentEvents(response.body!)) {
+    if (event === 'chunk') yield JSON.parse(data) as GenerateContentResponse;
+    else if (event === 'error') throw proxyError(JSON.parse(data));
+    else if (event === 'done') return;
+  }
+  throw proxyError({ message: "The proxy closed the stream before the answer was complete.", status: 502 });
+}
+
+export const checkProxyHealth = async (baseUrl: string, signal?: AbortSignal) => {
+  try {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${PROXY_ROUTES.health}`, { cache: 'no-store', signal });
+    return response.ok;
+  } catch {
+    return false;
+  }
+};
+
+export const createProxyTransport = (baseUrl: string, token?: string): GeminiTransport => {
+  const post = async (route: string, params: GenerateContentParameters | CountTokensParameters) => {
+    const { body, signal } = toRequestBody(params);
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${route}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { [PROXY_TOKEN_HEADER]: token } : {}) },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) throw proxyError(await readErrorBody(response));
+    return response;
+  };
+
+  return {
+    generateContentStream: async (params) => readChunks(await post(PROXY_ROUTES.chatStream, params)),
+    generateContent: async (params) => {
+      let result: GenerateContentResponse | undefined;
+      for await (const chunk of readChunks(await post(PROXY_ROUTES.imageTask, params))) {
+        result = chunk;
+      }
+      return result ?? {} as GenerateContentResponse;
+    },
+    countTokens: async (params) => (await post(PROXY_ROUTES.countTokens, params)).json(),
+  };
+};
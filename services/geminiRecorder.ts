@@ -0,0 +1,227 @@
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from "@google/genai";
+import { GeminiTransport } from "./geminiProxy";
+
+/**
+ * Record and replay for the Gemini transport. A recording transport wraps a
+ * real one and notes every request, each streamed chunk with the time since
+ * the one before, and any error. A replay transport answers from such a
+ * recording, so geminiService runs the same code path with no key or network.
+ */
+
+export const FIXTURE_VERSION = 1;
+
+type TransportMethod = keyof GeminiTransport;
+
+// What a request looks like on the wire: the abort signal is left out.
+export interface RecordedRequest {
+  model: string;
+  contents: unknown;
+  config?: Record<string, unknown>;
+}
+
+export interface RecordedChunk {
+  delayMs: number; // since the request, or since the previous chunk
+  response: GenerateContentResponse;
+}
+
+export interface RecordedError {
+  message: string;
+  status?: number;
+}
+
+export interface RecordedCall {
+  method: TransportMethod;
+  request: RecordedRequest;
+  chunks?: RecordedChunk[]; // generateContentStream only
+  response?: GenerateContentResponse | CountTokensResponse;
+  delayMs?: number; // until `response` or `error`
+  error?: RecordedError; // thrown at the end, after any chunks
+}
+
+export interface GeminiFixture {
+  version: number;
+  name: string;
+  recordedAt: string;
+  calls: RecordedCall[];
+}
+
+export class FixtureMismatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FixtureMismatchError';
+  }
+}
+
+// SDK responses are class instances with getters; only the data is kept.
+const toPlain = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// The HTTP headers the SDK attaches vary per run and are not read by geminiService.
+const toRecordedResponse = <T>(response: T): T => {
+  const { sdkHttpResponse: _sdkHttpResponse, ...rest } = toPlain(response) as T & { sdkHttpResponse?: unknown };
+  return rest as T;
+};
+
+const toRecordedRequest = ({ model, contents, config }: GenerateContentParameters | CountTokensParameters): RecordedRequest => {
+  const { abortSignal: _abortSignal, ...rest } = (config ?? {}) as GenerateContentParameters['config'] & {};
+  return toPlain(Object.keys(rest).length > 0 ? { model, contents, config: rest } : { model, contents });
+};
+
+const toRecordedError = (error: any): RecordedError => ({
+  message: error?.message ?? String(error),
+  ...(typeof error?.status === 'number' ? { status: error.status } : {}),
+});
+
+// Carries the status like SDK and proxy errors, so `classifyError` sorts it the same way.
+const toError = ({ message, status }: RecordedError) => Object.assign(new Error(message), { status });
+
+export interface GeminiRecorder {
+  transport: GeminiTransport;
+  /** Everything recorded so far, ready to be written as JSON. */
+  toFixture: (name: string) => GeminiFixture;
+}
+
+export const createRecordingTransport = (inner: GeminiTransport, now: () => number = Date.now): GeminiRecorder => {
+  const calls: RecordedCall[] = [];
+
+  // Calls are logged when they start, so the fixture keeps request order.
+  const begin = (method: TransportMethod, params: GenerateContentParameters | CountTokensParameters) => {
+    const call: RecordedCall = { method, request: toRecordedRequest(params) };
+    calls.push(call);
+    return call;
+  };
+
+  const recordUnary = async <T>(call: RecordedCall, request: () => Promise<T>) => {
+    const startedAt = now();
+    try {
+      const response = await request();
+      call.response = toRecordedResponse(response) as RecordedCall['response'];
+      return response;
+    } catch (error) {
+      call.error = toRecordedError(error);
+      throw error;
+    } finally {
+      call.delayMs = now() - startedAt;
+    }
+  };
+
+  async function* recordStream(call: RecordedCall, stream: AsyncGenerator<GenerateContentResponse>, startedAt: number) {
+    let last = startedAt;
+    try {
+      for await (const chunk of stream) {
+        const at = now();
+        call.chunks!.push({ delayMs: at - last, response: toRecordedResponse(chunk) });
+        last = at;
+        yield chunk;
+      }
+    } catch (error) {
+      call.error = toRecordedError(error);
+      throw error;
+    }
+  }
+
+  return {
+    transport: {
+      generateContentStream: async (params) => {
+        const call = begin('generateContentStream', params);
+        call.chunks = [];
+        const startedAt = now();
+        try {
+          return recordStream(call, await inner.generateContentStream(params), startedAt);
+        } catch (error) {
+          call.error = toRecordedError(error);
+          throw error;
+        }
+      },
+      generateContent: (params) => recordUnary(begin('generateContent', params), () => inner.generateContent(params)),
+      countTokens: (params) => recordUnary(begin('countTokens', params), () => inner.countTokens(params)),
+    },
+    toFixture: (name) => ({ version: FIXTURE_VERSION, name, recordedAt: new Date().toISOString(), calls: toPlain(calls) }),
+  };
+};
+
+export interface ReplayOptions {
+  /** 'original' waits as long between chunks as the recording did. */
+  pacing?: 'instant' | 'original';
+  /** Fail when a request differs from the recorded one. On by default. */
+  strict?: boolean;
+}
+
+export interface ReplayTransport extends GeminiTransport {
+  /** Recorded calls not yet replayed. */
+  remaining: () => number;
+}
+
+const abortError = () => new DOMException("The operation was aborted.", 'AbortError');
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    if (ms <= 0) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+
+/**
+ * Answers calls from `fixture` in the order they were recorded. Stopping a
+ * request through its abort signal behaves as it does against the API.
+ */
+export const createReplayTransport = (fixture: GeminiFixture, options: ReplayOptions = {}): ReplayTransport => {
+  const { pacing = 'instant', strict = true } = options;
+  if (fixture.version !== FIXTURE_VERSION) {
+    throw new FixtureMismatchError(`Fixture "${fixture.name}" has version ${fixture.version}; this build reads version ${FIXTURE_VERSION}.`);
+  }
+  let next = 0;
+
+  const take = (method: TransportMethod, params: GenerateContentParameters | CountTokensParameters) => {
+    const position = next + 1;
+    const call = fixture.calls[next++];
+    if (!call) {
+      throw new FixtureMismatchError(`Fixture "${fixture.name}" has no call #${position}: only ${fixture.calls.length} were recorded.`);
+    }
+    if (call.method !== method) {
+      throw new FixtureMismatchError(`Call #${position} of "${fixture.name}" was recorded as ${call.method}, not ${method}.`);
+    }
+    if (strict && JSON.stringify(toRecordedRequest(params)) !== JSON.stringify(call.request)) {
+      throw new FixtureMismatchError(`The request for call #${position} of "${fixture.name}" differs from the recorded one. Record the fixture again if the change is intended.`);
+    }
+    return call;
+  };
+
+  const pause = (delayMs: number | undefined, signal?: AbortSignal) =>
+    wait(pacing === 'original' ? delayMs ?? 0 : 0, signal);
+
+  async function* replayStream(call: RecordedCall, signal?: AbortSignal) {
+    for (const chunk of call.chunks ?? []) {
+      await pause(chunk.delayMs, signal);
+      yield chunk.response;
+    }
+    if (call.error) throw toError(call.error);
+  }
+
+  const replayUnary = async <T>(call: RecordedCall, signal?: AbortSignal): Promise<T> => {
+    await pause(call.delayMs, signal);
+    if (call.error) throw toError(call.error);
+    return call.response as T;
+  };
+
+  return {
+    generateContentStream: async (params) => {
+      const call = take('generateContentStream', params);
+      const signal = params.config?.abortSignal;
+      // An error before any chunk means the request itself failed.
+      if (call.error && !call.chunks?.length) return replayUnary(call, signal);
+      return replayStream(call, signal);
+    },
+    generateContent: async (params) => replayUnary(take('generateContent', params), params.config?.abortSignal),
+    countTokens: async (params) => replayUnary(take('countTokens', params), params.config?.abortSignal),
+    remaining: () => fixture.calls.length - next,
+  };
+};
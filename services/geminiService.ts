@@ -1,121 +1,289 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
-import { Role, Message } from "../types";
+import { GoogleGenAI, GenerateContentResponse, FunctionCallingConfigMode } from "@google/genai";
+import {
+  Attachment,
+  Role,
+  Message,
+  ChatProvider,
+  ChatStreamOptions,
+  GeminiModelConfig,
+  GeminiSettings,
+  ImageTaskResult,
+  InlineImage,
+  TokenUsage,
+} from "../types";
+import { AuthError, SafetyBlockError, classifyError, withRetry } from "./errors";
+import { decodeText } from "./attachments";
+import { DEFAULT_PERSONA } from "./personas";
+import { GeminiTransport, checkProxyHealth, createProxyTransport } from "./geminiProxy";
+import { probeUrl } from "./connectivity";
+import { addUsage } from "./usage";
+
+export const DEFAULT_GEMINI_MODELS: GeminiModelConfig = {
+  chatModel: 'gemini-3-flash-preview',
+  reasoningModel: 'gemini-3-pro-preview',
+  imageModel: 'gemini-2.5-flash-image',
+};
+
+// Builds carry no key unless they opt in (see vite.config.ts), so they go through the proxy.
+export const DEFAULT_GEMINI_SETTINGS: GeminiSettings = {
+  ...DEFAULT_GEMINI_MODELS,
+  transport: process.env.GEMINI_PROXY_URL || !process.env.API_KEY ? 'proxy' : 'direct',
+  proxyUrl: process.env.GEMINI_PROXY_URL || 'http://localhost:8787',
+};
 
 const getAIClient = () => {
   if (!process.env.API_KEY) {
-    throw new Error("API Key is not configured in the environment.");
+    throw new AuthError("API Key is not configured in the environment. Set GEMINI_API_KEY or connect through the proxy server in Settings.");
   }
   return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
+type GeminiCallOptions = ChatStreamOptions & { models?: GeminiModelConfig; transport?: GeminiTransport };
+
+const getTransport = (options: { transport?: GeminiTransport }): GeminiTransport =>
+  options.transport ?? getAIClient().models;
+
+const BLOCKING_FINISH_REASONS = new Set([
+  'SAFETY',
+  'PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+  'RECITATION',
+  'IMAGE_SAFETY',
+  'IMAGE_PROHIBITED_CONTENT',
+]);
+
+/**
+ * Throws if the prompt or the answer was stopped by safety filters, which the
+ * API reports inside an otherwise successful response.
+ */
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockError(blockReason);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKING_FINISH_REASONS.has(finishReason)) throw new SafetyBlockError(finishReason);
+};
+
+// Stream chunks carry running totals, so the last one seen holds the final counts.
+const toTokenUsage = (model: string, metadata: GenerateContentResponse['usageMetadata']): TokenUsage => ({
+  model,
+  promptTokens: (metadata?.promptTokenCount ?? 0) + (metadata?.toolUsePromptTokenCount ?? 0),
+  outputTokens: metadata?.candidatesTokenCount ?? 0,
+  thinkingTokens: metadata?.thoughtsTokenCount ?? 0,
+  cachedTokens: metadata?.cachedContentTokenCount ?? 0,
+});
+
+/**
+ * Text and source files go in as text so any MIME type works; images, PDFs
+ * and audio are sent as inline data for the model to read natively.
+ */
+const toPart = (att: Attachment) =>
+  att.kind === 'text'
+    ? { text: `--- ${att.name} ---\n${decodeText(att)}` }
+    : { inlineData: { data: att.data, mimeType: att.mimeType } };
+
+/**
+ * Converts the history and the new prompt into Gemini `contents`. Past
+ * attachments are sent inline too, unless the context manager already
+ * stripped them.
+ */
+const buildContents = (history: Message[], newMessage: string, attachments: Attachment[] = []) => {
+  // Stopped turns can be empty, and the API rejects empty text parts.
+  const formattedHistory = history.filter(msg => msg.content || msg.attachments?.length).map(msg => {
+    const parts: any[] = (msg.attachments ?? []).map(toPart);
+    if (msg.content) {
+      parts.push({ text: msg.content });
+    }
+    return { role: msg.role === Role.USER ? 'user' : 'model', parts };
+  });
+
+  const parts: any[] = attachments.map(toPart);
+  parts.push({ text: newMessage });
+
+  return [...formattedHistory, { role: 'user', parts }];
+};
+
+// The model can chain calls (convert, then calculate, ...) but must not loop forever.
+const MAX_TOOL_ROUNDS = 8;
+
+// Decide model: the persona's own choice if it has one, otherwise the reasoning
+// model for thinking or reading attachments and the chat model for standard chat
+const pickChatModel = (options: ChatStreamOptions, models: GeminiModelConfig) =>
+  options.persona?.model
+    || ((options.thinking || options.attachments?.length) ? models.reasoningModel : models.chatModel);
+
+export const countTokens = async (
+  history: Message[],
+  newMessage: string,
+  options: GeminiCallOptions = {}
+) => {
+  const transport = getTransport(options);
+  const response = await withRetry(() => transport.countTokens({
+    model: pickChatModel(options, options.models ?? DEFAULT_GEMINI_MODELS),
+    contents: buildContents(history, newMessage, options.attachments),
+  }), { signal: options.signal });
+  return response.totalTokens ?? 0;
+};
+
 export const startChatStream = async (
   history: Message[],
   newMessage: string,
   onChunk: (text: string) => void,
-  options: { thinking?: boolean; image?: { data: string; mimeType: string } } = {}
+  options: GeminiCallOptions = {}
 ) => {
-  const ai = getAIClient();
-  
-  // Decide model: 3-pro-preview for thinking or image analysis, 3-flash-preview for standard chat
-  const model = (options.thinking || options.image) ? 'gemini-3-pro-preview' : 'gemini-3-flash-preview';
-  
-  const formattedHistory = history.map(msg => ({
-    role: msg.role === Role.USER ? 'user' : 'model',
-    parts: [{ text: msg.content }]
-  }));
-
-  const contents: any = { parts: [] };
-  
-  // Add image if provided (Image Understanding feature)
-  if (options.image) {
-    contents.parts.push({
-      inlineData: {
-        data: options.image.data,
-        mimeType: options.image.mimeType,
-      },
-    });
-  }
-  
-  contents.parts.push({ text: newMessage });
+  const transport = getTransport(options);
+  const model = pickChatModel(options, options.models ?? DEFAULT_GEMINI_MODELS);
+
+  const persona = options.persona ?? DEFAULT_PERSONA;
 
   const config: any = {
-    systemInstruction: "You are Zuno, a helpful AI assistant. Format your responses with clear markdown. Be direct, intelligent, and helpful.",
-    temperature: 0.7,
-    topP: 0.95,
-    topK: 64,
+    systemInstruction: persona.systemPrompt || undefined,
+    temperature: persona.temperature,
+    topP: persona.topP,
+    topK: persona.topK,
   };
 
+  if (persona.maxOutputTokens > 0) {
+    config.maxOutputTokens = persona.maxOutputTokens;
+  }
+
   // Add thinking budget for complex reasoning (Thinking Mode feature)
   if (options.thinking) {
-    config.thinkingConfig = { thinkingBudget: 32768 };
+    config.thinkingConfig = { thinkingBudget: persona.thinkingBudget, includeThoughts: !!options.onThought };
+  }
+
+  if (options.signal) {
+    config.abortSignal = options.signal;
+  }
+
+  if (options.tools?.declarations.length) {
+    config.tools = [{
+      functionDeclarations: options.tools.declarations.map(({ name, description, parameters }) => ({
+        name,
+        description,
+        parametersJsonSchema: parameters,
+      })),
+    }];
   }
 
+  const contents = buildContents(history, newMessage, options.attachments);
+  let fullText = "";
+  // Every tool round is a separate billed request.
+  let usage: TokenUsage | null = null;
   try {
-    // For Pro model with thinking or image, we use generateContentStream
-    // We recreate history as part of the contents or use chat.
-    // For simplicity with streaming and specialized config, we use chat for standard but generateContentStream for specialized.
-    
-    // We'll use generateContentStream directly to ensure thinkingBudget is respected correctly
-    const streamResponse = await ai.models.generateContentStream({
-      model,
-      contents: [...formattedHistory.map(h => ({ role: h.role, parts: h.parts })), { role: 'user', parts: contents.parts }],
-      config,
-    });
-    
-    let fullText = "";
-    for await (const chunk of streamResponse) {
-      const c = chunk as GenerateContentResponse;
-      const text = c.text || "";
-      fullText += text;
-      onChunk(text);
+    // We use generateContentStream directly to ensure thinkingBudget is respected correctly.
+    // Each round streams one model turn; if it asks for tools, their results are
+    // appended and the next round continues the same reply.
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      let roundStreamed = false;
+      let modelParts: any[] = [];
+      let roundUsage: GenerateContentResponse['usageMetadata'];
+      await withRetry(async () => {
+        modelParts = [];
+        roundUsage = undefined;
+        // The last round has to answer with what it has.
+        const roundConfig = round === MAX_TOOL_ROUNDS - 1 && config.tools
+          ? { ...config, toolConfig: { functionCallingConfig: { mode: FunctionCallingConfigMode.NONE } } }
+          : config;
+        const streamResponse = await transport.generateContentStream({ model, contents, config: roundConfig });
+
+        for await (const chunk of streamResponse) {
+          if (options.signal?.aborted) break;
+          const c = chunk as GenerateContentResponse;
+          throwIfBlocked(c);
+          roundUsage = c.usageMetadata ?? roundUsage;
+          // Kept whole: function calls carry thought signatures the API expects back.
+          const parts = c.candidates?.[0]?.content?.parts ?? [];
+          modelParts.push(...parts);
+          for (const part of parts) {
+            if (!part.text) continue;
+            roundStreamed = true;
+            if (part.thought) {
+              options.onThought?.(part.text);
+              continue;
+            }
+            fullText += part.text;
+            onChunk(part.text);
+          }
+        }
+      }, {
+        signal: options.signal,
+        // Once text or thoughts have streamed to the user a retry would repeat them.
+        canRetry: () => !roundStreamed,
+      });
+      if (roundUsage) {
+        const spent = toTokenUsage(model, roundUsage);
+        usage = usage ? addUsage(usage, spent) : spent;
+        options.onUsage?.(usage);
+      }
+
+      const calls = modelParts.filter(part => part.functionCall).map(part => part.functionCall);
+      if (calls.length === 0 || !options.tools || options.signal?.aborted) return fullText;
+
+      const responses = [];
+      for (const [idx, call] of calls.entries()) {
+        const result = await options.tools.execute({
+          id: call.id ?? `call_${Date.now()}_${round}_${idx}`,
+          name: call.name ?? '',
+          args: call.args ?? {},
+        }, options.signal);
+        responses.push({
+          functionResponse: {
+            id: call.id,
+            name: call.name,
+            response: result.status === 'done' ? { output: result.result } : { error: result.error },
+          },
+        });
+      }
+      if (options.signal?.aborted) return fullText;
+      contents.push({ role: 'model', parts: modelParts }, { role: 'user', parts: responses });
     }
-    
     return fullText;
   } catch (error: any) {
+    if (options.signal?.aborted) throw error;
     console.error("Gemini API Error:", error);
-    if (error.message?.includes("entity was not found")) {
-      throw new Error("The API configuration seems invalid. Please check your project settings.");
-    }
-    throw error;
+    throw classifyError(error);
   }
 };
 
+// The image models take no mask parameter, so the mask travels as a second image with instructions.
+const MASK_INSTRUCTION = "The second image is a mask of the first. Change only the areas that are white in the mask and keep everything in the black areas exactly as it is.";
+
 /**
- * Handles image editing or generation tasks using Gemini 2.5 Flash Image.
+ * Handles image editing or generation tasks using the Gemini image model.
  */
 export const processImageTask = async (
   prompt: string,
-  imageData?: { data: string; mimeType: string }
-) => {
-  const ai = getAIClient();
-  const model = 'gemini-2.5-flash-image';
-
-  const parts: any[] = [{ text: prompt }];
-  if (imageData) {
-    parts.unshift({
-      inlineData: {
-        data: imageData.data,
-        mimeType: imageData.mimeType,
-      },
-    });
-  }
+  imageData?: InlineImage,
+  options: { model?: string; signal?: AbortSignal; transport?: GeminiTransport; mask?: InlineImage } = {}
+): Promise<ImageTaskResult> => {
+  const transport = getTransport(options);
+  const model = options.model ?? DEFAULT_GEMINI_MODELS.imageModel;
+
+  const images = imageData ? [imageData, ...(options.mask ? [options.mask] : [])] : [];
+  const parts: any[] = [
+    ...images.map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } })),
+    { text: images.length > 1 ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt },
+  ];
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await withRetry(() => transport.generateContent({
       model,
       contents: { parts },
-    });
+      config: options.signal ? { abortSignal: options.signal } : undefined,
+    }), { signal: options.signal });
+    throwIfBlocked(response);
 
     let resultText = "";
-    let resultImage = null;
+    let resultImage: InlineImage | null = null;
 
     if (response.candidates?.[0]?.content?.parts) {
       for (const part of response.candidates[0].content.parts) {
         if (part.inlineData) {
           resultImage = {
-            data: part.inlineData.data,
-            mimeType: part.inlineData.mimeType,
+            data: part.inlineData.data ?? "",
+            mimeType: part.inlineData.mimeType ?? "image/png",
           };
         } else if (part.text) {
           resultText += part.text;
@@ -123,9 +291,66 @@ export const processImageTask = async (
       }
     }
 
-    return { text: resultText || "Here is your edited image.", image: resultImage };
+    return {
+      text: resultText || "Here is your edited image.",
+      image: resultImage,
+      usage: response.usageMetadata ? toTokenUsage(model, response.usageMetadata) : undefined,
+    };
   } catch (error: any) {
+    if (options.signal?.aborted) throw error;
     console.error("Image Processing Error:", error);
-    throw error;
+    throw classifyError(error);
   }
 };
+
+const GEMINI_API_ORIGIN = 'https://generativelanguage.googleapis.com/';
+
+// Set by builds made with GEMINI_REPLAY_FIXTURE, for demos that answer from a recording.
+// The recorder is only loaded then, so other builds leave it out.
+const demoReplayTransport = (): GeminiTransport | undefined => {
+  if (!process.env.GEMINI_REPLAY_FIXTURE) return undefined;
+  const fixture = JSON.parse(process.env.GEMINI_REPLAY_FIXTURE);
+  const replay = import("./geminiRecorder").then(({ createReplayTransport }) =>
+    createReplayTransport(fixture, { pacing: 'original', strict: false }));
+  return {
+    generateContentStream: async (params) => (await replay).generateContentStream(params),
+    generateContent: async (params) => (await replay).generateContent(params),
+    countTokens: async (params) => (await replay).countTokens(params),
+  };
+};
+
+/**
+ * `transportOverride` replaces the configured connection, e.g. with a replay
+ * transport in tests.
+ */
+export const createGeminiProvider = (
+  settings: GeminiSettings = DEFAULT_GEMINI_SETTINGS,
+  transportOverride?: GeminiTransport
+): ChatProvider => {
+  const models: GeminiModelConfig = settings;
+  // Undefined means calling Google directly with the key from the build.
+  const transport = transportOverride
+    ?? demoReplayTransport()
+    ?? (settings.transport === 'proxy' ? createProxyTransport(settings.proxyUrl, process.env.GEMINI_PROXY_TOKEN || undefined) : undefined);
+
+  return {
+    id: 'gemini',
+    label: "Gemini",
+    capabilities: {
+      streaming: true,
+      attachmentKinds: ['image', 'pdf', 'text', 'audio'],
+      imageOutput: true,
+      thinking: true,
+      tools: true,
+    },
+    checkHealth: (signal) => transportOverride || process.env.GEMINI_REPLAY_FIXTURE
+      ? Promise.resolve(true)
+      : settings.transport === 'proxy' ? checkProxyHealth(settings.proxyUrl, signal) : probeUrl(GEMINI_API_ORIGIN, signal),
+    countTokens: (history, newMessage, options = {}) =>
+      countTokens(history, newMessage, { ...options, models, transport }),
+    startChatStream: (history, newMessage, onChunk, options = {}) =>
+      startChatStream(history, newMessage, onChunk, { ...options, models, transport }),
+    processImageTask: (prompt, imageData, signal, mask) =>
+      processImageTask(prompt, imageData, { model: models.imageModel, signal, transport, mask }),
+  };
+};
@@ -0,0 +1,132 @@
+import { Attachment, ImageOutputFormat, ImageUploadSettings } from "../types";
+import { AttachmentError, createAttachmentId, isSendableImageType, readAttachment } from "./attachments";
+import { blobToBase64 } from "./blobUtils";
+
+/**
+ * Shrinks and cleans picked images before they are attached. Every image is
+ * sent again with each later turn of the conversation, so a 12-megapixel
+ * photo costs far more than the detail the model can use. Drawing through a
+ * canvas also applies the EXIF orientation and leaves all metadata behind.
+ */
+
+export const DEFAULT_IMAGE_UPLOAD_SETTINGS: ImageUploadSettings = {
+  optimize: true,
+  maxDimension: 2048,
+  format: 'original',
+  quality: 0.85,
+  stripMetadata: true,
+};
+
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+
+export const IMAGE_FORMAT_OPTIONS: { id: ImageOutputFormat; label: string }[] = [
+  { id: 'original', label: "Keep original" },
+  { id: 'image/jpeg', label: "JPEG" },
+  { id: 'image/webp', label: "WebP" },
+  { id: 'image/png', label: "PNG" },
+];
+
+// Decoding needs about four bytes per pixel, so very large scans are turned away
+// before they are decoded.
+const MAX_SOURCE_PIXELS = 100_000_000;
+
+const ENCODABLE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp']);
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp' };
+
+const formatLabel = (mimeType: string) => mimeType.replace('image/', '').toUpperCase() || "This format";
+
+// An <img> knows its size once loaded but only decodes the pixels when drawn.
+const readDimensions = (file: File) =>
+  new Promise<{ width: number; height: number } | null>(resolve => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    img.src = url;
+  });
+
+const checkPixels = (file: File, width: number, height: number) => {
+  if (width * height > MAX_SOURCE_PIXELS) {
+    throw new AttachmentError(`"${file.name}" is ${width} × ${height} pixels, too large to resize in the browser.`);
+  }
+};
+
+const decodeImage = (file: File) => createImageBitmap(file, { imageOrientation: 'from-image' }).catch(() => null);
+
+// Formats the canvas cannot write (HEIC, TIFF, ...) become JPEG.
+const outputTypeFor = (sourceType: string, format: ImageOutputFormat) =>
+  format !== 'original' ? format : ENCODABLE_TYPES.has(sourceType) ? sourceType : 'image/jpeg';
+
+const encodeCanvas = (canvas: HTMLCanvasElement, mimeType: string, quality: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new AttachmentError("The image could not be encoded.")), mimeType, quality)
+  );
+
+const renameFor = (name: string, mimeType: string) => {
+  const base = name.includes('.') ? name.slice(0, name.lastIndexOf('.')) : name || 'image';
+  return `${base}.${EXTENSIONS[mimeType] ?? 'img'}`;
+};
+
+/**
+ * Reads an image file as an attachment, downscaled and re-encoded according
+ * to `settings`. The file is read as it is when nothing would change.
+ */
+export const prepareImage = async (file: File, settings: ImageUploadSettings): Promise<Attachment> => {
+  if (!settings.optimize) return readAttachment(file);
+
+  const dimensions = await readDimensions(file);
+  if (dimensions) checkPixels(file, dimensions.width, dimensions.height);
+  const bitmap = await decodeImage(file);
+  if (!bitmap) {
+    // HEIC decodes in Safari only. The model reads it, so it can go as it is if metadata may stay.
+    if (isSendableImageType(file.type) && !settings.stripMetadata) return readAttachment(file);
+    throw new AttachmentError(isSendableImageType(file.type)
+      ? `${formatLabel(file.type)} images cannot be decoded in this browser, so the location data in "${file.name}" cannot be removed. Save it as JPEG, or turn off metadata stripping in Settings.`
+      : `${formatLabel(file.type)} images cannot be decoded in this browser, so "${file.name}" cannot be converted. Save it as JPEG or PNG first.`);
+  }
+  try {
+    const { width, height } = bitmap;
+    // Formats an <img> cannot show are only measured once decoded.
+    checkPixels(file, width, height);
+    const scale = Math.min(1, settings.maxDimension / Math.max(width, height));
+    const mimeType = outputTypeFor(file.type, settings.format);
+    if (scale === 1 && mimeType === file.type && !settings.stripMetadata && isSendableImageType(file.type)) {
+      return readAttachment(file);
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new AttachmentError(`"${file.name}" could not be resized.`);
+    if (mimeType === 'image/jpeg') {
+      // JPEG has no transparency; without a backdrop it would turn black.
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+    // Browsers without a WebP encoder hand back PNG; the blob type says which.
+    const blob = await encodeCanvas(canvas, mimeType, settings.quality);
+    const outputType = blob.type || mimeType;
+    return {
+      id: createAttachmentId(),
+      kind: 'image',
+      name: outputType === file.type ? file.name : renameFor(file.name, outputType),
+      mimeType: outputType,
+      size: blob.size,
+      data: await blobToBase64(blob),
+      originalSize: file.size,
+    };
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,76 @@
+import { Attachment, ChatMode, ChatProvider, ChatRoute, ProviderCapabilities } from "../types";
+import { KIND_LABELS } from "./attachments";
+
+export const ROUTE_OPTIONS: { mode: ChatMode; label: string; description: string }[] = [
+  { mode: 'auto', label: "Auto", description: "Let Zuno pick the right route" },
+  { mode: 'chat', label: "Chat", description: "Talk or ask questions" },
+  { mode: 'analyze', label: "Analyze image", description: "Describe or answer questions about an image" },
+  { mode: 'edit-image', label: "Edit image", description: "Change the attached image" },
+  { mode: 'generate-image', label: "Generate image", description: "Create a new image from text" },
+];
+
+export const getModeLabel = (mode: ChatMode) =>
+  ROUTE_OPTIONS.find(option => option.mode === mode)?.label ?? mode;
+
+/**
+ * Returns why `route` cannot be used for this message, or null if it can.
+ */
+export const getRouteProblem = (
+  route: ChatRoute,
+  attachments: Attachment[],
+  capabilities: ProviderCapabilities
+): string | null => {
+  const unsupported = attachments.find(att => !capabilities.attachmentKinds.includes(att.kind));
+  if (unsupported) return `The current provider cannot read ${KIND_LABELS[unsupported.kind]} attachments.`;
+  const hasImage = attachments.some(att => att.kind === 'image');
+  if ((route === 'analyze' || route === 'edit-image') && !hasImage) return "Attach an image first.";
+  if ((route === 'edit-image' || route === 'generate-image') && !capabilities.imageOutput) {
+    return "The current provider cannot produce images.";
+  }
+  return null;
+};
+
+const fallbackRoute = (hasImage: boolean): ChatRoute => hasImage ? 'analyze' : 'chat';
+
+const classifierPrompt = (content: string, attachments: Attachment[]) => [
+  "Classify the user's request into exactly one route.",
+  "- chat: conversation, questions, writing, code",
+  "- analyze: questions about the attached image (what is in it, identify, read, explain)",
+  "- edit-image: change the attached image (add, remove, recolor, restyle, filter)",
+  "- generate-image: create a brand new image from a description",
+  attachments.length > 0
+    ? `Attached files: ${attachments.map(att => `${att.name} (${KIND_LABELS[att.kind]})`).join(', ')}.`
+    : "Nothing is attached.",
+  "Reply with the route name only.",
+  "",
+  `Request: ${content}`,
+].join('\n');
+
+/**
+ * Resolves the mode picked in the input to a concrete route. Auto mode asks
+ * the model with a short, cheap classification call and falls back to plain
+ * chat or analysis when that fails or picks something impossible.
+ */
+export const resolveRoute = async (
+  provider: ChatProvider,
+  mode: ChatMode,
+  content: string,
+  attachments: Attachment[],
+  signal?: AbortSignal
+): Promise<ChatRoute> => {
+  if (mode !== 'auto') return mode;
+  const hasImage = attachments.some(att => att.kind === 'image');
+
+  // Without image output the only sensible choice is obvious; skip the call.
+  if (!provider.capabilities.imageOutput || !content.trim()) return fallbackRoute(hasImage);
+
+  try {
+    const answer = await provider.startChatStream([], classifierPrompt(content, attachments), () => {}, { signal });
+    const route = answer.toLowerCase().match(/chat|analyze|edit-image|generate-image/)?.[0] as ChatRoute | undefined;
+    if (route && !getRouteProblem(route, attachments, provider.capabilities)) return route;
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.warn("Route classification failed, falling back:", err);
+  }
+  return fallbackRoute(hasImage);
+};
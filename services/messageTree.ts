@@ -0,0 +1,63 @@
+import { Message } from "../types";
+
+/**
+ * Conversations are stored as a tree: every message points at the message it
+ * replies to through `parentId`, and regenerating or editing a turn adds a
+ * sibling instead of overwriting. The session's `activeLeafId` picks which
+ * branch is shown and sent to the model.
+ */
+
+// Tabs merge messages by id, so ids must not collide even when two tabs send at once.
+// randomUUID needs a secure context; a page served over plain http on the LAN falls back.
+export const createMessageId = (): string => crypto.randomUUID?.()
+  ?? Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * Links a flat, chronological list into a single branch.
+ */
+export const chainMessages = (messages: Message[]): Message[] =>
+  messages.map((msg, idx) => ({
+    ...msg,
+    parentId: idx === 0 ? null : messages[idx - 1].id,
+  }));
+
+export const getChildren = (messages: Message[], parentId: string | null) =>
+  messages
+    .filter(msg => (msg.parentId ?? null) === parentId)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+export const getSiblings = (messages: Message[], message: Message) =>
+  getChildren(messages, message.parentId ?? null);
+
+/**
+ * Walks from the leaf up to the root and returns the branch in order. A
+ * corrupt tree whose parents loop is cut where the loop closes.
+ */
+export const getActivePath = (messages: Message[], leafId: string | null): Message[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: Message[] = [];
+  const visited = new Set<string>();
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+};
+
+/**
+ * Follows the most recent reply at each level to find the leaf to show when
+ * switching onto a branch.
+ */
+export const findLatestLeaf = (messages: Message[], fromId: string): string => {
+  let leafId = fromId;
+  const visited = new Set([leafId]);
+  let children = getChildren(messages, leafId);
+  while (children.length > 0 && !visited.has(children[children.length - 1].id)) {
+    leafId = children[children.length - 1].id;
+    visited.add(leafId);
+    children = getChildren(messages, leafId);
+  }
+  return leafId;
+};
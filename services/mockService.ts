@@ -0,0 +1,85 @@
+import { ChatProvider } from "../types";
+
+const CHUNK_DELAY_MS = 30;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// `/tool calculator {"expression": "2^10"}` exercises the tool loop offline.
+const TOOL_COMMAND = /^\/tool\s+(\w+)\s*(\{[\s\S]*\})?\s*$/;
+
+/**
+ * Offline provider with deterministic output, for demos and UI work
+ * without an API key. The same input always produces the same reply.
+ */
+export const createMockProvider = (): ChatProvider => ({
+  id: 'mock',
+  label: "Mock",
+  capabilities: {
+    streaming: true,
+    attachmentKinds: ['image', 'pdf', 'text', 'audio'],
+    imageOutput: true,
+    thinking: true,
+    tools: true,
+  },
+
+  startChatStream: async (history, newMessage, onChunk, options = {}) => {
+    const command = options.tools ? TOOL_COMMAND.exec(newMessage.trim()) : null;
+    let toolLine = `- Tools offered: ${options.tools?.declarations.map(tool => tool.name).join(', ') || "none"}`;
+    if (command) {
+      let args: Record<string, unknown> = {};
+      try {
+        args = command[2] ? JSON.parse(command[2]) : {};
+      } catch {
+        // Sent to the tool as-is; argument validation reports the problem.
+      }
+      const call = await options.tools!.execute({ id: `mock_call_${history.length}`, name: command[1], args }, options.signal);
+      toolLine = `- Tool ${call.name}: ${call.status === 'done' ? JSON.stringify(call.result) : `${call.status} (${call.error})`}`;
+    }
+
+    const reply = [
+      `**Mock reply** to: "${newMessage}"`,
+      "",
+      `- Turns in history: ${history.length}`,
+      `- Attachments: ${options.attachments?.length ? options.attachments.map(att => att.name).join(', ') : "none"}`,
+      `- Persona: ${options.persona?.name ?? "default"}`,
+      `- Thinking mode: ${options.thinking ? "on" : "off"}`,
+      toolLine,
+    ].join('\n');
+
+    if (options.thinking && options.onThought) {
+      const thoughts = `**Reading the request**\n\nThe user wrote ${newMessage.length} characters with ${history.length} earlier turns.\n\n**Planning the reply**\n\nA short list of what was received will do.`;
+      for (const chunk of thoughts.match(/\S+\s*/g) ?? []) {
+        await wait(CHUNK_DELAY_MS);
+        if (options.signal?.aborted) return "";
+        options.onThought(chunk);
+      }
+    }
+
+    let fullText = "";
+    for (const chunk of reply.match(/\S+\s*/g) ?? []) {
+      await wait(CHUNK_DELAY_MS);
+      if (options.signal?.aborted) break;
+      fullText += chunk;
+      onChunk(chunk);
+    }
+    // Rough counts (four characters a token) so the usage view has something to show.
+    const prompt = history.map(msg => msg.content).join('') + newMessage;
+    options.onUsage?.({
+      model: 'mock',
+      promptTokens: Math.ceil(prompt.length / 4),
+      outputTokens: Math.ceil(fullText.length / 4),
+      thinkingTokens: options.thinking ? 40 : 0,
+      cachedTokens: 0,
+    });
+    return fullText;
+  },
+
+  processImageTask: async (prompt, imageData, signal, mask) => {
+    await wait(CHUNK_DELAY_MS);
+    signal?.throwIfAborted();
+    return {
+      text: `Mock image task: "${prompt}"${mask ? " (masked)" : ""}`,
+      image: imageData ?? null,
+    };
+  },
+});
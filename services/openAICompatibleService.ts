@@ -0,0 +1,166 @@
+import { Role, Message, Attachment, ChatProvider, OpenAICompatibleConfig, Persona } from "../types";
+import { ChatError, NetworkError, SafetyBlockError, classifyError, withRetry } from "./errors";
+import { decodeText, toDataUrl } from "./attachments";
+import { DEFAULT_PERSONA } from "./personas";
+import { probeUrl } from "./connectivity";
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  model: 'llama3.2',
+  supportsImages: false,
+};
+
+/**
+ * Text files are inlined as text parts. Images become `image_url` parts when
+ * the model takes them; other kinds are refused earlier by the router.
+ */
+const toContent = (text: string, attachments: Attachment[] = [], withImages: boolean) => {
+  const parts = attachments.flatMap((att): any[] => {
+    if (att.kind === 'text') return [{ type: 'text', text: `--- ${att.name} ---\n${decodeText(att)}` }];
+    if (att.kind === 'image' && withImages) return [{ type: 'image_url', image_url: { url: toDataUrl(att) } }];
+    return [];
+  });
+  return parts.length > 0 ? [...parts, { type: 'text', text }] : text;
+};
+
+const toChatMessage = (msg: Message, withImages: boolean) => ({
+  role: msg.role === Role.USER ? 'user' : 'assistant',
+  content: toContent(msg.content, msg.attachments, withImages),
+});
+
+/**
+ * Reads an OpenAI-style `text/event-stream` body and yields the text deltas,
+ * plus the `usage` object servers send in a final chunk when asked to.
+ */
+async function* readEventStream(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith('data:')) continue;
+      const data = trimmed.slice(5).trim();
+      if (data === '[DONE]') return;
+
+      let event: any;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        // Servers occasionally send keep-alive or partial lines; skip them.
+        continue;
+      }
+      const choice = event.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') throw new SafetyBlockError('content_filter');
+      if (choice?.delta?.content) yield { text: choice.delta.content as string };
+      if (event.usage) yield { usage: event.usage };
+    }
+  }
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API, such as
+ * a local llama.cpp server or Ollama.
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): ChatProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const postCompletion = async (messages: unknown[], persona: Persona, signal?: AbortSignal) => {
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: persona.model || config.model,
+        stream: true,
+        stream_options: { include_usage: true },
+        temperature: persona.temperature,
+        top_p: persona.topP,
+        // Not part of the OpenAI API, but llama.cpp, vLLM and others accept it.
+        top_k: persona.topK,
+        ...(persona.maxOutputTokens > 0 ? { max_tokens: persona.maxOutputTokens } : {}),
+        messages,
+      }),
+    });
+
+    if (!response.ok || !response.body) {
+      const detail = await response.text().catch(() => "");
+      throw Object.assign(
+        new Error(`Model server responded with ${response.status}${detail ? `: ${detail}` : ""}`),
+        { status: response.status }
+      );
+    }
+    return response.body;
+  };
+
+  return {
+    id: 'openai-compatible',
+    label: config.model || "OpenAI-compatible",
+    capabilities: {
+      streaming: true,
+      attachmentKinds: config.supportsImages ? ['image', 'text'] : ['text'],
+      imageOutput: false,
+      thinking: false,
+      tools: false,
+    },
+
+    startChatStream: async (history, newMessage, onChunk, options = {}) => {
+      const persona = options.persona ?? DEFAULT_PERSONA;
+      const messages = [
+        ...(persona.systemPrompt ? [{ role: 'system', content: persona.systemPrompt }] : []),
+        ...history.filter(msg => msg.content).map(msg => toChatMessage(msg, config.supportsImages)),
+        { role: 'user', content: toContent(newMessage, options.attachments, true) },
+      ];
+
+      let fullText = "";
+      try {
+        return await withRetry(async () => {
+          const body = await postCompletion(messages, persona, options.signal);
+          for await (const { text, usage } of readEventStream(body)) {
+            if (usage) {
+              options.onUsage?.({
+                model: persona.model || config.model,
+                promptTokens: usage.prompt_tokens ?? 0,
+                outputTokens: (usage.completion_tokens ?? 0) - (usage.completion_tokens_details?.reasoning_tokens ?? 0),
+                thinkingTokens: usage.completion_tokens_details?.reasoning_tokens ?? 0,
+                cachedTokens: usage.prompt_tokens_details?.cached_tokens ?? 0,
+              });
+            }
+            if (!text) continue;
+            fullText += text;
+            onChunk(text);
+          }
+          return fullText;
+        }, {
+          signal: options.signal,
+          // Once text has streamed to the user a retry would repeat it.
+          canRetry: () => fullText === "",
+        });
+      } catch (error: any) {
+        if (options.signal?.aborted) throw error;
+        console.error("OpenAI-compatible API Error:", error);
+        const chatError = classifyError(error);
+        if (chatError instanceof NetworkError) {
+          throw new NetworkError(`Could not reach the model server at ${baseUrl}. Is it running?`, { cause: error });
+        }
+        throw chatError;
+      }
+    },
+
+    checkHealth: (signal) => probeUrl(baseUrl, signal),
+    processImageTask: async () => {
+      throw new ChatError('unknown', "This provider cannot generate or edit images.");
+    },
+  };
+};
@@ -0,0 +1,78 @@
+import { Conversation, Message, Role } from "../types";
+import { findLatestLeaf, getChildren } from "./messageTree";
+
+/**
+ * Prompts written without a connection stay in the conversation tree with a
+ * `delivery` state, so they are stored and shown like any other message.
+ * Each waits for the one before it: a prompt queued under another queued
+ * prompt is moved below that prompt's answer when its own turn comes.
+ *
+ * Every tab sees the same outbox, so only one of them sends it: the tab
+ * holding the OUTBOX_LOCK Web Lock. When it closes, the next tab takes over.
+ */
+
+const OUTBOX_LOCK = 'zuno-outbox';
+
+const isWaiting = (msg: Message) => msg.delivery === 'queued' || msg.delivery === 'sending';
+
+export const countQueued = (conversations: Conversation[]) =>
+  conversations.reduce((sum, conv) => sum + conv.session.messages.filter(isWaiting).length, 0);
+
+export const hasQueued = (messages: Message[]) => messages.some(isWaiting);
+
+/**
+ * The oldest waiting prompt whose parent has been answered. A 'sending'
+ * prompt counts as waiting: when nothing is in flight for the conversation,
+ * its request was cut off by a reload.
+ */
+export const nextInOutbox = (messages: Message[]): Message | undefined => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  return messages
+    .filter(msg => isWaiting(msg) && !(msg.parentId && byId.get(msg.parentId)?.delivery))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())[0];
+};
+
+/** Where `queued` belongs now: below the answer to the prompt it was written after. */
+export const outboxParent = (messages: Message[], queued: Message): string | null => {
+  const parent = messages.find(msg => msg.id === queued.parentId);
+  if (!parent || parent.role !== Role.USER) return queued.parentId ?? null;
+  const answer = getChildren(messages, parent.id).filter(child => child.role === Role.MODEL).pop();
+  return answer ? findLatestLeaf(messages, answer.id) : parent.id;
+};
+
+/**
+ * Waits until this tab is the one that sends the outbox, then calls
+ * `onLead`. The lock is held until the returned function is called or the
+ * tab closes. Browsers without Web Locks lead in every tab.
+ */
+export const leadOutbox = (onLead: () => void) => {
+  if (!navigator.locks) {
+    onLead();
+    return () => {};
+  }
+  const controller = new AbortController();
+  let release: (() => void) | undefined;
+  navigator.locks.request(OUTBOX_LOCK, { signal: controller.signal }, () => {
+    onLead();
+    return new Promise<void>(resolve => { release = resolve; });
+  }).catch(() => {
+    // Aborted while waiting for another tab to let go.
+  });
+  return () => {
+    controller.abort();
+    release?.();
+  };
+};
+
+/** `msg` and everything below it; a cancelled prompt takes the prompts queued after it along. */
+export const collectBranch = (messages: Message[], msg: Message) => {
+  const ids = new Set([msg.id]);
+  const pending = [msg.id];
+  while (pending.length > 0) {
+    for (const child of getChildren(messages, pending.pop()!)) {
+      ids.add(child.id);
+      pending.push(child.id);
+    }
+  }
+  return ids;
+};
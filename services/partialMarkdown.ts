@@ -0,0 +1,44 @@
+/**
+ * Streaming replies are rendered after every chunk, so the markdown is often
+ * cut off mid-block. An unclosed code fence would otherwise swallow the rest
+ * of the message (and flicker between prose and code), and an unclosed `$$`
+ * turns the text after it into a broken formula. Closing them for display
+ * keeps the half-finished reply readable.
+ */
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const MATH_FENCE_PATTERN = /^ {0,3}\$\$/;
+
+/**
+ * Returns `content` with any open code fence or display-math block closed.
+ * Anything past `content.length` in the result was added here, which lets
+ * renderers tell a finished block from one still being written.
+ */
+export const closePartialMarkdown = (content: string): string => {
+  let openFence: { char: string; length: number } | null = null;
+  let inMath = false;
+
+  for (const line of content.split('\n')) {
+    const fence = FENCE_PATTERN.exec(line);
+    if (openFence) {
+      // A closing fence uses the same character, at least as many, and no info string.
+      if (fence && fence[1][0] === openFence.char && fence[1].length >= openFence.length && !fence[2].trim()) {
+        openFence = null;
+      }
+      continue;
+    }
+    if (fence && !(fence[1][0] === '`' && fence[2].includes('`'))) {
+      openFence = { char: fence[1][0], length: fence[1].length };
+      continue;
+    }
+    if (MATH_FENCE_PATTERN.test(line)) {
+      // `$$ x $$` on one line opens and closes in place.
+      const inline = line.trim().length > 2 && line.trim().endsWith('$$');
+      if (!inline) inMath = !inMath;
+    }
+  }
+
+  if (openFence) return `${content}\n${openFence.char.repeat(openFence.length)}`;
+  if (inMath) return `${content}\n$$`;
+  return content;
+};
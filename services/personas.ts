@@ -0,0 +1,104 @@
+import { Persona } from "../types";
+
+const PERSONA_EXPORT_FORMAT = 'zuno-personas';
+const PERSONA_EXPORT_VERSION = 1;
+
+export const DEFAULT_PERSONA: Persona = {
+  id: 'zuno',
+  name: "Zuno",
+  systemPrompt: "You are Zuno, a helpful AI assistant. Format your responses with clear markdown. Be direct, intelligent, and helpful.",
+  model: '',
+  temperature: 0.7,
+  topP: 0.95,
+  topK: 64,
+  maxOutputTokens: 0,
+  thinkingBudget: 32768,
+};
+
+/** Allowed ranges, shared by the editor inputs and import validation. */
+export const PERSONA_LIMITS = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topP: { min: 0, max: 1, step: 0.01 },
+  topK: { min: 1, max: 500, step: 1 },
+  maxOutputTokens: { min: 0, max: 65536, step: 256 },
+  thinkingBudget: { min: 0, max: 32768, step: 1024 },
+};
+
+type NumericField = keyof typeof PERSONA_LIMITS;
+
+export const clampPersonaValue = (field: NumericField, value: number) => {
+  const { min, max, step } = PERSONA_LIMITS[field];
+  const clamped = Math.min(max, Math.max(min, Number.isFinite(value) ? value : min));
+  return step >= 1 ? Math.round(clamped) : clamped;
+};
+
+export class PersonaImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PersonaImportError';
+  }
+}
+
+export const createPersonaId = () => `persona_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const createPersona = (base: Partial<Persona> = {}): Persona => ({
+  ...DEFAULT_PERSONA,
+  name: "New persona",
+  ...base,
+  id: createPersonaId(),
+});
+
+/**
+ * The persona a conversation uses. Conversations can outlive their persona,
+ * in which case they fall back to the first one defined.
+ */
+export const findPersona = (personas: Persona[], id: string | undefined) =>
+  personas.find(persona => persona.id === id) ?? personas[0] ?? DEFAULT_PERSONA;
+
+export const serializePersonas = (personas: Persona[]) =>
+  new Blob([JSON.stringify({
+    format: PERSONA_EXPORT_FORMAT,
+    version: PERSONA_EXPORT_VERSION,
+    personas: personas.map(({ id: _id, ...persona }) => persona),
+  }, null, 2)], { type: 'application/json' });
+
+/**
+ * Reads a personas export, or a single persona object, into new personas
+ * with fresh ids so they never replace presets that already exist.
+ */
+export const parsePersonaImport = (text: string): Persona[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PersonaImportError("The file is not valid JSON.");
+  }
+
+  const entries: unknown[] = data?.format === PERSONA_EXPORT_FORMAT && Array.isArray(data.personas)
+    ? data.personas
+    : Array.isArray(data) ? data : [data];
+  if (entries.length === 0) throw new PersonaImportError("The file has no personas.");
+
+  return entries.map((entry, idx) => {
+    const raw = entry as Record<string, unknown>;
+    if (typeof raw !== 'object' || raw === null || typeof raw.name !== 'string' || !raw.name.trim()) {
+      throw new PersonaImportError(`Persona ${idx + 1} has no name.`);
+    }
+    if (raw.systemPrompt !== undefined && typeof raw.systemPrompt !== 'string') {
+      throw new PersonaImportError(`"${raw.name}" has an invalid system prompt.`);
+    }
+    const persona = createPersona({
+      name: raw.name.trim(),
+      systemPrompt: (raw.systemPrompt as string | undefined) ?? DEFAULT_PERSONA.systemPrompt,
+      model: typeof raw.model === 'string' ? raw.model.trim() : '',
+    });
+    for (const field of Object.keys(PERSONA_LIMITS) as NumericField[]) {
+      if (raw[field] === undefined) continue;
+      if (typeof raw[field] !== 'number') {
+        throw new PersonaImportError(`"${raw.name}" has an invalid ${field}.`);
+      }
+      persona[field] = clampPersonaValue(field, raw[field] as number);
+    }
+    return persona;
+  });
+};
@@ -0,0 +1,236 @@
+import { InlineImage, Provenance } from "../types";
+
+/**
+ * Reads and writes provenance records inside image files: a tEXt chunk in
+ * PNG and an XMP packet (APP1) in JPEG. Other formats are passed through
+ * untouched. The record survives downloads and exports because it lives in
+ * the file bytes, but any editor that re-encodes the image will drop it.
+ */
+
+export const PROVENANCE_GENERATOR = "Zuno AI";
+
+const PNG_KEYWORD = 'zuno.provenance';
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const XMP_NAMESPACE = 'urn:zuno-ai:provenance:1.0';
+
+export type ImageFormat = 'png' | 'jpeg' | 'other';
+
+export const base64ToBytes = (data: string) => Uint8Array.from(atob(data), ch => ch.charCodeAt(0));
+
+export const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked: spreading a large array into fromCharCode overflows the call stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/** Goes by the file's magic bytes, since names and MIME types are easy to get wrong. */
+export const detectImageFormat = (bytes: Uint8Array): ImageFormat => {
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return 'png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return 'jpeg';
+  return 'other';
+};
+
+export const hashPrompt = async (prompt: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(prompt));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const isProvenance = (value: any): value is Provenance =>
+  typeof value === 'object' && value !== null
+  && ['generator', 'model', 'promptHash', 'createdAt'].every(field => typeof value[field] === 'string');
+
+const concat = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+const uint32 = (value: number) => new Uint8Array([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+interface PngChunk {
+  type: string;
+  start: number; // offset of the length field
+  end: number; // offset just past the CRC
+  data: Uint8Array;
+}
+
+const readPngChunks = (bytes: Uint8Array): PngChunk[] => {
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = readUint32(bytes, offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    chunks.push({ type, start: offset, end, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    if (type === 'IEND') break;
+    offset = end;
+  }
+  return chunks;
+};
+
+const pngTextKeyword = (chunk: PngChunk) => {
+  const nul = chunk.data.indexOf(0);
+  return nul === -1 ? null : latin1(chunk.data.subarray(0, nul));
+};
+
+const createPngTextChunk = (keyword: string, text: string) => {
+  // tEXt is Latin-1 only; `toAsciiJson` keeps the record inside that.
+  const body = Uint8Array.from(`${keyword}\0${text}`, ch => ch.charCodeAt(0) & 0xff);
+  const typeAndData = concat(new TextEncoder().encode('tEXt'), body);
+  return concat(uint32(body.length), typeAndData, uint32(crc32(typeAndData)));
+};
+
+const toAsciiJson = (value: unknown) =>
+  JSON.stringify(value).replace(/[\u007f-\uffff]/g, ch => `\\u${ch.charCodeAt(0).toString(16).padStart(4, '0')}`);
+
+const embedInPng = (bytes: Uint8Array, provenance: Provenance) => {
+  const chunks = readPngChunks(bytes);
+  const header = chunks[0];
+  if (header?.type !== 'IHDR') return bytes;
+  // Replace an earlier record (an edit of an edit) instead of stacking them.
+  const kept = chunks.filter(chunk => !(chunk.type === 'tEXt' && pngTextKeyword(chunk) === PNG_KEYWORD));
+  return concat(
+    bytes.subarray(0, PNG_SIGNATURE.length),
+    bytes.subarray(header.start, header.end),
+    createPngTextChunk(PNG_KEYWORD, toAsciiJson(provenance)),
+    ...kept.slice(1).map(chunk => bytes.subarray(chunk.start, chunk.end)),
+  );
+};
+
+const readFromPng = (bytes: Uint8Array): Provenance | null => {
+  const chunk = readPngChunks(bytes).find(chunk => chunk.type === 'tEXt' && pngTextKeyword(chunk) === PNG_KEYWORD);
+  if (!chunk) return null;
+  try {
+    const value = JSON.parse(latin1(chunk.data.subarray(PNG_KEYWORD.length + 1)));
+    return isProvenance(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+interface JpegSegment {
+  marker: number;
+  start: number; // offset of the 0xFF marker byte
+  end: number;
+  data: Uint8Array; // payload after the length field
+}
+
+// Metadata segments all come before the first scan, so reading stops there.
+const readJpegSegments = (bytes: Uint8Array): JpegSegment[] => {
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) break;
+    segments.push({ marker, start: offset, end, data: bytes.subarray(offset + 4, end) });
+    offset = end;
+  }
+  return segments;
+};
+
+const isXmpSegment = (segment: JpegSegment) =>
+  segment.marker === 0xe1 && latin1(segment.data.subarray(0, XMP_HEADER.length)) === XMP_HEADER;
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&quot;/g, '"').replace(/&gt;/g, '>').replace(/&lt;/g, '<').replace(/&amp;/g, '&');
+
+const buildXmpPacket = (provenance: Provenance) => [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+  `<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmlns:zuno="${XMP_NAMESPACE}"`,
+  ` xmp:CreatorTool="${escapeXml(provenance.generator)}"`,
+  ` xmp:CreateDate="${escapeXml(provenance.createdAt)}"`,
+  ` zuno:Model="${escapeXml(provenance.model)}"`,
+  ` zuno:PromptHash="${escapeXml(provenance.promptHash)}"/>`,
+  '</rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>',
+].join('');
+
+const embedInJpeg = (bytes: Uint8Array, provenance: Provenance) => {
+  const segments = readJpegSegments(bytes);
+  const payload = concat(new TextEncoder().encode(XMP_HEADER), new TextEncoder().encode(buildXmpPacket(provenance)));
+  const xmp = concat(new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff]), payload);
+  // JFIF requires its APP0 to come first, so the packet goes right after it.
+  const jfif = segments[0]?.marker === 0xe0 ? segments[0] : null;
+  const insertAt = jfif ? jfif.end : 2;
+  const existing = segments.filter(isXmpSegment);
+  const rest: Uint8Array[] = [];
+  let offset = insertAt;
+  for (const segment of existing) {
+    if (segment.start < offset) continue;
+    rest.push(bytes.subarray(offset, segment.start));
+    offset = segment.end;
+  }
+  rest.push(bytes.subarray(offset));
+  return concat(bytes.subarray(0, insertAt), xmp, ...rest);
+};
+
+const readFromJpeg = (bytes: Uint8Array): Provenance | null => {
+  const segment = readJpegSegments(bytes).find(isXmpSegment);
+  if (!segment) return null;
+  const xml = new TextDecoder().decode(segment.data.subarray(XMP_HEADER.length));
+  if (!xml.includes(XMP_NAMESPACE)) return null;
+  const attribute = (name: string) => {
+    const match = xml.match(new RegExp(`${name}="([^"]*)"`));
+    return match ? unescapeXml(match[1]) : undefined;
+  };
+  const value = {
+    generator: attribute('xmp:CreatorTool'),
+    model: attribute('zuno:Model'),
+    promptHash: attribute('zuno:PromptHash'),
+    createdAt: attribute('xmp:CreateDate'),
+  };
+  return isProvenance(value) ? value : null;
+};
+
+/** Returns the image with `provenance` written into it, or unchanged when the format has no slot for it. */
+export const embedProvenance = (image: InlineImage, provenance: Provenance): InlineImage => {
+  const bytes = base64ToBytes(image.data);
+  switch (detectImageFormat(bytes)) {
+    case 'png': return { ...image, data: bytesToBase64(embedInPng(bytes, provenance)) };
+    case 'jpeg': return { ...image, data: bytesToBase64(embedInJpeg(bytes, provenance)) };
+    default: return image;
+  }
+};
+
+export const readProvenance = (bytes: Uint8Array): Provenance | null => {
+  switch (detectImageFormat(bytes)) {
+    case 'png': return readFromPng(bytes);
+    case 'jpeg': return readFromJpeg(bytes);
+    default: return null;
+  }
+};
@@ -0,0 +1,22 @@
+import { ChatProvider, ProviderId, ProviderSettings } from "../types";
+import { createGeminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider } from "./openAICompatibleService";
+import { createMockProvider } from "./mockService";
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: "Gemini", description: "Google Gemini models with vision, image editing and thinking." },
+  { id: 'openai-compatible', label: "OpenAI-compatible", description: "Any /chat/completions server, e.g. llama.cpp or Ollama." },
+  { id: 'mock', label: "Mock", description: "Deterministic offline replies for demos and testing." },
+];
+
+export const createProvider = (settings: ProviderSettings): ChatProvider => {
+  switch (settings.providerId) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings.openAICompatible);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.gemini);
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Runs model-written JavaScript for the `run_javascript` tool. Each run gets
+ * a fresh `sandbox="allow-scripts"` frame, removed afterwards, that starts a
+ * worker for the code. The frame has an opaque origin, so neither it nor any
+ * worker started from it can reach the page or this origin's storage, and
+ * its Content-Security-Policy blocks every network request, including
+ * `import()` and nested workers loading remote scripts.
+ */
+
+export interface SandboxRequest {
+  code: string;
+}
+
+export type SandboxResponse =
+  | { result: string; logs: string[] }
+  | { error: string; logs: string[] };
+
+// Both functions below are sent as source text, so they must not refer to
+// anything outside themselves.
+
+const workerMain = () => {
+  const scope = self as unknown as Worker;
+  const MAX_OUTPUT_CHARS = 8000;
+
+  const format = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (value === undefined) return 'undefined';
+    try {
+      return JSON.stringify(value, (_key, v) => typeof v === 'bigint' ? `${v}n` : v, 2) ?? String(value);
+    } catch {
+      return String(value);
+    }
+  };
+
+  const clip = (text: string) => text.length > MAX_OUTPUT_CHARS ? `${text.slice(0, MAX_OUTPUT_CHARS)}…` : text;
+
+  scope.onmessage = async (event: MessageEvent<SandboxRequest>) => {
+    const logs: string[] = [];
+    const log = (...values: unknown[]) => logs.push(clip(values.map(format).join(' ')));
+    const sandboxConsole = { log, info: log, warn: log, error: log, debug: log };
+
+    let response: SandboxResponse;
+    try {
+      // The code runs as the body of an async function, so `return` and `await` both work.
+      const run = new Function('console', `"use strict"; return (async () => {\n${event.data.code}\n})();`);
+      const result = await run(sandboxConsole);
+      response = { result: clip(format(result)), logs };
+    } catch (err: any) {
+      response = { error: err?.message ?? String(err), logs };
+    }
+    scope.postMessage(response);
+  };
+};
+
+// Relays the request from the page to the worker and its answer back.
+const frameMain = (workerSource: string) => {
+  const worker = new Worker(URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })));
+  worker.onmessage = (event) => parent.postMessage(event.data, '*');
+  worker.onerror = (event) => {
+    event.preventDefault();
+    parent.postMessage({ error: event.message || "The code could not be run.", logs: [] }, '*');
+  };
+  addEventListener('message', (event) => {
+    if (event.source === parent) worker.postMessage(event.data);
+  });
+};
+
+// 'unsafe-eval' is what lets the worker run the code at all; nothing may be fetched.
+const FRAME_CSP = "default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' blob:; worker-src blob:";
+
+/** The `srcdoc` of a sandbox frame, ready to receive one {@link SandboxRequest}. */
+export const createSandboxDocument = () => {
+  // Escaped so the worker source cannot close the script element.
+  const workerSource = JSON.stringify(`(${workerMain})();`).replace(/</g, '\\u003c');
+  return `<!doctype html><meta http-equiv="Content-Security-Policy" content="${FRAME_CSP}"><script>(${frameMain})(${workerSource});</script>`;
+};
@@ -0,0 +1,115 @@
+import { Conversation, Message } from "../types";
+import { createSearchIndex, SearchDocument, SearchQuery, SearchResult } from "./searchIndex";
+import { hasImage } from "./attachments";
+import type { SearchWorkerRequest, SearchWorkerResponse } from "./searchWorker";
+
+const SYNC_DELAY_MS = 500;
+
+export interface SearchClient {
+  /** Queues re-indexing of whatever changed since the last sync. */
+  schedule: (conversations: Conversation[]) => void;
+  search: (query: SearchQuery) => Promise<SearchResult[]>;
+  dispose: () => void;
+}
+
+const toDocument = (conversationId: string, msg: Message): SearchDocument => ({
+  key: `${conversationId}:${msg.id}`,
+  conversationId,
+  messageId: msg.id,
+  role: msg.role,
+  timestamp: msg.timestamp.getTime(),
+  hasImage: hasImage(msg),
+  content: msg.content,
+});
+
+/**
+ * Main-thread handle on the search index. Indexing and queries run in a
+ * worker; if workers are unavailable the index runs in-thread instead.
+ */
+export const createSearchClient = (): SearchClient => {
+  let worker: Worker | null = null;
+  try {
+    worker = new Worker(new URL('./searchWorker.ts', import.meta.url), { type: 'module' });
+  } catch (err) {
+    console.warn("Search worker unavailable, indexing on the main thread:", err);
+  }
+  const localIndex = worker ? null : createSearchIndex();
+
+  const waiting = new Map<number, (results: SearchResult[]) => void>();
+  let nextRequestId = 1;
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      waiting.get(event.data.requestId)?.(event.data.results);
+      waiting.delete(event.data.requestId);
+    };
+  }
+
+  const send = (request: SearchWorkerRequest) => {
+    if (worker) {
+      worker.postMessage(request);
+    } else if (request.type === 'upsert') {
+      localIndex!.upsert(request.docs);
+    } else if (request.type === 'remove') {
+      localIndex!.remove(request.keys);
+    }
+  };
+
+  // Messages are replaced on every update, so identity tells us what changed.
+  const indexed = new Map<string, Message>();
+  let pending: Conversation[] | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const sync = () => {
+    if (!pending) return;
+    const current = pending;
+    pending = null;
+
+    const docs: SearchDocument[] = [];
+    const liveKeys = new Set<string>();
+    for (const conv of current) {
+      // The reply still being generated is indexed once it completes.
+      const inFlightId = conv.session.isLoading || conv.session.isStreaming ? conv.session.activeLeafId : null;
+      for (const msg of conv.session.messages) {
+        const key = `${conv.id}:${msg.id}`;
+        if (msg.id === inFlightId) continue;
+        liveKeys.add(key);
+        if (indexed.get(key) === msg) continue;
+        indexed.set(key, msg);
+        docs.push(toDocument(conv.id, msg));
+      }
+    }
+    const removed = [...indexed.keys()].filter(key => !liveKeys.has(key));
+    removed.forEach(key => indexed.delete(key));
+
+    if (docs.length > 0) send({ type: 'upsert', docs });
+    if (removed.length > 0) send({ type: 'remove', keys: removed });
+  };
+
+  const schedule = (conversations: Conversation[]) => {
+    pending = conversations;
+    clearTimeout(timer);
+    timer = setTimeout(sync, SYNC_DELAY_MS);
+  };
+
+  const search = (query: SearchQuery): Promise<SearchResult[]> => {
+    // Pick up edits made since the last sync before answering.
+    clearTimeout(timer);
+    sync();
+    if (!worker) return Promise.resolve(localIndex!.search(query));
+
+    const requestId = nextRequestId++;
+    return new Promise(resolve => {
+      waiting.set(requestId, resolve);
+      send({ type: 'search', requestId, query });
+    });
+  };
+
+  const dispose = () => {
+    clearTimeout(timer);
+    worker?.terminate();
+    waiting.forEach(resolve => resolve([]));
+    waiting.clear();
+  };
+
+  return { schedule, search, dispose };
+};
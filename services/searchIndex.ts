@@ -0,0 +1,261 @@
+import { Role } from "../types";
+
+/**
+ * In-memory inverted index over message text. It lives in a Web Worker (see
+ * searchWorker.ts) so indexing long histories never stalls typing or
+ * streaming; `searchClient.ts` is the main-thread side.
+ *
+ * Query syntax: bare words must all appear, `"quoted words"` must appear in
+ * that order, and a trailing `*` matches any word starting with the prefix.
+ * The last bare word is treated as a prefix so results follow the user
+ * while they type.
+ */
+
+const MAX_RESULTS = 50;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+
+export interface SearchDocument {
+  key: string; // `${conversationId}:${messageId}`
+  conversationId: string;
+  messageId: string;
+  role: Role;
+  timestamp: number;
+  hasImage: boolean;
+  content: string;
+}
+
+export interface SearchFilters {
+  role?: Role;
+  from?: number; // inclusive, ms since epoch
+  to?: number; // inclusive, ms since epoch
+  hasImage?: boolean;
+}
+
+export interface SearchQuery extends SearchFilters {
+  text: string;
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: [number, number][]; // offsets into `text`
+  truncatedStart: boolean;
+  truncatedEnd: boolean;
+}
+
+export interface SearchResult {
+  conversationId: string;
+  messageId: string;
+  role: Role;
+  timestamp: number;
+  snippet: SearchSnippet;
+}
+
+interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+interface IndexedDocument extends SearchDocument {
+  tokens: Token[];
+}
+
+interface Clause {
+  words: string[];
+  prefix: boolean; // the last word matches as a prefix
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu;
+
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(WORD_PATTERN), match => ({
+    term: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+
+/**
+ * Splits the query into clauses that must all match: one per quoted phrase
+ * and one per bare word.
+ */
+export const parseQuery = (text: string): Clause[] => {
+  const clauses: Clause[] = [];
+  const pattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  let lastBare: Clause | null = null;
+
+  while ((match = pattern.exec(text))) {
+    const raw = match[1] ?? match[2];
+    const words = tokenize(raw).map(token => token.term);
+    if (words.length === 0) continue;
+    // Bare input like `foo.bar` tokenizes to several words; they stay one clause.
+    const clause = { words, prefix: raw.trimEnd().endsWith('*') };
+    lastBare = match[1] === undefined ? clause : null;
+    clauses.push(clause);
+  }
+
+  const endsWithSpace = /\s$/.test(text);
+  if (lastBare && clauses[clauses.length - 1] === lastBare && !endsWithSpace) {
+    lastBare.prefix = true;
+  }
+  return clauses;
+};
+
+const termMatches = (term: string, word: string, prefix: boolean) =>
+  prefix ? term.startsWith(word) : term === word;
+
+/** Returns the character ranges where `clause` occurs in the document. */
+const findClause = (doc: IndexedDocument, clause: Clause): [number, number][] => {
+  const ranges: [number, number][] = [];
+  const { tokens } = doc;
+  const last = clause.words.length - 1;
+
+  for (let i = 0; i + last < tokens.length; i++) {
+    let matched = true;
+    for (let j = 0; j <= last && matched; j++) {
+      matched = termMatches(tokens[i + j].term, clause.words[j], clause.prefix && j === last);
+    }
+    if (matched) ranges.push([tokens[i].start, tokens[i + last].end]);
+  }
+  return ranges;
+};
+
+const mergeRanges = (ranges: [number, number][]) => {
+  const merged: [number, number][] = [];
+  for (const [from, to] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && from <= last[1]) last[1] = Math.max(last[1], to);
+    else merged.push([from, to]);
+  }
+  return merged;
+};
+
+const buildSnippet = (content: string, ranges: [number, number][]): SearchSnippet => {
+  const sorted = mergeRanges(ranges);
+  const first = sorted[0]?.[0] ?? 0;
+
+  let start = Math.max(0, first - SNIPPET_BEFORE);
+  if (start > 0) {
+    const wordBreak = content.indexOf(' ', start);
+    if (wordBreak !== -1 && wordBreak < first) start = wordBreak + 1;
+  }
+  let end = Math.min(content.length, start + SNIPPET_LENGTH);
+  if (end < content.length) {
+    const wordBreak = content.lastIndexOf(' ', end);
+    if (wordBreak > first) end = wordBreak;
+  }
+
+  return {
+    text: content.slice(start, end).replace(/\s+/g, ' '),
+    highlights: sorted
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]) => {
+        // Offsets shift when runs of whitespace collapse into one space.
+        const shift = (offset: number) => content.slice(start, offset).replace(/\s+/g, ' ').length;
+        return [shift(from), shift(to)] as [number, number];
+      }),
+    truncatedStart: start > 0,
+    truncatedEnd: end < content.length,
+  };
+};
+
+export interface SearchIndex {
+  upsert: (docs: SearchDocument[]) => void;
+  remove: (keys: string[]) => void;
+  search: (query: SearchQuery) => SearchResult[];
+}
+
+export const createSearchIndex = (): SearchIndex => {
+  const docs = new Map<string, IndexedDocument>();
+  const postings = new Map<string, Set<string>>();
+
+  const unlink = (doc: IndexedDocument) => {
+    for (const { term } of doc.tokens) {
+      const keys = postings.get(term);
+      keys?.delete(doc.key);
+      if (keys?.size === 0) postings.delete(term);
+    }
+  };
+
+  const upsert = (incoming: SearchDocument[]) => {
+    for (const doc of incoming) {
+      const previous = docs.get(doc.key);
+      if (previous) unlink(previous);
+      const indexed = { ...doc, tokens: tokenize(doc.content) };
+      docs.set(doc.key, indexed);
+      for (const { term } of indexed.tokens) {
+        if (!postings.has(term)) postings.set(term, new Set());
+        postings.get(term)!.add(doc.key);
+      }
+    }
+  };
+
+  const remove = (keys: string[]) => {
+    for (const key of keys) {
+      const doc = docs.get(key);
+      if (!doc) continue;
+      unlink(doc);
+      docs.delete(key);
+    }
+  };
+
+  /** Documents containing the first word of the clause; a cheap pre-filter. */
+  const candidatesFor = (clause: Clause) => {
+    const word = clause.words[0];
+    const prefix = clause.prefix && clause.words.length === 1;
+    if (!prefix) return postings.get(word) ?? new Set<string>();
+
+    const keys = new Set<string>();
+    for (const [term, termKeys] of postings) {
+      if (term.startsWith(word)) termKeys.forEach(key => keys.add(key));
+    }
+    return keys;
+  };
+
+  const matchesFilters = (doc: IndexedDocument, filters: SearchFilters) =>
+    (filters.role === undefined || doc.role === filters.role)
+    && (filters.from === undefined || doc.timestamp >= filters.from)
+    && (filters.to === undefined || doc.timestamp <= filters.to)
+    && (filters.hasImage === undefined || doc.hasImage === filters.hasImage);
+
+  const search = ({ text, ...filters }: SearchQuery): SearchResult[] => {
+    const clauses = parseQuery(text);
+    if (clauses.length === 0) return [];
+
+    // Start from the rarest clause so the intersection stays small.
+    const candidateSets = clauses.map(candidatesFor).sort((a, b) => a.size - b.size);
+    const scored: { doc: IndexedDocument; ranges: [number, number][] }[] = [];
+
+    for (const key of candidateSets[0]) {
+      if (!candidateSets.every(set => set.has(key))) continue;
+      const doc = docs.get(key)!;
+      if (!matchesFilters(doc, filters)) continue;
+
+      const ranges: [number, number][] = [];
+      let allMatched = true;
+      for (const clause of clauses) {
+        const found = findClause(doc, clause);
+        if (found.length === 0) {
+          allMatched = false;
+          break;
+        }
+        ranges.push(...found);
+      }
+      if (allMatched) scored.push({ doc, ranges });
+    }
+
+    return scored
+      .sort((a, b) => b.ranges.length - a.ranges.length || b.doc.timestamp - a.doc.timestamp)
+      .slice(0, MAX_RESULTS)
+      .map(({ doc, ranges }) => ({
+        conversationId: doc.conversationId,
+        messageId: doc.messageId,
+        role: doc.role,
+        timestamp: doc.timestamp,
+        snippet: buildSnippet(doc.content, ranges),
+      }));
+  };
+
+  return { upsert, remove, search };
+};
@@ -0,0 +1,33 @@
+import { createSearchIndex, SearchDocument, SearchQuery, SearchResult } from "./searchIndex";
+
+export type SearchWorkerRequest =
+  | { type: 'upsert'; docs: SearchDocument[] }
+  | { type: 'remove'; keys: string[] }
+  | { type: 'search'; requestId: number; query: SearchQuery };
+
+export interface SearchWorkerResponse {
+  requestId: number;
+  results: SearchResult[];
+}
+
+const index = createSearchIndex();
+
+// The DOM lib types `self` as a Window; in a dedicated worker it behaves like a Worker port.
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'upsert':
+      index.upsert(request.docs);
+      break;
+    case 'remove':
+      index.remove(request.keys);
+      break;
+    case 'search': {
+      const response: SearchWorkerResponse = { requestId: request.requestId, results: index.search(request.query) };
+      scope.postMessage(response);
+      break;
+    }
+  }
+};
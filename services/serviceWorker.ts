@@ -0,0 +1,19 @@
+/**
+ * Registers `public/sw.js`, which serves the app shell when the network is
+ * down. Production builds only: in development it would serve stale modules
+ * over hot reloading.
+ */
+export const registerServiceWorker = () => {
+  if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    try {
+      const registration = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+      // Scripts and styles of this first load were fetched before the worker existed.
+      const urls = performance.getEntriesByType('resource').map(entry => entry.name);
+      registration.active?.postMessage({ type: 'cache-urls', urls: [location.href, ...urls] });
+    } catch (err) {
+      console.warn("Service worker registration failed:", err);
+    }
+  });
+};
@@ -0,0 +1,69 @@
+import { AppSettings } from "../types";
+import { DEFAULT_GEMINI_SETTINGS } from "./geminiService";
+import { DEFAULT_OPENAI_COMPATIBLE_CONFIG } from "./openAICompatibleService";
+import { DEFAULT_PERSONA } from "./personas";
+import { DEFAULT_TOOL_SETTINGS } from "./toolRegistry";
+import { DEFAULT_VOICE_SETTINGS } from "./speech";
+import { DEFAULT_USAGE_SETTINGS } from "./usage";
+import { DEFAULT_WATERMARK_SETTINGS } from "./watermark";
+import { DEFAULT_IMAGE_UPLOAD_SETTINGS } from "./imagePreprocess";
+
+const SETTINGS_KEY = 'zuno_settings';
+const LEGACY_PROVIDER_SETTINGS_KEY = 'zuno_provider_settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  provider: {
+    providerId: 'gemini',
+    gemini: DEFAULT_GEMINI_SETTINGS,
+    openAICompatible: DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+  },
+  context: {
+    tokenBudget: 32000,
+    keepRecentMessages: 6,
+  },
+  personas: [DEFAULT_PERSONA],
+  defaultPersonaId: DEFAULT_PERSONA.id,
+  tools: DEFAULT_TOOL_SETTINGS,
+  voice: DEFAULT_VOICE_SETTINGS,
+  usage: DEFAULT_USAGE_SETTINGS,
+  watermark: DEFAULT_WATERMARK_SETTINGS,
+  imageUpload: DEFAULT_IMAGE_UPLOAD_SETTINGS,
+};
+
+export const loadSettings = (): AppSettings => {
+  const saved = localStorage.getItem(SETTINGS_KEY);
+  const legacyProvider = localStorage.getItem(LEGACY_PROVIDER_SETTINGS_KEY);
+  if (!saved && !legacyProvider) return DEFAULT_SETTINGS;
+
+  try {
+    const parsed = saved ? JSON.parse(saved) : { provider: JSON.parse(legacyProvider!) };
+    const provider = parsed.provider ?? {};
+    // Merge over the defaults so settings saved by older versions stay valid.
+    return {
+      provider: {
+        ...DEFAULT_SETTINGS.provider,
+        ...provider,
+        gemini: { ...DEFAULT_SETTINGS.provider.gemini, ...provider.gemini },
+        openAICompatible: { ...DEFAULT_SETTINGS.provider.openAICompatible, ...provider.openAICompatible },
+      },
+      context: { ...DEFAULT_SETTINGS.context, ...parsed.context },
+      personas: Array.isArray(parsed.personas) && parsed.personas.length > 0
+        ? parsed.personas.map((persona: any) => ({ ...DEFAULT_PERSONA, ...persona }))
+        : DEFAULT_SETTINGS.personas,
+      defaultPersonaId: parsed.defaultPersonaId ?? DEFAULT_SETTINGS.defaultPersonaId,
+      tools: { ...DEFAULT_SETTINGS.tools, ...parsed.tools },
+      voice: { ...DEFAULT_SETTINGS.voice, ...parsed.voice },
+      usage: { ...DEFAULT_SETTINGS.usage, ...parsed.usage },
+      watermark: { ...DEFAULT_SETTINGS.watermark, ...parsed.watermark },
+      imageUpload: { ...DEFAULT_SETTINGS.imageUpload, ...parsed.imageUpload },
+    };
+  } catch (err) {
+    console.error("Failed to load settings:", err);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_PROVIDER_SETTINGS_KEY);
+};
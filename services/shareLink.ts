@@ -0,0 +1,203 @@
+import { deflateSync, inflateSync, strFromU8, strToU8 } from 'fflate';
+import { Attachment, Conversation, Message } from "../types";
+import { base64ToBlob, blobToBase64 } from "./blobUtils";
+import { buildExportPayload, parseConversationImport } from "./conversationExport";
+
+/**
+ * Read-only links that carry the conversation itself. The JSON export is
+ * deflated and, when a passphrase is given, encrypted with AES-GCM, then put
+ * in the URL fragment, which browsers never send to a server.
+ *
+ *   #share=v1.p.<base64url deflated JSON>
+ *   #share=v1.e.<base64url salt | iv | AES-GCM ciphertext>
+ */
+
+export const SHARE_FRAGMENT_PREFIX = '#share=';
+const LINK_VERSION = 'v1';
+
+// Browsers open far longer links, but chat apps and mail clients often cut them off.
+export const LONG_LINK_CHARS = 8000;
+
+export type ShareImageMode = 'full' | 'downscaled' | 'none';
+
+export const SHARE_IMAGE_OPTIONS: { id: ShareImageMode; label: string }[] = [
+  { id: 'downscaled', label: "Small previews" },
+  { id: 'full', label: "Full size" },
+  { id: 'none', label: "Leave out" },
+];
+
+export interface ShareOptions {
+  range?: [number, number]; // first and last index into the shown branch
+  images: ShareImageMode;
+  passphrase?: string;
+}
+
+export interface ShareFragment {
+  encrypted: boolean;
+  data: string;
+}
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareLinkError';
+  }
+}
+
+const DAMAGED_LINK = "The link is damaged. Ask for it again, or check that it was copied in full.";
+
+const PREVIEW_MAX_DIMENSION = 512;
+const PREVIEW_QUALITY = 0.7;
+const PBKDF2_ITERATIONS = 250_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+// Links are small but deflate can expand them a thousandfold; nothing shared fills more than this.
+const MAX_SHARED_BYTES = 8 * 1024 * 1024;
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  // Spreading a large array into fromCharCode would overflow the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  try {
+    return Uint8Array.from(atob(base64 + '==='.slice((base64.length + 3) % 4)), ch => ch.charCodeAt(0));
+  } catch {
+    throw new ShareLinkError(DAMAGED_LINK);
+  }
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array) => {
+  const material = await crypto.subtle.importKey('raw', strToU8(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (bytes: Uint8Array, passphrase: string) => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes));
+  const sealed = new Uint8Array(SALT_BYTES + IV_BYTES + ciphertext.length);
+  sealed.set(salt);
+  sealed.set(iv, SALT_BYTES);
+  sealed.set(ciphertext, SALT_BYTES + IV_BYTES);
+  return sealed;
+};
+
+const decrypt = async (sealed: Uint8Array, passphrase: string) => {
+  const salt = sealed.subarray(0, SALT_BYTES);
+  const iv = sealed.subarray(SALT_BYTES, SALT_BYTES + IV_BYTES);
+  try {
+    const key = await deriveKey(passphrase, salt);
+    return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, sealed.subarray(SALT_BYTES + IV_BYTES)));
+  } catch {
+    // AES-GCM cannot tell a wrong passphrase from damaged data.
+    throw new ShareLinkError("The passphrase is wrong, or the link is damaged.");
+  }
+};
+
+const encodeCanvas = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', PREVIEW_QUALITY));
+
+/** A small JPEG of `att`, or null when the browser cannot decode it. */
+const toPreview = async (att: Attachment): Promise<Attachment | null> => {
+  const bitmap = await createImageBitmap(base64ToBlob(att.data, att.mimeType)).catch(() => null);
+  if (!bitmap) return null;
+  try {
+    const scale = Math.min(1, PREVIEW_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    const blob = await encodeCanvas(canvas);
+    return blob ? { ...att, mimeType: 'image/jpeg', size: blob.size, data: await blobToBase64(blob) } : null;
+  } finally {
+    bitmap.close();
+  }
+};
+
+// PDFs and audio would make the link unusably long; text files are small enough.
+const shareAttachment = (att: Attachment, images: ShareImageMode): Promise<Attachment | null> | Attachment | null => {
+  if (att.kind === 'text') return att;
+  if (att.kind !== 'image' || images === 'none') return null;
+  return images === 'downscaled' ? toPreview(att) : att;
+};
+
+const prepareMessages = async (branch: Message[], options: ShareOptions): Promise<Message[]> => {
+  const [first, last] = options.range ?? [0, branch.length - 1];
+  const selected = branch.slice(first, last + 1);
+  return Promise.all(selected.map(async (msg, idx) => {
+    const attachments = (await Promise.all((msg.attachments ?? []).map(att => shareAttachment(att, options.images))))
+      .filter((att): att is Attachment => att !== null);
+    return {
+      ...msg,
+      // The range starts a new conversation, so its first message has no parent.
+      parentId: idx === 0 ? null : msg.parentId,
+      attachments: attachments.length > 0 ? attachments : undefined,
+    };
+  }));
+};
+
+/**
+ * Builds a link to `branch`, the messages of `conv` being shown, or to the
+ * part of it picked in `options.range`.
+ */
+export const createShareLink = async (conv: Conversation, branch: Message[], options: ShareOptions) => {
+  const messages = await prepareMessages(branch, options);
+  if (messages.length === 0) throw new ShareLinkError("Pick at least one message to share.");
+  const payload = buildExportPayload(conv, messages, messages[messages.length - 1].id);
+  const packed = deflateSync(strToU8(JSON.stringify(payload)), { level: 9 });
+  const encrypted = !!options.passphrase;
+  const data = toBase64Url(encrypted ? await encrypt(packed, options.passphrase!) : packed);
+  return `${location.origin}${location.pathname}${SHARE_FRAGMENT_PREFIX}${LINK_VERSION}.${encrypted ? 'e' : 'p'}.${data}`;
+};
+
+export const isShareFragment = (hash: string) => hash.startsWith(SHARE_FRAGMENT_PREFIX);
+
+export const readShareFragment = (hash: string): ShareFragment => {
+  const [version, mode, data] = hash.slice(SHARE_FRAGMENT_PREFIX.length).split('.');
+  if (version !== LINK_VERSION && /^v\d+$/.test(version)) {
+    throw new ShareLinkError("This link was made by a newer version of Zuno AI.");
+  }
+  if (version !== LINK_VERSION || (mode !== 'p' && mode !== 'e') || !data) {
+    throw new ShareLinkError(DAMAGED_LINK);
+  }
+  return { encrypted: mode === 'e', data };
+};
+
+/**
+ * Unpacks a shared conversation. It comes back with fresh ids, ready to be
+ * added to this browser's conversations as it is.
+ */
+export const openSharedConversation = async (fragment: ShareFragment, passphrase?: string): Promise<Conversation> => {
+  let bytes = fromBase64Url(fragment.data);
+  if (fragment.encrypted) {
+    if (!passphrase) throw new ShareLinkError("This link is protected with a passphrase.");
+    bytes = await decrypt(bytes, passphrase);
+  }
+  let inflated: Uint8Array;
+  try {
+    // A fixed output buffer stops inflating once it is full instead of growing.
+    inflated = inflateSync(bytes, { out: new Uint8Array(MAX_SHARED_BYTES + 1) });
+  } catch {
+    throw new ShareLinkError(DAMAGED_LINK);
+  }
+  if (inflated.length > MAX_SHARED_BYTES) throw new ShareLinkError("This shared conversation is too large to open.");
+  // The import rejects reply loops, which would otherwise hang rendering.
+  return parseConversationImport(strFromU8(inflated));
+};
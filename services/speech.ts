@@ -0,0 +1,141 @@
+import { VoiceSettings } from "../types";
+
+/**
+ * Browser speech in and out: recognition through the Web Speech API
+ * (`SpeechRecognition`, prefixed in Chrome and Safari) and playback through
+ * `speechSynthesis`. Both are optional; callers check support first.
+ */
+
+export const SPEECH_LANGUAGES = [
+  { code: 'en-US', label: "English (US)" },
+  { code: 'en-GB', label: "English (UK)" },
+  { code: 'en-IN', label: "English (India)" },
+  { code: 'bn-BD', label: "বাংলা (Bangladesh)" },
+  { code: 'bn-IN', label: "বাংলা (India)" },
+  { code: 'hi-IN', label: "हिन्दी" },
+  { code: 'ur-PK', label: "اردو" },
+  { code: 'ar-SA', label: "العربية" },
+  { code: 'es-ES', label: "Español" },
+  { code: 'fr-FR', label: "Français" },
+  { code: 'de-DE', label: "Deutsch" },
+  { code: 'pt-BR', label: "Português (Brasil)" },
+  { code: 'ja-JP', label: "日本語" },
+  { code: 'zh-CN', label: "中文 (普通话)" },
+];
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  recognitionLang: 'en-US',
+  speechLang: 'en-US',
+  voiceURI: '',
+  rate: 1,
+};
+
+export const getSpeechRecognition = (): (new () => any) | null =>
+  (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition || null;
+
+export const hasSpeechSynthesis = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Turns markdown into plain sentences for speaking: code and formulas are
+ * announced rather than spelled out, and formatting marks are dropped.
+ */
+export const stripMarkdown = (markdown: string) =>
+  markdown
+    .replace(/^ {0,3}(`{3,}|~{3,})[^\n]*\n[\s\S]*?(\n {0,3}\1[^\S\n]*(?=\n|$)|$)/gm, ' (code block) ')
+    .replace(/\$\$[\s\S]*?\$\$/g, ' (formula) ')
+    // Inline math hugs its dollars, which keeps prices such as "$5 and $10" as they are.
+    .replace(/(^|[^\\$])\$(?=\S)([^$\n]*?\S)\$(?!\d)/g, '$1 (formula) ')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/^ {0,3}#{1,6}\s+/gm, '')
+    .replace(/^ {0,3}>\s?/gm, '')
+    .replace(/^\s*[-*+]\s+\[[ xX]\]\s+/gm, '')
+    .replace(/^\s*([-*+]|\d+[.)])\s+/gm, '')
+    .replace(/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/gm, '')
+    .replace(/^[^\S\n]*\|(.*?)\|?[^\S\n]*$/gm, '$1')
+    .replace(/\s*\|\s*/g, ', ')
+    .replace(/(\*\*|__|~~)(.+?)\1/g, '$2')
+    .replace(/(^|\W)[*_](\S(?:.*?\S)?)[*_](?=\W|$)/g, '$1$2')
+    .replace(/^ {0,3}([-*_])( *\1){2,} *$/gm, '')
+    .replace(/https?:\/\/\S+/g, 'link')
+    // Line breaks become pauses unless the line already ends in punctuation.
+    .replace(/([^\s.!?:;,।])[^\S\n]*\n+/g, '$1. ')
+    .replace(/\s+/g, ' ')
+    .replace(/\.(\s*\.)+/g, '.')
+    .trim();
+
+// Chrome stops long utterances after about fifteen seconds, so text is queued in sentence-sized pieces.
+const MAX_UTTERANCE_CHARS = 220;
+
+const splitForSpeech = (text: string) => {
+  const sentences = text.match(/[^.!?।]+[.!?।]*\s*/g) ?? [text];
+  const pieces: string[] = [];
+  let current = '';
+  for (const sentence of sentences) {
+    if (current && (current + sentence).length > MAX_UTTERANCE_CHARS) {
+      pieces.push(current);
+      current = '';
+    }
+    current += sentence;
+    while (current.length > MAX_UTTERANCE_CHARS) {
+      const cut = current.lastIndexOf(' ', MAX_UTTERANCE_CHARS);
+      const at = cut > 0 ? cut : MAX_UTTERANCE_CHARS;
+      pieces.push(current.slice(0, at));
+      current = current.slice(at);
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces.map(piece => piece.trim()).filter(Boolean);
+};
+
+export const listVoices = (lang?: string) => {
+  if (!hasSpeechSynthesis()) return [];
+  const voices = window.speechSynthesis.getVoices();
+  if (!lang) return voices;
+  const base = lang.split('-')[0];
+  return voices.filter(voice => voice.lang.replace('_', '-').split('-')[0] === base);
+};
+
+const pickVoice = (settings: VoiceSettings) => {
+  const voices = window.speechSynthesis.getVoices();
+  return voices.find(voice => voice.voiceURI === settings.voiceURI)
+    ?? voices.find(voice => voice.lang.replace('_', '-') === settings.speechLang)
+    ?? listVoices(settings.speechLang)[0]
+    ?? null;
+};
+
+// Chrome can drop the `end` event of utterances it garbage-collects mid-queue.
+let queued: SpeechSynthesisUtterance[] = [];
+
+/**
+ * Speaks `markdown` with the configured voice, replacing anything already
+ * playing. Resolves when playback finishes or is cancelled.
+ */
+export const speak = (markdown: string, settings: VoiceSettings): Promise<void> => {
+  if (!hasSpeechSynthesis()) return Promise.resolve();
+  const synth = window.speechSynthesis;
+  synth.cancel();
+  const pieces = splitForSpeech(stripMarkdown(markdown));
+  const voice = pickVoice(settings);
+
+  return new Promise(resolve => {
+    if (pieces.length === 0) return resolve();
+    queued = pieces.map((piece, idx) => {
+      const utterance = new SpeechSynthesisUtterance(piece);
+      utterance.lang = voice?.lang ?? settings.speechLang;
+      if (voice) utterance.voice = voice;
+      utterance.rate = settings.rate;
+      if (idx === pieces.length - 1) utterance.onend = () => resolve();
+      // Cancelling fires `error` (reason "interrupted" or "canceled") on queued utterances.
+      utterance.onerror = () => resolve();
+      return utterance;
+    });
+    queued.forEach(utterance => synth.speak(utterance));
+  });
+};
+
+export const stopSpeaking = () => {
+  if (hasSpeechSynthesis()) window.speechSynthesis.cancel();
+};
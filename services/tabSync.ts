@@ -0,0 +1,291 @@
+import { ContextSummary, Conversation, Message } from "../types";
+import { createSessionState } from "./conversationStore";
+import { getActivePath } from "./messageTree";
+
+/**
+ * Keeps conversations in step between tabs of the same browser. Each tab
+ * broadcasts the messages it changed, and the others merge them in by
+ * message id. A tab that is generating a reply also announces which
+ * conversations are busy, and the other tabs show those read-only until it
+ * finishes.
+ */
+
+const CHANNEL_NAME = 'zuno-tabs';
+const PUBLISH_DELAY_MS = 100;
+// A tab re-announces its busy conversations while generating, so a tab that
+// crashed mid-reply only locks them until its announcement expires.
+const BUSY_HEARTBEAT_MS = 5000;
+const BUSY_EXPIRY_MS = 3 * BUSY_HEARTBEAT_MS;
+
+/** What changed in one conversation since the sending tab last published it. */
+export interface ConversationPatch {
+  id: string;
+  title: string;
+  pinned: boolean;
+  personaId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  activeLeafId: string | null;
+  contextSummary: ContextSummary | null;
+  upserted: Message[];
+  removedIds: string[];
+}
+
+export interface RemoteChanges {
+  patches: ConversationPatch[];
+  deletedIds: string[]; // whole conversations
+}
+
+type TabMessage =
+  | { type: 'hello'; tabId: string }
+  | { type: 'changes'; tabId: string; changes: RemoteChanges }
+  | { type: 'busy'; tabId: string; conversationIds: string[] }
+  | { type: 'bye'; tabId: string };
+
+export interface TabSync {
+  /** Identifies this tab to the others. */
+  tabId: string;
+  /** Queues a broadcast of whatever changed since the last one. */
+  publish: (conversations: Conversation[]) => void;
+  /** Announces the conversations this tab is generating replies in. */
+  setBusy: (conversationIds: string[]) => void;
+  dispose: () => void;
+}
+
+interface TabSyncHandlers {
+  onChanges: (changes: RemoteChanges) => void;
+  /** Conversations that another tab is generating in. */
+  onLockedChange: (conversationIds: Set<string>) => void;
+}
+
+interface Published {
+  conversation: Conversation;
+  messages: Map<string, Message>;
+}
+
+const isBusy = (conv: Conversation) => conv.session.isLoading || conv.session.isStreaming;
+
+const metadataChanged = (a: Conversation, b: Conversation) =>
+  a.title !== b.title
+  || a.pinned !== b.pinned
+  || a.personaId !== b.personaId
+  || a.updatedAt.getTime() !== b.updatedAt.getTime()
+  || a.session.contextSummary?.upToMessageId !== b.session.contextSummary?.upToMessageId;
+
+/**
+ * Merges a remote patch into the local copy of a conversation. Remote
+ * messages replace local ones with the same id, except while this tab is
+ * generating in the conversation: then its own copies are newer. The view
+ * follows the remote tab only when it was showing the branch that grew.
+ */
+const mergePatch = (local: Conversation | undefined, patch: ConversationPatch): Conversation => {
+  const { upserted, removedIds, activeLeafId: remoteLeafId, contextSummary, ...meta } = patch;
+  if (!local) {
+    return { ...meta, session: { ...createSessionState(upserted, remoteLeafId), contextSummary } };
+  }
+
+  const removed = new Set(removedIds);
+  const keepLocal = isBusy(local);
+  const incoming = new Map(upserted.map(msg => [msg.id, msg]));
+  const messages = local.session.messages
+    .filter(msg => !removed.has(msg.id))
+    .map(msg => (!keepLocal && incoming.get(msg.id)) || msg);
+  const known = new Set(messages.map(msg => msg.id));
+  messages.push(...upserted.filter(msg => !known.has(msg.id)));
+
+  const localLeafId = local.session.activeLeafId;
+  const followRemote = !localLeafId
+    || !messages.some(msg => msg.id === localLeafId)
+    || getActivePath(messages, remoteLeafId).some(msg => msg.id === localLeafId);
+
+  return {
+    ...local,
+    ...meta,
+    updatedAt: local.updatedAt > meta.updatedAt ? local.updatedAt : meta.updatedAt,
+    session: {
+      ...local.session,
+      messages,
+      activeLeafId: followRemote && !keepLocal ? remoteLeafId : localLeafId,
+      contextSummary: keepLocal ? local.session.contextSummary : contextSummary,
+    },
+  };
+};
+
+/** Applies changes broadcast by another tab to this tab's conversations. */
+export const applyRemoteChanges = (conversations: Conversation[], changes: RemoteChanges): Conversation[] => {
+  const deleted = new Set(changes.deletedIds);
+  const patches = new Map(changes.patches.map(patch => [patch.id, patch]));
+  const merged = conversations
+    .filter(conv => !deleted.has(conv.id))
+    .map(conv => patches.has(conv.id) ? mergePatch(conv, patches.get(conv.id)!) : conv);
+  const localIds = new Set(conversations.map(conv => conv.id));
+  const added = changes.patches.filter(patch => !localIds.has(patch.id)).map(patch => mergePatch(undefined, patch));
+  return [...added, ...merged];
+};
+
+const createTabId = () => `tab_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Joins the channel with `initial` as what every tab already has on disk.
+ * Without BroadcastChannel the tab simply runs on its own.
+ */
+export const createTabSync = (initial: Conversation[], handlers: TabSyncHandlers): TabSync => {
+  if (typeof BroadcastChannel === 'undefined') {
+    return { tabId: createTabId(), publish: () => {}, setBusy: () => {}, dispose: () => {} };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  const tabId = createTabId();
+  const post = (message: TabMessage) => channel.postMessage(message);
+
+  // Empty conversations are not saved either, so they stay local to the tab.
+  const shared = (conversations: Conversation[]) => conversations.filter(conv => conv.session.messages.length > 0);
+  const record = (conv: Conversation): Published => ({
+    conversation: conv,
+    messages: new Map(conv.session.messages.map(msg => [msg.id, msg])),
+  });
+  const published = new Map(shared(initial).map(conv => [conv.id, record(conv)]));
+
+  let pending: Conversation[] | null = null;
+  let publishTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const flush = () => {
+    publishTimer = undefined;
+    if (!pending) return;
+    const current = shared(pending);
+    pending = null;
+
+    const patches: ConversationPatch[] = [];
+    for (const conv of current) {
+      const previous = published.get(conv.id);
+      if (previous?.conversation === conv) continue;
+      const upserted = conv.session.messages.filter(msg => previous?.messages.get(msg.id) !== msg);
+      const liveIds = new Set(conv.session.messages.map(msg => msg.id));
+      const removedIds = previous ? [...previous.messages.keys()].filter(id => !liveIds.has(id)) : [];
+      published.set(conv.id, record(conv));
+      if (previous && upserted.length === 0 && removedIds.length === 0 && !metadataChanged(previous.conversation, conv)) continue;
+      patches.push({
+        id: conv.id,
+        title: conv.title,
+        pinned: conv.pinned,
+        personaId: conv.personaId,
+        createdAt: conv.createdAt,
+        updatedAt: conv.updatedAt,
+        activeLeafId: conv.session.activeLeafId,
+        contextSummary: conv.session.contextSummary,
+        upserted,
+        removedIds,
+      });
+    }
+    const liveIds = new Set(current.map(conv => conv.id));
+    const deletedIds = [...published.keys()].filter(id => !liveIds.has(id));
+    deletedIds.forEach(id => published.delete(id));
+
+    if (patches.length > 0 || deletedIds.length > 0) {
+      post({ type: 'changes', tabId, changes: { patches, deletedIds } });
+    }
+  };
+
+  // Throttled rather than debounced, so a streaming reply shows up as it grows.
+  const publish = (conversations: Conversation[]) => {
+    pending = conversations;
+    if (!publishTimer) publishTimer = setTimeout(flush, PUBLISH_DELAY_MS);
+  };
+
+  // What this tab now holds because of `changes`, so it is not sent back.
+  const acknowledge = ({ patches, deletedIds }: RemoteChanges) => {
+    for (const patch of patches) {
+      const entry = published.get(patch.id);
+      if (!entry) {
+        published.set(patch.id, record(mergePatch(undefined, patch)));
+        continue;
+      }
+      patch.removedIds.forEach(id => entry.messages.delete(id));
+      patch.upserted.forEach(msg => entry.messages.set(msg.id, msg));
+      const { title, pinned, personaId, updatedAt, contextSummary } = patch;
+      entry.conversation = {
+        ...entry.conversation,
+        title, pinned, personaId, updatedAt,
+        session: { ...entry.conversation.session, contextSummary },
+      };
+    }
+    deletedIds.forEach(id => published.delete(id));
+  };
+
+  let busyIds: string[] = [];
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  const announceBusy = () => post({ type: 'busy', tabId, conversationIds: busyIds });
+
+  const setBusy = (conversationIds: string[]) => {
+    if (conversationIds.join() === busyIds.join()) return;
+    busyIds = conversationIds;
+    announceBusy();
+    clearInterval(heartbeat);
+    heartbeat = busyIds.length > 0 ? setInterval(announceBusy, BUSY_HEARTBEAT_MS) : undefined;
+  };
+
+  const remoteBusy = new Map<string, { conversationIds: string[]; expiresAt: number }>();
+  let expiryTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const reportLocked = () => {
+    const now = Date.now();
+    for (const [id, entry] of remoteBusy) {
+      if (entry.expiresAt <= now) remoteBusy.delete(id);
+    }
+    handlers.onLockedChange(new Set([...remoteBusy.values()].flatMap(entry => entry.conversationIds)));
+    clearTimeout(expiryTimer);
+    if (remoteBusy.size > 0) {
+      const nextExpiry = Math.min(...[...remoteBusy.values()].map(entry => entry.expiresAt));
+      expiryTimer = setTimeout(reportLocked, nextExpiry - now);
+    }
+  };
+
+  channel.onmessage = (event: MessageEvent<TabMessage>) => {
+    const message = event.data;
+    switch (message.type) {
+      case 'hello':
+        if (busyIds.length > 0) announceBusy();
+        break;
+      case 'changes':
+        acknowledge(message.changes);
+        handlers.onChanges(message.changes);
+        break;
+      case 'busy':
+        if (message.conversationIds.length > 0) {
+          remoteBusy.set(message.tabId, { conversationIds: message.conversationIds, expiresAt: Date.now() + BUSY_EXPIRY_MS });
+        } else {
+          remoteBusy.delete(message.tabId);
+        }
+        reportLocked();
+        break;
+      case 'bye':
+        remoteBusy.delete(message.tabId);
+        reportLocked();
+        break;
+    }
+  };
+
+  // Sent from pagehide too: cleanup effects do not run when a tab closes.
+  const leave = () => {
+    if (publishTimer) {
+      clearTimeout(publishTimer);
+      flush();
+    }
+    post({ type: 'bye', tabId });
+  };
+  window.addEventListener('pagehide', leave);
+  post({ type: 'hello', tabId });
+
+  return {
+    tabId,
+    publish,
+    setBusy,
+    dispose: () => {
+      leave();
+      window.removeEventListener('pagehide', leave);
+      clearInterval(heartbeat);
+      clearTimeout(expiryTimer);
+      channel.close();
+    },
+  };
+};
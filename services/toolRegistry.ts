@@ -0,0 +1,97 @@
+import { ToolCall, ToolDeclaration, ToolParameter, ToolRuntime, ToolSettings } from "../types";
+
+/**
+ * Local tools the model can call. Each tool declares its parameters once;
+ * the same declaration is sent to the provider and used to check the
+ * arguments the model comes back with before the handler sees them.
+ */
+
+export interface ToolDefinition extends ToolDeclaration {
+  label: string; // shown on tool cards and in settings
+  run: (args: Record<string, any>, signal?: AbortSignal) => unknown | Promise<unknown>;
+}
+
+/** Thrown by handlers for bad input; the message is shown to the model so it can correct itself. */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
+
+export const DEFAULT_TOOL_SETTINGS: ToolSettings = {
+  enabled: true,
+  disabledTools: [],
+  askBeforeRunning: ['run_javascript'],
+};
+
+const matchesType = (param: ToolParameter, value: unknown) => {
+  switch (param.type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+  }
+};
+
+export const validateArgs = (tool: ToolDeclaration, args: Record<string, unknown>) => {
+  const { properties, required } = tool.parameters;
+  for (const name of required) {
+    if (args[name] == null) throw new ToolError(`Missing required argument "${name}".`);
+  }
+  for (const [name, value] of Object.entries(args)) {
+    if (value === null || value === undefined) continue;
+    const param = properties[name];
+    if (!param) throw new ToolError(`Unknown argument "${name}".`);
+    if (!matchesType(param, value)) throw new ToolError(`Argument "${name}" must be of type ${param.type}.`);
+    if (param.enum && !param.enum.includes(value as string)) {
+      throw new ToolError(`Argument "${name}" must be one of: ${param.enum.join(', ')}.`);
+    }
+  }
+};
+
+export const toDeclaration = ({ name, description, parameters }: ToolDefinition): ToolDeclaration =>
+  ({ name, description, parameters });
+
+interface ToolRuntimeOptions {
+  tools: ToolDefinition[];
+  settings: ToolSettings;
+  /** Called whenever a call starts, waits, or finishes. */
+  onUpdate: (call: ToolCall) => void;
+  /** Resolves once the user allows or refuses a call that needs approval. */
+  requestApproval: (call: ToolCall, signal?: AbortSignal) => Promise<boolean>;
+}
+
+export const createToolRuntime = ({ tools, settings, onUpdate, requestApproval }: ToolRuntimeOptions): ToolRuntime => {
+  const enabled = tools.filter(tool => !settings.disabledTools.includes(tool.name));
+
+  const execute: ToolRuntime['execute'] = async ({ id, name, args }, signal) => {
+    let call: ToolCall = { id, name, args, status: 'running' };
+    const update = (patch: Partial<ToolCall>) => {
+      call = { ...call, ...patch };
+      onUpdate(call);
+      return call;
+    };
+
+    const tool = enabled.find(candidate => candidate.name === name);
+    if (!tool) return update({ status: 'error', error: `There is no tool called "${name}".` });
+
+    if (settings.askBeforeRunning.includes(name)) {
+      update({ status: 'awaiting-approval' });
+      if (!(await requestApproval(call, signal))) {
+        return update({ status: 'denied', error: "The user declined to run this tool." });
+      }
+    }
+
+    update({ status: 'running' });
+    try {
+      validateArgs(tool, args);
+      const result = await tool.run(args, signal);
+      return update({ status: 'done', result });
+    } catch (err: any) {
+      return update({ status: 'error', error: err?.message ?? String(err) });
+    }
+  };
+
+  return { declarations: enabled.map(toDeclaration), execute };
+};
@@ -0,0 +1,138 @@
+import { BudgetPeriod, Conversation, ModelPrice, TokenUsage, UsageSettings } from "../types";
+
+// Paid-tier list prices at the time of writing, for prompts under 200k tokens.
+export const DEFAULT_MODEL_PRICES: ModelPrice[] = [
+  { model: 'gemini-3-pro', inputPerMillion: 2, outputPerMillion: 12, cachedPerMillion: 0.2 },
+  { model: 'gemini-3-flash', inputPerMillion: 0.5, outputPerMillion: 3, cachedPerMillion: 0.05 },
+  { model: 'gemini-2.5-pro', inputPerMillion: 1.25, outputPerMillion: 10, cachedPerMillion: 0.125 },
+  { model: 'gemini-2.5-flash-image', inputPerMillion: 0.3, outputPerMillion: 30, cachedPerMillion: 0.03 },
+  { model: 'gemini-2.5-flash', inputPerMillion: 0.3, outputPerMillion: 2.5, cachedPerMillion: 0.03 },
+];
+
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: DEFAULT_MODEL_PRICES,
+  budget: 0,
+  budgetPeriod: 'month',
+};
+
+/** Exact match first, then the longest entry the model id starts with. */
+export const findPrice = (prices: ModelPrice[], model: string) =>
+  prices.find(price => price.model === model)
+    ?? prices
+      .filter(price => price.model && model.startsWith(price.model))
+      .sort((a, b) => b.model.length - a.model.length)[0]
+    ?? null;
+
+/** Cost in USD, or null when the model has no price (local and mock models). */
+export const costOf = (usage: TokenUsage, prices: ModelPrice[]) => {
+  const price = findPrice(prices, usage.model);
+  if (!price) return null;
+  const uncachedPrompt = Math.max(0, usage.promptTokens - usage.cachedTokens);
+  return (
+    uncachedPrompt * price.inputPerMillion
+    + usage.cachedTokens * price.cachedPerMillion
+    + (usage.outputTokens + usage.thinkingTokens) * price.outputPerMillion
+  ) / 1e6;
+};
+
+export const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  model: b.model || a.model,
+  promptTokens: a.promptTokens + b.promptTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  thinkingTokens: a.thinkingTokens + b.thinkingTokens,
+  cachedTokens: a.cachedTokens + b.cachedTokens,
+});
+
+export const totalTokens = (usage: TokenUsage) => usage.promptTokens + usage.outputTokens + usage.thinkingTokens;
+
+export interface UsageTotals {
+  responses: number;
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cachedTokens: number;
+  cost: number;
+  unpriced: number; // responses whose model has no price, left out of `cost`
+}
+
+export interface UsageRow {
+  key: string;
+  label: string;
+  totals: UsageTotals;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  byConversation: UsageRow[];
+  byDay: UsageRow[];
+  byModel: UsageRow[];
+}
+
+const emptyTotals = (): UsageTotals => ({
+  responses: 0, promptTokens: 0, outputTokens: 0, thinkingTokens: 0, cachedTokens: 0, cost: 0, unpriced: 0,
+});
+
+const accumulate = (totals: UsageTotals, usage: TokenUsage, cost: number | null) => {
+  totals.responses += 1;
+  totals.promptTokens += usage.promptTokens;
+  totals.outputTokens += usage.outputTokens;
+  totals.thinkingTokens += usage.thinkingTokens;
+  totals.cachedTokens += usage.cachedTokens;
+  if (cost === null) totals.unpriced += 1;
+  else totals.cost += cost;
+};
+
+// Local calendar day, sortable as text.
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const usedMessages = (conversations: Conversation[]) =>
+  conversations.flatMap(conv =>
+    // Every branch counts: abandoned regenerations were paid for too.
+    conv.session.messages.filter(msg => msg.usage).map(msg => ({ conv, msg, usage: msg.usage! }))
+  );
+
+export const summarizeUsage = (conversations: Conversation[], prices: ModelPrice[]): UsageSummary => {
+  const total = emptyTotals();
+  const groups = { byConversation: new Map<string, UsageRow>(), byDay: new Map<string, UsageRow>(), byModel: new Map<string, UsageRow>() };
+  const add = (group: Map<string, UsageRow>, key: string, label: string, usage: TokenUsage, cost: number | null) => {
+    if (!group.has(key)) group.set(key, { key, label, totals: emptyTotals() });
+    accumulate(group.get(key)!.totals, usage, cost);
+  };
+
+  for (const { conv, msg, usage } of usedMessages(conversations)) {
+    const cost = costOf(usage, prices);
+    const day = dayKey(new Date(msg.timestamp));
+    accumulate(total, usage, cost);
+    add(groups.byConversation, conv.id, conv.title, usage, cost);
+    add(groups.byDay, day, day, usage, cost);
+    add(groups.byModel, usage.model, usage.model, usage, cost);
+  }
+
+  const byCost = (a: UsageRow, b: UsageRow) => b.totals.cost - a.totals.cost || b.totals.responses - a.totals.responses;
+  return {
+    total,
+    byConversation: [...groups.byConversation.values()].sort(byCost),
+    byDay: [...groups.byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    byModel: [...groups.byModel.values()].sort(byCost),
+  };
+};
+
+export const periodStart = (period: BudgetPeriod, now = new Date()) =>
+  period === 'day'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+
+/** USD spent since the start of the current budget period. */
+export const spentThisPeriod = (conversations: Conversation[], settings: UsageSettings, now = new Date()) => {
+  const since = periodStart(settings.budgetPeriod, now).getTime();
+  return usedMessages(conversations)
+    .filter(({ msg }) => new Date(msg.timestamp).getTime() >= since)
+    .reduce((sum, { usage }) => sum + (costOf(usage, settings.prices) ?? 0), 0);
+};
+
+export const formatCost = (usd: number) =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatTokens = (count: number) =>
+  count >= 1e6 ? `${(count / 1e6).toFixed(1)}M` : count >= 1e4 ? `${Math.round(count / 1e3)}k` : count.toLocaleString();
@@ -0,0 +1,110 @@
+import { InlineImage, WatermarkPosition, WatermarkSettings } from "../types";
+import { loadImage, toDataUrl } from "./attachments";
+import { blobToBase64 } from "./blobUtils";
+
+export const DEFAULT_WATERMARK_SETTINGS: WatermarkSettings = {
+  enabled: true,
+  kind: 'text',
+  text: "ZUNO AI by SIJAN",
+  logo: null,
+  position: 'bottom-right',
+  scale: 0.25,
+  opacity: 1,
+  embedProvenance: true,
+};
+
+export const WATERMARK_POSITIONS: { id: WatermarkPosition; label: string }[] = [
+  { id: 'top-left', label: "Top left" },
+  { id: 'top-right', label: "Top right" },
+  { id: 'bottom-left', label: "Bottom left" },
+  { id: 'bottom-right', label: "Bottom right" },
+  { id: 'center', label: "Center" },
+];
+
+// Logos are kept in localStorage with the rest of the settings.
+export const MAX_LOGO_BYTES = 256 * 1024;
+
+const JPEG_QUALITY = 0.92;
+
+/** Top-left corner for a `width` × `height` mark, inset from the edges. */
+const placeMark = (position: WatermarkPosition, canvas: HTMLCanvasElement, width: number, height: number) => {
+  const margin = Math.round(Math.min(canvas.width, canvas.height) * 0.02);
+  const left = margin;
+  const right = canvas.width - width - margin;
+  const top = margin;
+  const bottom = canvas.height - height - margin;
+  switch (position) {
+    case 'top-left': return { x: left, y: top };
+    case 'top-right': return { x: right, y: top };
+    case 'bottom-left': return { x: left, y: bottom };
+    case 'bottom-right': return { x: right, y: bottom };
+    case 'center': return { x: (canvas.width - width) / 2, y: (canvas.height - height) / 2 };
+  }
+};
+
+const drawTextMark = (ctx: CanvasRenderingContext2D, text: string, settings: WatermarkSettings) => {
+  const { canvas } = ctx;
+  // Size the font so the text spans `scale` of the image width.
+  ctx.font = 'bold 100px Inter, sans-serif';
+  const fontSize = Math.max(10, 100 * (canvas.width * settings.scale) / Math.max(1, ctx.measureText(text).width));
+  ctx.font = `bold ${fontSize}px Inter, sans-serif`;
+  const padding = fontSize * 0.4;
+  const width = ctx.measureText(text).width + padding * 2;
+  const height = fontSize + padding;
+  const { x, y } = placeMark(settings.position, canvas, width, height);
+
+  // Dark backing keeps the text readable on light images.
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(x, y, width, height);
+  ctx.fillStyle = 'white';
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'center';
+  ctx.fillText(text, x + width / 2, y + height / 2);
+};
+
+const drawLogoMark = async (ctx: CanvasRenderingContext2D, logo: InlineImage, settings: WatermarkSettings) => {
+  const img = await loadImage(toDataUrl(logo));
+  const width = ctx.canvas.width * settings.scale;
+  const height = width * (img.naturalHeight / Math.max(1, img.naturalWidth));
+  const { x, y } = placeMark(settings.position, ctx.canvas, width, height);
+  ctx.drawImage(img, x, y, width, height);
+};
+
+const toBlob = (canvas: HTMLCanvasElement, mimeType: string) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("The image could not be encoded.")), mimeType, JPEG_QUALITY)
+  );
+
+/**
+ * Draws the configured mark onto `image`. The original is returned as is,
+ * bytes and all, when the mark is off or cannot be drawn. Browsers that
+ * cannot encode the source format fall back to PNG, and the returned MIME
+ * type says so.
+ */
+export const applyWatermark = async (image: InlineImage, settings: WatermarkSettings): Promise<InlineImage> => {
+  const text = settings.text.trim();
+  if (!settings.enabled || (settings.kind === 'text' ? !text : !settings.logo)) return image;
+
+  try {
+    const img = await loadImage(toDataUrl(image));
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return image;
+
+    ctx.drawImage(img, 0, 0);
+    ctx.globalAlpha = Math.min(1, Math.max(0, settings.opacity));
+    if (settings.kind === 'text') {
+      drawTextMark(ctx, text, settings);
+    } else {
+      await drawLogoMark(ctx, settings.logo!, settings);
+    }
+
+    const blob = await toBlob(canvas, image.mimeType);
+    return { data: await blobToBase64(blob), mimeType: blob.type || image.mimeType };
+  } catch (err) {
+    console.error("Failed to apply watermark:", err);
+    return image;
+  }
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { BUILTIN_TOOLS, convertUnits, evaluateExpression } from '../services/builtinTools';
+import { ToolError } from '../services/toolRegistry';
+
+const tool = (name: string) => BUILTIN_TOOLS.find(definition => definition.name === name)!;
+
+describe('calculator', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['2 ^ 3 ^ 2', 512],
+    ['2 ** 10', 1024],
+    ['7 % 4 * 2', 6],
+    ['-2 ^ 2', -4],
+    ['2 ^ -1', 0.5],
+    ['--3', 3],
+    ['3 * -2', -6],
+    ['sqrt(16) + max(1, 5, 3)', 9],
+    ['log(1000) + ln(e)', 4],
+    ['.5e1 + 1.', 6],
+  ])('evaluates %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBeCloseTo(expected, 10);
+  });
+
+  it('knows the constants regardless of case', () => {
+    expect(evaluateExpression('2 * PI')).toBeCloseTo(evaluateExpression('tau'), 10);
+  });
+
+  it('reports division by zero as a result that is not finite', async () => {
+    expect(evaluateExpression('1 / 0')).toBe(Infinity);
+    await expect(async () => tool('calculator').run({ expression: '1 / (2 - 2)' })).rejects.toThrow(/not a finite number/);
+  });
+
+  it.each(['foo + 1', 'constructor(1)', 'toString', '__proto__', 'hasOwnProperty(1)'])('rejects the unknown name in %s', (expression) => {
+    expect(() => evaluateExpression(expression)).toThrow(ToolError);
+    expect(() => evaluateExpression(expression)).toThrow(/Unknown symbol/);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => evaluateExpression('1 +')).toThrow(/ended unexpectedly/);
+    expect(() => evaluateExpression('(1 + 2')).toThrow(/Expected "\)"/);
+    expect(() => evaluateExpression('1 2')).toThrow(/Unexpected "2"/);
+  });
+});
+
+describe('unit conversion', () => {
+  it.each([
+    [1, 'mi', 'km', 1.609344],
+    [12, 'inches', 'ft', 1],
+    [1, 'kg', 'lb', 2.20462262185],
+    [1, 'gib', 'mib', 1024],
+    [100, 'km/h', 'm/s', 27.7777777778],
+    [100, 'Celsius', 'f', 212],
+    [0, 'k', '°C', -273.15],
+  ])('converts %s %s to %s', (value, from, to, expected) => {
+    expect(convertUnits(value, from, to)).toBeCloseTo(expected, 8);
+  });
+
+  it('refuses units of different kinds', () => {
+    expect(() => convertUnits(1, 'kg', 'm')).toThrow(/Cannot convert between "kg" and "m"/);
+    expect(() => convertUnits(1, 'c', 'm')).toThrow(/Cannot convert/);
+  });
+
+  it('names a unit it does not know, including inherited property names', () => {
+    expect(() => convertUnits(1, 'furlong', 'm')).toThrow(/Unknown unit "furlong"/);
+    expect(() => convertUnits(1, 'constructor', 'm')).toThrow(/Unknown unit "constructor"/);
+  });
+});
+
+describe('date calculator', () => {
+  it('adds months without running past the end of the month', () => {
+    const result = tool('date_calculator').run({ operation: 'add', start: '2024-01-31T00:00:00Z', amount: 1, unit: 'months' });
+
+    expect(result).toEqual({ start: '2024-01-31T00:00:00.000Z', result: '2024-02-29T00:00:00.000Z' });
+  });
+
+  it('measures the time between two dates', () => {
+    const result = tool('date_calculator').run({ operation: 'difference', start: '2025-03-01T00:00:00Z', end: '2025-03-15T12:00:00Z' });
+
+    expect(result).toMatchObject({ days: 14.5, weeks: 14.5 / 7 });
+  });
+
+  it('rejects dates it cannot read', () => {
+    expect(() => tool('date_calculator').run({ operation: 'difference', start: 'soon' })).toThrow(/"start" is not a valid date/);
+  });
+});
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { processImageTask, startChatStream } from '../services/geminiService';
+import { createRecordingTransport, createReplayTransport, FIXTURE_VERSION, FixtureMismatchError } from '../services/geminiRecorder';
+import { EDIT_PROMPT, loadFixture, MASK_IMAGE, SOURCE_IMAGE, STREAM_PROMPT } from './scenarios';
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+// Replaying a fixture through a recorder must record the same calls again.
+const withoutTiming = (calls: any[]) => calls.map(({ delayMs: _delayMs, chunks, ...call }) =>
+  chunks ? { ...call, chunks: chunks.map(({ response }: any) => response) } : call);
+
+describe('recording transport', () => {
+  it('records requests and the chunk sequence of a stream', async () => {
+    const fixture = loadFixture('chat-stream');
+    let clock = 0;
+    const recorder = createRecordingTransport(createReplayTransport(fixture), () => clock += 10);
+
+    await startChatStream([], STREAM_PROMPT, () => {}, { transport: recorder.transport });
+
+    const recorded = recorder.toFixture('again');
+    expect(recorded).toMatchObject({ version: FIXTURE_VERSION, name: 'again' });
+    expect(withoutTiming(recorded.calls)).toEqual(withoutTiming(fixture.calls));
+    expect(recorded.calls[0].chunks!.every(chunk => chunk.delayMs === 10)).toBe(true);
+  });
+
+  it('records unary calls and the errors they end with', async () => {
+    const images = loadFixture('image-edit-mask');
+    const imageRecorder = createRecordingTransport(createReplayTransport(images));
+    await processImageTask(EDIT_PROMPT, SOURCE_IMAGE, { transport: imageRecorder.transport, mask: MASK_IMAGE });
+    expect(withoutTiming(imageRecorder.toFixture('images').calls)).toEqual(withoutTiming(images.calls));
+
+    const failing = loadFixture('error-auth');
+    const errorRecorder = createRecordingTransport(createReplayTransport(failing));
+    await startChatStream([], "mock-error:401", () => {}, { transport: errorRecorder.transport }).catch(() => {});
+    expect(errorRecorder.toFixture('error').calls[0].error).toEqual(failing.calls[0].error);
+  });
+
+  it('refuses fixtures from another format version', () => {
+    expect(() => createReplayTransport({ ...loadFixture('chat-stream'), version: FIXTURE_VERSION + 1 }))
+      .toThrow(FixtureMismatchError);
+  });
+});
@@ -0,0 +1,123 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { countTokens, startChatStream } from '../services/geminiService';
+import { createReplayTransport, GeminiFixture } from '../services/geminiRecorder';
+import { AuthError, ServiceUnavailableError } from '../services/errors';
+import { TokenUsage } from '../types';
+import { loadFixture, STREAM_PROMPT } from './scenarios';
+
+const recordedText = (fixture: GeminiFixture) =>
+  fixture.calls[0].chunks!.flatMap(chunk => chunk.response.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? '');
+
+beforeEach(() => {
+  // Failed calls log their error; retries wait a random backoff, zero here.
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+describe('startChatStream', () => {
+  it('streams the recorded chunks through onChunk in order', async () => {
+    const fixture = loadFixture('chat-stream');
+    const transport = createReplayTransport(fixture);
+    const chunks: string[] = [];
+    let usage: TokenUsage | undefined;
+
+    const text = await startChatStream([], STREAM_PROMPT, chunk => chunks.push(chunk), {
+      transport,
+      onUsage: next => { usage = next; },
+    });
+
+    expect(chunks).toEqual(recordedText(fixture));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(text).toBe(chunks.join(''));
+    expect(usage).toMatchObject({ model: 'gemini-3-flash-preview', outputTokens: expect.any(Number) });
+    expect(transport.remaining()).toBe(0);
+  });
+
+  it('keeps the recorded pacing when asked to', async () => {
+    vi.useFakeTimers();
+    const fixture = loadFixture('chat-stream');
+    fixture.calls[0].chunks!.forEach(chunk => { chunk.delayMs = 100; });
+    const chunks: string[] = [];
+
+    const done = startChatStream([], STREAM_PROMPT, chunk => chunks.push(chunk), {
+      transport: createReplayTransport(fixture, { pacing: 'original' }),
+    });
+    await vi.advanceTimersByTimeAsync(250);
+    expect(chunks).toHaveLength(2);
+
+    await vi.runAllTimersAsync();
+    await done;
+    expect(chunks).toHaveLength(fixture.calls[0].chunks!.length);
+  });
+
+  it('stops streaming when the request is aborted', async () => {
+    vi.useFakeTimers();
+    const fixture = loadFixture('chat-stream');
+    fixture.calls[0].chunks!.forEach(chunk => { chunk.delayMs = 100; });
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    const done = startChatStream([], STREAM_PROMPT, chunk => chunks.push(chunk), {
+      transport: createReplayTransport(fixture, { pacing: 'original' }),
+      signal: controller.signal,
+    });
+    const settled = expect(done).rejects.toMatchObject({ name: 'AbortError' });
+    await vi.advanceTimersByTimeAsync(150);
+    controller.abort();
+    await settled;
+    expect(chunks).toHaveLength(1);
+  });
+
+  it('rejects a request that differs from the recording', async () => {
+    const transport = createReplayTransport(loadFixture('chat-stream'));
+
+    await expect(startChatStream([], "A different prompt.", () => {}, { transport }))
+      .rejects.toThrow(/differs from the recorded one/);
+  });
+
+  it('fails on a call the fixture does not have', async () => {
+    const transport = createReplayTransport(loadFixture('chat-stream'));
+    await startChatStream([], STREAM_PROMPT, () => {}, { transport });
+
+    await expect(countTokens([], STREAM_PROMPT, { transport })).rejects.toThrow(/no call #2/);
+  });
+});
+
+describe('error paths', () => {
+  it('reports a rejected key as an AuthError without retrying', async () => {
+    const transport = createReplayTransport(loadFixture('error-auth'));
+
+    const error = await startChatStream([], "mock-error:401", () => {}, { transport }).catch(err => err);
+    expect(error).toBeInstanceOf(AuthError);
+    expect(error.status).toBe(401);
+    expect(transport.remaining()).toBe(0);
+  });
+
+  it('retries an unavailable service and gives up after the recorded attempts', async () => {
+    const fixture = loadFixture('error-unavailable');
+    const transport = createReplayTransport(fixture);
+
+    const error = await startChatStream([], "mock-error:503", () => {}, { transport }).catch(err => err);
+    expect(error).toBeInstanceOf(ServiceUnavailableError);
+    expect(fixture.calls.length).toBeGreaterThan(1);
+    expect(transport.remaining()).toBe(0);
+  });
+
+  it('does not retry once text has reached the user', async () => {
+    const fixture = loadFixture('chat-stream');
+    fixture.calls[0].error = { message: "Connection reset", status: 503 };
+    const chunks: string[] = [];
+
+    const error = await startChatStream([], STREAM_PROMPT, chunk => chunks.push(chunk), {
+      transport: createReplayTransport(fixture),
+    }).catch(err => err);
+    expect(error).toBeInstanceOf(ServiceUnavailableError);
+    expect(chunks).toEqual(recordedText(fixture));
+  });
+});
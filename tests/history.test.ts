@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from 'vitest';
+import { startChatStream } from '../services/geminiService';
+import { createReplayTransport } from '../services/geminiRecorder';
+import { Role } from '../types';
+import { FOLLOW_UP_PROMPT, hydrateLegacyHistory, LEGACY_HISTORY, loadFixture, SOURCE_IMAGE } from './scenarios';
+
+describe('history hydration', () => {
+  it('turns the legacy history into a branch with attachments', () => {
+    const history = hydrateLegacyHistory();
+
+    expect(history.map(msg => msg.role)).toEqual([Role.USER, Role.MODEL]);
+    expect(history[0].parentId).toBeNull();
+    expect(history[1].parentId).toBe(history[0].id);
+    expect(history[0].timestamp).toEqual(new Date(LEGACY_HISTORY[0].timestamp));
+    expect(history[0].attachments).toEqual([
+      expect.objectContaining({ kind: 'image', data: SOURCE_IMAGE.data, mimeType: SOURCE_IMAGE.mimeType }),
+    ]);
+  });
+
+  it('sends the hydrated history as the recorded request', async () => {
+    const history = hydrateLegacyHistory();
+    const transport = createReplayTransport(loadFixture('chat-history'));
+    const send = vi.spyOn(transport, 'generateContentStream');
+
+    await startChatStream(history, FOLLOW_UP_PROMPT, () => {}, { transport });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    const contents = send.mock.calls[0][0].contents as any[];
+    expect(contents.map(content => content.role)).toEqual(['user', 'model', 'user']);
+    const [image] = history[0].attachments!;
+    expect(contents[0].parts).toEqual([
+      { inlineData: { data: image.data, mimeType: image.mimeType } },
+      { text: history[0].content },
+    ]);
+    expect(contents[1].parts).toEqual([{ text: history[1].content }]);
+    expect(contents[2].parts).toEqual([{ text: FOLLOW_UP_PROMPT }]);
+    expect(transport.remaining()).toBe(0);
+  });
+});
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGeminiProvider, DEFAULT_GEMINI_SETTINGS } from '../services/geminiService';
+import { createReplayTransport, GeminiFixture } from '../services/geminiRecorder';
+import { resolveRoute } from '../services/intentRouter';
+import { Attachment } from '../types';
+import { EDIT_PROMPT, loadFixture, MASK_IMAGE, SOURCE_IMAGE } from './scenarios';
+
+const photo: Attachment = { id: 'att_1', kind: 'image', name: 'photo.png', size: 68, ...SOURCE_IMAGE };
+
+// The classifier's answer, as a one-chunk stream. Its request is not checked.
+const classifierFixture = (answer: string): GeminiFixture => ({
+  version: 1,
+  name: 'classifier',
+  recordedAt: new Date(0).toISOString(),
+  calls: [{
+    method: 'generateContentStream',
+    request: { model: '', contents: [] },
+    chunks: [{ delayMs: 0, response: { candidates: [{ content: { role: 'model', parts: [{ text: answer }] } }] } as any }],
+  }],
+});
+
+const providerFor = (fixture: GeminiFixture, strict = true) =>
+  createGeminiProvider(DEFAULT_GEMINI_SETTINGS, createReplayTransport(fixture, { strict }));
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('image edit routing', () => {
+  it('routes an auto prompt with an image to editing when the classifier says so', async () => {
+    const provider = providerFor(classifierFixture("edit-image"), false);
+
+    expect(await resolveRoute(provider, 'auto', EDIT_PROMPT, [photo])).toBe('edit-image');
+  });
+
+  it('ignores a route that needs an image when none is attached', async () => {
+    const provider = providerFor(classifierFixture("edit-image"), false);
+
+    expect(await resolveRoute(provider, 'auto', EDIT_PROMPT, [])).toBe('chat');
+  });
+
+  it('falls back to analysis when classification fails', async () => {
+    const fixture = classifierFixture("");
+    fixture.calls[0].chunks = [];
+    fixture.calls[0].error = { message: "Bad request", status: 400 };
+
+    expect(await resolveRoute(providerFor(fixture, false), 'auto', EDIT_PROMPT, [photo])).toBe('analyze');
+  });
+
+  it('sends the mask as a second image with instructions', async () => {
+    const fixture = loadFixture('image-edit-mask');
+    const provider = providerFor(fixture);
+
+    const result = await provider.processImageTask!(EDIT_PROMPT, SOURCE_IMAGE, undefined, MASK_IMAGE);
+
+    const parts = (fixture.calls[0].request.contents as any).parts;
+    expect(parts.map((part: any) => part.inlineData?.data)).toEqual([SOURCE_IMAGE.data, MASK_IMAGE.data, undefined]);
+    expect(parts[2].text).toMatch(/^Make the sky purple\.\n\nThe second image is a mask/);
+    expect(result.image).toEqual({ data: expect.any(String), mimeType: 'image/png' });
+    expect(result.usage?.model).toBe(DEFAULT_GEMINI_SETTINGS.imageModel);
+  });
+
+  it('notices when the mask is left out of the request', async () => {
+    const provider = providerFor(loadFixture('image-edit-mask'));
+
+    await expect(provider.processImageTask!(EDIT_PROMPT, SOURCE_IMAGE)).rejects.toThrow(/differs from the recorded one/);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationImportError, parseConversationImport } from '../services/conversationExport';
+import { findLatestLeaf, getActivePath } from '../services/messageTree';
+import { Message, Role } from '../types';
+
+const message = (id: string, parentId: string | null): Message =>
+  ({ id, parentId, role: Role.USER, content: id, timestamp: new Date(0) });
+
+const exportOf = (messages: Message[]) => JSON.stringify({
+  format: 'zuno-conversation',
+  version: 1,
+  conversation: { title: "Loop", messages },
+});
+
+describe('message tree cycles', () => {
+  it('rejects imports whose replies loop', () => {
+    expect(() => parseConversationImport(exportOf([message('a', 'a')]))).toThrow(ConversationImportError);
+    expect(() => parseConversationImport(exportOf([message('r', null), message('a', 'b'), message('b', 'a')])))
+      .toThrow(/among its own replies/);
+  });
+
+  it('still imports a branching tree', () => {
+    const conversation = parseConversationImport(exportOf([message('r', null), message('a', 'r'), message('b', 'r')]));
+
+    expect(conversation.session.messages).toHaveLength(3);
+  });
+
+  it('stops walking a corrupt stored tree where the loop closes', () => {
+    const looped = [message('a', 'b'), message('b', 'a')];
+
+    expect(getActivePath(looped, 'a').map(msg => msg.id)).toEqual(['b', 'a']);
+    expect(findLatestLeaf(looped, 'a')).toBe('b');
+  });
+});
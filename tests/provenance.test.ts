@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, bytesToBase64, embedProvenance, readProvenance } from '../services/provenance';
+import { Provenance } from '../types';
+import { SOURCE_IMAGE } from './scenarios';
+
+const record: Provenance = {
+  generator: "Zuno AI",
+  model: 'gemini-2.5-flash-image',
+  promptHash: 'ab'.repeat(32),
+  createdAt: '2025-01-02T03:04:05.000Z',
+};
+
+// SOI, a JFIF APP0, a stand-in quantization table, then the scan and EOI.
+const JFIF_APP0 = [0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00];
+const DQT = [0xff, 0xdb, 0x00, 0x04, 0x00, 0x00];
+const SCAN = [0xff, 0xda, 0x00, 0x04, 0x00, 0x00, 0x12, 0x34, 0xff, 0xd9];
+const jpeg = (...segments: number[][]) => ({
+  data: bytesToBase64(new Uint8Array([0xff, 0xd8, ...segments.flat(), ...SCAN])),
+  mimeType: 'image/jpeg',
+});
+
+const embedded = (image: { data: string; mimeType: string }, provenance = record) =>
+  base64ToBytes(embedProvenance(image, provenance).data);
+
+const count = (bytes: Uint8Array, text: string) => new TextDecoder('latin1').decode(bytes).split(text).length - 1;
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = ~0;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) crc = (crc >>> 1) ^ (0xedb88320 & -(crc & 1));
+  }
+  return ~crc >>> 0;
+};
+
+const pngChunks = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: { type: string; crcOk: boolean }[] = [];
+  for (let offset = 8; offset < bytes.length;) {
+    const length = view.getUint32(offset);
+    const typeAndData = bytes.subarray(offset + 4, offset + 8 + length);
+    chunks.push({
+      type: new TextDecoder().decode(typeAndData.subarray(0, 4)),
+      crcOk: view.getUint32(offset + 8 + length) === crc32(typeAndData),
+    });
+    offset += 12 + length;
+  }
+  return chunks;
+};
+
+describe('provenance in PNG', () => {
+  it('writes a valid tEXt chunk after IHDR and reads the record back', () => {
+    const bytes = embedded(SOURCE_IMAGE);
+
+    expect(pngChunks(bytes)).toEqual([
+      { type: 'IHDR', crcOk: true },
+      { type: 'tEXt', crcOk: true },
+      { type: 'IDAT', crcOk: true },
+      { type: 'IEND', crcOk: true },
+    ]);
+    expect(readProvenance(bytes)).toEqual(record);
+  });
+
+  it('keeps characters outside Latin-1 intact', () => {
+    const bytes = embedded(SOURCE_IMAGE, { ...record, model: 'মডেল' });
+
+    expect(readProvenance(bytes)?.model).toBe('মডেল');
+  });
+
+  it('replaces an earlier record instead of adding a second', () => {
+    const first = embedProvenance(SOURCE_IMAGE, record);
+    const bytes = embedded(first, { ...record, model: 'second' });
+
+    expect(count(bytes, 'zuno.provenance')).toBe(1);
+    expect(readProvenance(bytes)?.model).toBe('second');
+  });
+
+  it('finds nothing in an image without a record', () => {
+    expect(readProvenance(base64ToBytes(SOURCE_IMAGE.data))).toBeNull();
+  });
+});
+
+describe('provenance in JPEG', () => {
+  it('puts the XMP packet right after the JFIF header and reads it back', () => {
+    const bytes = embedded(jpeg(JFIF_APP0, DQT));
+
+    expect([...bytes.subarray(0, 2 + JFIF_APP0.length)]).toEqual([0xff, 0xd8, ...JFIF_APP0]);
+    expect([...bytes.subarray(2 + JFIF_APP0.length, 2 + JFIF_APP0.length + 2)]).toEqual([0xff, 0xe1]);
+    expect([...bytes.subarray(bytes.length - SCAN.length - DQT.length)]).toEqual([...DQT, ...SCAN]);
+    expect(readProvenance(bytes)).toEqual(record);
+  });
+
+  it('puts the packet first when there is no JFIF header', () => {
+    const bytes = embedded(jpeg(DQT));
+
+    expect([...bytes.subarray(0, 4)]).toEqual([0xff, 0xd8, 0xff, 0xe1]);
+    expect(readProvenance(bytes)).toEqual(record);
+  });
+
+  it('escapes and restores XML special characters', () => {
+    const bytes = embedded(jpeg(JFIF_APP0), { ...record, model: 'a "b" <c> & d' });
+
+    expect(readProvenance(bytes)?.model).toBe('a "b" <c> & d');
+  });
+
+  it('replaces an earlier packet instead of adding a second', () => {
+    const first = embedProvenance(jpeg(JFIF_APP0, DQT), record);
+    const bytes = embedded(first, { ...record, model: 'second' });
+
+    expect(count(bytes, 'http://ns.adobe.com/xap/1.0/\0')).toBe(1);
+    expect(readProvenance(bytes)?.model).toBe('second');
+    expect([...bytes.subarray(bytes.length - SCAN.length - DQT.length)]).toEqual([...DQT, ...SCAN]);
+  });
+});
+
+describe('other files', () => {
+  it('leaves files that are not PNG or JPEG untouched', () => {
+    const gif = { data: bytesToBase64(new TextEncoder().encode('GIF89a not really')), mimeType: 'image/gif' };
+
+    expect(embedProvenance(gif, record)).toBe(gif);
+    expect(readProvenance(base64ToBytes(gif.data))).toBeNull();
+    expect(readProvenance(new TextEncoder().encode('hello'))).toBeNull();
+  });
+});
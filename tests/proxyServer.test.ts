@@ -0,0 +1,159 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockUpstream } from '../server/mockUpstream';
+import { createProxyServer, ProxyConfig } from '../server/proxyServer';
+import { PROXY_ROUTES, PROXY_TOKEN_HEADER, readServerSentEvents } from '../services/geminiProxy';
+
+const ORIGIN = 'http://localhost:3000';
+const MODEL = 'gemini-3-flash-preview';
+
+const servers: Server[] = [];
+
+const listen = async (server: Server) => {
+  servers.push(server);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const startProxy = async (overrides: Partial<ProxyConfig> = {}) => listen(createProxyServer({
+  apiKey: 'mock-key',
+  upstreamUrl: await listen(createMockUpstream()),
+  allowedOrigins: [ORIGIN],
+  allowedModels: [MODEL],
+  rateLimit: { limit: 30, windowMs: 60000 },
+  maxBodyBytes: 64 * 1024,
+  trustForwardedFor: false,
+  ...overrides,
+}));
+
+const post = (proxyUrl: string, route: string, body: unknown, headers: Record<string, string> = { origin: ORIGIN }) =>
+  fetch(`${proxyUrl}${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+const chatRequest = (text: string, config: object = {}) =>
+  ({ model: MODEL, contents: [{ role: 'user', parts: [{ text }] }], config });
+
+const readEvents = async (response: Response) => {
+  const events: { event: string; data: any }[] = [];
+  for await (const { event, data } of readServerSentEvents(response.body!)) events.push({ event, data: JSON.parse(data) });
+  return events;
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => {
+    server.closeAllConnections();
+    server.close(resolve);
+  })));
+});
+
+describe('proxy server', () => {
+  it('relays the upstream stream as chunk events followed by done', async () => {
+    const proxy = await startProxy();
+
+    const response = await post(proxy, PROXY_ROUTES.chatStream, chatRequest("Hello there"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    const events = await readEvents(response);
+    expect(events.at(-1)).toEqual({ event: 'done', data: {} });
+    const chunks = events.filter(({ event }) => event === 'chunk').map(({ data }) => data);
+    expect(chunks.map(chunk => chunk.candidates[0].content.parts[0].text).join('')).toBe(`Mock reply from ${MODEL}: Hello there`);
+    expect(chunks.every(chunk => !('sdkHttpResponse' in chunk))).toBe(true);
+  });
+
+  it('relays image tasks without the upstream response headers', async () => {
+    const proxy = await startProxy({ allowedModels: ['gemini-2.5-flash-image'] });
+
+    const response = await post(proxy, PROXY_ROUTES.imageTask, { ...chatRequest("A cat"), model: 'gemini-2.5-flash-image' });
+
+    const [chunk, done] = await readEvents(response);
+    expect(chunk.data.candidates[0].content.parts[1].inlineData.mimeType).toBe('image/png');
+    expect(chunk.data).not.toHaveProperty('sdkHttpResponse');
+    expect(done.event).toBe('done');
+  });
+
+  it('passes upstream errors on with their status', async () => {
+    const proxy = await startProxy();
+
+    const response = await post(proxy, PROXY_ROUTES.chatStream, chatRequest("mock-error:503"));
+
+    expect(response.status).toBe(503);
+  });
+
+  it('rejects bodies over the size limit with 413', async () => {
+    const proxy = await startProxy({ maxBodyBytes: 1024 });
+
+    const response = await post(proxy, PROXY_ROUTES.chatStream, chatRequest('x'.repeat(4096)));
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toMatch(/larger than 1024 bytes/);
+  });
+
+  it('answers 429 with Retry-After once a client runs out of requests', async () => {
+    const proxy = await startProxy({ rateLimit: { limit: 2, windowMs: 60000 } });
+
+    for (let i = 0; i < 2; i++) {
+      expect((await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi"))).status).toBe(200);
+    }
+    const limited = await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi"));
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBe(30);
+  });
+
+  it('limits by the address the trusted reverse proxy added, not the one the client claims', async () => {
+    const proxy = await startProxy({ rateLimit: { limit: 1, windowMs: 60000 }, trustForwardedFor: true });
+    const from = (claimed: string) => ({ origin: ORIGIN, 'x-forwarded-for': `${claimed}, 203.0.113.7` });
+
+    expect((await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi"), from('10.0.0.1'))).status).toBe(200);
+    expect((await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi"), from('10.0.0.2'))).status).toBe(429);
+  });
+
+  it('turns away origins that are not allowed', async () => {
+    const proxy = await startProxy();
+
+    const response = await post(proxy, PROXY_ROUTES.chatStream, chatRequest("Hi"), { origin: 'https://elsewhere.example' });
+
+    expect(response.status).toBe(403);
+  });
+
+  it('requires the client token on every request when one is set, whatever the Origin', async () => {
+    const proxy = await startProxy({ clientToken: 'secret' });
+
+    expect((await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi"))).status).toBe(401);
+    expect((await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi"), { [PROXY_TOKEN_HEADER]: 'wrong' })).status).toBe(401);
+    expect((await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi"), { [PROXY_TOKEN_HEADER]: 'secret' })).status).toBe(200);
+  });
+
+  it('only serves the allowed models', async () => {
+    const proxy = await startProxy();
+
+    const response = await post(proxy, PROXY_ROUTES.chatStream, { ...chatRequest("Hi"), model: 'gemini-3-pro-preview' });
+
+    expect(response.status).toBe(403);
+    expect((await response.json()).error.message).toMatch(/does not serve the model/);
+  });
+
+  it('drops httpOptions so the key is never sent to a host the client picks', async () => {
+    const proxy = await startProxy();
+    const trap = vi.fn((_req, res) => res.end('{}'));
+    const trapUrl = await listen(createServer(trap));
+
+    const response = await post(proxy, PROXY_ROUTES.countTokens, chatRequest("Hi", {
+      httpOptions: { baseUrl: trapUrl },
+      temperature: 0.2,
+    }));
+
+    expect(response.status).toBe(200);
+    expect(trap).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { createRateLimiter } from '../server/rateLimiter';
+
+describe('rate limiter', () => {
+  it('allows a burst up to the limit, then reports when the next request is allowed', () => {
+    const limiter = createRateLimiter({ limit: 3, windowMs: 3000 });
+
+    expect([0, 0, 0].map(() => limiter.take('a', 0).allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a', 0)).toEqual({ allowed: false, retryAfterMs: 1000 });
+  });
+
+  it('refills evenly over the window', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 2000 });
+    limiter.take('a', 0);
+    limiter.take('a', 0);
+
+    expect(limiter.take('a', 500)).toEqual({ allowed: false, retryAfterMs: 500 });
+    expect(limiter.take('a', 1000).allowed).toBe(true);
+    expect(limiter.take('a', 1000).allowed).toBe(false);
+  });
+
+  it('never refills past the limit', () => {
+    const limiter = createRateLimiter({ limit: 2, windowMs: 1000 });
+    limiter.take('a', 0);
+
+    const results = [0, 1, 2].map(() => limiter.take('a', 60000).allowed);
+
+    expect(results).toEqual([true, true, false]);
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = createRateLimiter({ limit: 1, windowMs: 1000 });
+
+    expect(limiter.take('a', 0).allowed).toBe(true);
+    expect(limiter.take('a', 0).allowed).toBe(false);
+    expect(limiter.take('b', 0).allowed).toBe(true);
+  });
+});
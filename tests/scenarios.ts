@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs";
+import { InlineImage, Message } from "../types";
+import { processImageTask, startChatStream } from "../services/geminiService";
+import { loadLocalStorageConversations } from "../services/conversationStore";
+import { getActivePath } from "../services/messageTree";
+import { GeminiTransport } from "../services/geminiProxy";
+import { GeminiFixture } from "../services/geminiRecorder";
+
+/**
+ * The calls recorded into `fixtures/gemini/` by `npm run record:fixtures`.
+ * Tests replay them with the same inputs, so a change to what geminiService
+ * sends shows up as a fixture mismatch.
+ */
+
+// 1×1 grayscale PNGs: a mid-gray photo and an all-white mask.
+export const SOURCE_IMAGE: InlineImage = {
+  data: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGNoAAAAggCBd81ytgAAAABJRU5ErkJggg==',
+  mimeType: 'image/png',
+};
+export const MASK_IMAGE: InlineImage = {
+  data: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGP4DwABAQEAsTj2FAAAAABJRU5ErkJggg==',
+  mimeType: 'image/png',
+};
+
+export const STREAM_PROMPT = "Explain the tides in one sentence.";
+export const EDIT_PROMPT = "Make the sky purple.";
+export const FOLLOW_UP_PROMPT = "Now describe it in French.";
+
+// The single global history the first versions of the app kept in localStorage.
+export const LEGACY_HISTORY = [
+  {
+    id: '1700000000000',
+    role: 'user',
+    content: "What color is this?",
+    timestamp: '2023-11-14T22:13:20.000Z',
+    image: SOURCE_IMAGE,
+  },
+  {
+    id: '1700000005000',
+    role: 'model',
+    content: "It is a single mid-gray pixel.",
+    timestamp: '2023-11-14T22:13:25.000Z',
+  },
+];
+
+/** Hydrates {@link LEGACY_HISTORY} the way the app migrates it on first load. */
+export const hydrateLegacyHistory = (): Message[] => {
+  const items = new Map([['zuno_chat_history', JSON.stringify(LEGACY_HISTORY)]]);
+  const previous = (globalThis as any).localStorage;
+  (globalThis as any).localStorage = { getItem: (key: string) => items.get(key) ?? null };
+  try {
+    const [conversation] = loadLocalStorageConversations();
+    return getActivePath(conversation.session.messages, conversation.session.activeLeafId);
+  } finally {
+    (globalThis as any).localStorage = previous;
+  }
+};
+
+export const loadFixture = (name: string): GeminiFixture =>
+  JSON.parse(readFileSync(new URL(`./fixtures/gemini/${name}.json`, import.meta.url), 'utf8'));
+
+export const SCENARIOS: Record<string, (transport: GeminiTransport) => Promise<unknown>> = {
+  'chat-stream': transport => startChatStream([], STREAM_PROMPT, () => {}, { transport }),
+  'chat-history': transport => startChatStream(hydrateLegacyHistory(), FOLLOW_UP_PROMPT, () => {}, { transport }),
+  'image-edit-mask': transport => processImageTask(EDIT_PROMPT, SOURCE_IMAGE, { transport, mask: MASK_IMAGE }),
+  // The mock upstream fails with the status named in the prompt.
+  'error-auth': transport => startChatStream([], "mock-error:401", () => {}, { transport }),
+  'error-unavailable': transport => startChatStream([], "mock-error:503", () => {}, { transport }),
+};
@@ -0,0 +1,37 @@
+import { deflateSync, strToU8 } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { openSharedConversation, ShareFragment } from '../services/shareLink';
+
+const fragmentOf = (bytes: Uint8Array): ShareFragment => ({
+  encrypted: false,
+  data: Buffer.from(deflateSync(bytes, { level: 9 })).toString('base64url'),
+});
+
+const linkTo = (messages: unknown[]) => fragmentOf(strToU8(JSON.stringify({
+  format: 'zuno-conversation',
+  version: 2,
+  conversation: { title: "Shared", messages },
+})));
+
+describe('opening shared links', () => {
+  it('opens a shared conversation', async () => {
+    const conversation = await openSharedConversation(linkTo([
+      { id: 'a', parentId: null, role: 'user', content: "Hi", timestamp: 0 },
+      { id: 'b', parentId: 'a', role: 'model', content: "Hello", timestamp: 1 },
+    ]));
+
+    expect(conversation.session.messages.map(msg => msg.content)).toEqual(["Hi", "Hello"]);
+  });
+
+  it('refuses a link whose replies loop', async () => {
+    await expect(openSharedConversation(linkTo([
+      { id: 'a', parentId: 'b', role: 'user', content: "Hi", timestamp: 0 },
+      { id: 'b', parentId: 'a', role: 'model', content: "Hello", timestamp: 1 },
+    ]))).rejects.toThrow(/among its own replies/);
+  });
+
+  it('stops inflating a link that expands past the size limit', async () => {
+    await expect(openSharedConversation(fragmentOf(new Uint8Array(16 * 1024 * 1024))))
+      .rejects.toThrow(/too large/);
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { stripMarkdown } from '../services/speech';
+
+describe('stripMarkdown', () => {
+  it.each([
+    ['code fences', "Run this:\n\n```ts\nconst x = 1;\n```\n\nThen wait.", "Run this: (code block). Then wait."],
+    ['unclosed fences', "Like so:\n~~~\nnever closed", "Like so: (code block)"],
+    ['inline code', "Call `fetch` first.", "Call fetch first."],
+    ['links and images', "See [the docs](https://example.com) and ![a chart](chart.png).", "See the docs and a chart."],
+    ['bare urls', "Go to https://example.com/page now.", "Go to link now."],
+    ['headings and quotes', "# Title\n> Quoted line", "Title. Quoted line"],
+    ['lists', "Steps:\n- first\n* second\n1. third", "Steps: first. second. third"],
+    ['task lists', "- [x] done\n- [ ] open", "done. open"],
+    ['tables', "| Name | Age |\n| --- | ---: |\n| Ana | 30 |", "Name, Age. Ana, 30"],
+    ['emphasis', "**Bold**, *italic*, __strong__, _soft_ and ~~gone~~.", "Bold, italic, strong, soft and gone."],
+    ['snake_case words', "Set max_tokens here.", "Set max_tokens here."],
+    ['inline math', "The area is $\\pi r^2$ here.", "The area is (formula) here."],
+    ['display math', "Solve\n\n$$\nx^2 = 4\n$$\n\nfor x.", "Solve. (formula). for x."],
+    ['prices', "It costs $5 and $10.", "It costs $5 and $10."],
+    ['escaped dollars', "Use \\$x\\$ literally.", "Use \\$x\\$ literally."],
+    ['Bengali sentence ends', "প্রথম লাইন।\nদ্বিতীয় লাইন", "প্রথম লাইন। দ্বিতীয় লাইন"],
+    ['lines that end in punctuation', "Really?\nYes.\n\nDone", "Really? Yes. Done"],
+  ])('handles %s', (_name, markdown, expected) => {
+    expect(stripMarkdown(markdown)).toBe(expected);
+  });
+});
@@ -6,17 +6,313 @@ export enum Role {
 
 export interface Message {
   id: string;
+  parentId?: string | null; // message this one replies to; null for the first turn
   role: Role;
   content: string;
   timestamp: Date;
-  image?: {
-    data: string; // base64 string
-    mimeType: string;
-  };
+  attachments?: Attachment[]; // files sent by the user, or images produced by the model
+  interrupted?: boolean; // generation was stopped before it finished
+  mode?: ChatMode; // what the user picked when sending
+  route?: ChatRoute; // what the request was actually sent as
+  error?: MessageError; // the request failed; never sent back as history
+  toolCalls?: ToolCall[]; // local tools the model used while writing this reply
+  thoughts?: MessageThoughts; // Thinking Mode reasoning summary; never sent back as history
+  usage?: TokenUsage; // what generating this reply consumed, as reported by the provider
+  delivery?: DeliveryState; // a prompt written offline; missing once it has been answered
+  sendingTab?: string; // the tab that took it from the outbox, while 'sending'
+}
+
+// 'queued': waiting in the outbox for a connection; 'failed': the automatic send did not get an answer.
+export type DeliveryState = 'queued' | 'sending' | 'failed';
+
+export interface TokenUsage {
+  model: string;
+  promptTokens: number; // includes `cachedTokens`
+  outputTokens: number; // the visible answer
+  thinkingTokens: number; // billed like output
+  cachedTokens: number;
+}
+
+export interface MessageThoughts {
+  text: string;
+  startedAt: number; // ms since epoch
+  durationMs?: number; // set once the answer starts; missing while still thinking
 }
 
+export type AttachmentKind = 'image' | 'pdf' | 'text' | 'audio';
+
+export interface Attachment {
+  id: string; // also the key of the stored Blob once persisted
+  kind: AttachmentKind;
+  name: string;
+  mimeType: string;
+  size: number; // bytes
+  data: string; // base64 string
+  purpose?: 'mask'; // painted in the image editor: white marks the region to change
+  sourceId?: string; // for an edited image (or a copy carried into a new turn), the image it came from
+  originalSize?: number; // bytes of the picked file, when it was downscaled or re-encoded before sending
+}
+
+export type ChatErrorKind =
+  | 'auth'
+  | 'rate-limit'
+  | 'safety'
+  | 'network'
+  | 'model-not-found'
+  | 'context-too-long'
+  | 'unavailable'
+  | 'unknown';
+
+export interface MessageError {
+  kind: ChatErrorKind;
+  message: string;
+  blockReason?: string;
+}
+
+export type ChatRoute = 'chat' | 'analyze' | 'edit-image' | 'generate-image';
+
+export type ChatMode = 'auto' | ChatRoute;
+
 export interface ChatSessionState {
-  messages: Message[];
+  messages: Message[]; // every branch of the conversation tree
+  activeLeafId: string | null; // last message of the branch being shown
+  contextSummary: ContextSummary | null;
   isLoading: boolean;
+  isStreaming: boolean;
   error: string | null;
 }
+
+/**
+ * Rolling, model-written summary of the oldest turns of a branch, sent in
+ * their place once the conversation outgrows the token budget.
+ */
+export interface ContextSummary {
+  upToMessageId: string; // last message folded into the summary
+  content: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  pinned: boolean;
+  personaId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  session: ChatSessionState;
+}
+
+export interface InlineImage {
+  data: string; // base64 string
+  mimeType: string;
+}
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+/**
+ * What a provider can do, so the UI can route requests it cannot serve.
+ */
+export interface ProviderCapabilities {
+  streaming: boolean;
+  attachmentKinds: AttachmentKind[]; // files a chat request can carry
+  imageOutput: boolean;
+  thinking: boolean;
+  tools: boolean; // can call local tools (function calling)
+}
+
+/**
+ * A named preset for how the model answers. Every conversation uses one;
+ * requests made without one (summaries, routing) use the built-in default.
+ */
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model: string; // replaces the provider's model choice; empty to keep it
+  temperature: number;
+  topP: number;
+  topK: number;
+  maxOutputTokens: number; // 0 for the model's own limit
+  thinkingBudget: number; // tokens, used when Thinking Mode is on
+}
+
+export type ToolParameterType = 'string' | 'number' | 'integer' | 'boolean';
+
+export interface ToolParameter {
+  type: ToolParameterType;
+  description: string;
+  enum?: string[];
+}
+
+/** What the model is told about a tool; the JSON schema subset every provider accepts. */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: {
+    type: 'object';
+    properties: Record<string, ToolParameter>;
+    required: string[];
+  };
+}
+
+export type ToolCallStatus = 'awaiting-approval' | 'running' | 'done' | 'error' | 'denied';
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: ToolCallStatus;
+  result?: unknown; // what the handler returned, sent back to the model
+  error?: string;
+}
+
+/**
+ * Runs the tools offered to the model during one reply. Providers send the
+ * declarations, hand every requested call to `execute` and send the
+ * response back before continuing the stream.
+ */
+export interface ToolRuntime {
+  declarations: ToolDeclaration[];
+  execute: (call: { id: string; name: string; args: Record<string, unknown> }, signal?: AbortSignal) => Promise<ToolCall>;
+}
+
+export interface ChatStreamOptions {
+  thinking?: boolean;
+  persona?: Persona;
+  attachments?: Attachment[];
+  tools?: ToolRuntime;
+  /** Receives thought summary text, kept apart from the answer passed to `onChunk`. */
+  onThought?: (text: string) => void;
+  /** Receives the running token usage, summed over tool rounds, as the provider reports it. */
+  onUsage?: (usage: TokenUsage) => void;
+  signal?: AbortSignal;
+}
+
+export interface ImageTaskResult {
+  text: string;
+  image: InlineImage | null;
+  usage?: TokenUsage;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  capabilities: ProviderCapabilities;
+  /** Whether the backend answers right now; missing for providers that need no network. */
+  checkHealth?: (signal?: AbortSignal) => Promise<boolean>;
+  /** Exact token count for a request, when the backend can tell us. */
+  countTokens?: (history: Message[], newMessage: string, options?: ChatStreamOptions) => Promise<number>;
+  startChatStream: (
+    history: Message[],
+    newMessage: string,
+    onChunk: (text: string) => void,
+    options?: ChatStreamOptions
+  ) => Promise<string>;
+  /** `mask` limits an edit of `imageData` to the region painted white. */
+  processImageTask: (prompt: string, imageData?: InlineImage, signal?: AbortSignal, mask?: InlineImage) => Promise<ImageTaskResult>;
+}
+
+export interface GeminiModelConfig {
+  chatModel: string;
+  reasoningModel: string;
+  imageModel: string;
+}
+
+// 'direct' calls Google with the key baked into the build; 'proxy' goes through server/.
+export type GeminiTransportMode = 'direct' | 'proxy';
+
+export interface GeminiSettings extends GeminiModelConfig {
+  transport: GeminiTransportMode;
+  proxyUrl: string;
+}
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  supportsImages: boolean;
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  gemini: GeminiSettings;
+  openAICompatible: OpenAICompatibleConfig;
+}
+
+export interface ContextSettings {
+  tokenBudget: number;
+  keepRecentMessages: number; // never dropped or summarized
+}
+
+export interface ToolSettings {
+  enabled: boolean;
+  disabledTools: string[];
+  askBeforeRunning: string[]; // tool names that wait for the user's approval
+}
+
+export interface VoiceSettings {
+  recognitionLang: string; // BCP 47 tag for speech recognition
+  speechLang: string; // BCP 47 tag for read-aloud
+  voiceURI: string; // a specific synthesis voice; empty picks one for `speechLang`
+  rate: number;
+}
+
+/** USD per million tokens. `model` also matches longer ids it is a prefix of. */
+export interface ModelPrice {
+  model: string;
+  inputPerMillion: number;
+  outputPerMillion: number;
+  cachedPerMillion: number;
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsageSettings {
+  prices: ModelPrice[];
+  budget: number; // USD per period; 0 turns the warning off
+  budgetPeriod: BudgetPeriod;
+}
+
+export type WatermarkKind = 'text' | 'logo';
+export type WatermarkPosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+
+export interface WatermarkSettings {
+  enabled: boolean; // the visible mark; provenance is embedded separately
+  kind: WatermarkKind;
+  text: string;
+  logo: InlineImage | null;
+  position: WatermarkPosition;
+  scale: number; // width of the mark as a fraction of the image width
+  opacity: number; // 0-1
+  embedProvenance: boolean;
+}
+
+/** Written into generated images so their origin can be checked later. */
+export interface Provenance {
+  generator: string;
+  model: string;
+  promptHash: string; // SHA-256 of the prompt, hex
+  createdAt: string; // ISO 8601
+}
+
+// 'original' keeps the picked format where the model accepts it.
+export type ImageOutputFormat = 'original' | 'image/jpeg' | 'image/webp' | 'image/png';
+
+export interface ImageUploadSettings {
+  optimize: boolean; // off sends picked images exactly as they are
+  maxDimension: number; // longest side in pixels
+  format: ImageOutputFormat;
+  quality: number; // 0-1, for JPEG and WebP
+  stripMetadata: boolean; // drop EXIF (including GPS) even when nothing else changes
+}
+
+export interface AppSettings {
+  provider: ProviderSettings;
+  context: ContextSettings;
+  personas: Persona[];
+  defaultPersonaId: string; // assigned to new conversations
+  tools: ToolSettings;
+  voice: VoiceSettings;
+  usage: UsageSettings;
+  watermark: WatermarkSettings;
+  imageUpload: ImageUploadSettings;
+}
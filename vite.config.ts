@@ -1,9 +1,16 @@
+import fs from 'fs';
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ command, mode }) => {
     const env = loadEnv(mode, '.', '');
+    // The key stays on the proxy server (see server/). Only the local dev server inlines it,
+    // unless a build opts in with GEMINI_INLINE_KEY=1, so a deployed bundle never carries it by accident.
+    const inlineKey = !env.GEMINI_PROXY_URL && (command === 'serve' || env.GEMINI_INLINE_KEY === '1');
+    const apiKey = inlineKey ? env.GEMINI_API_KEY : undefined;
+    // A recorded fixture (see services/geminiRecorder.ts) that Gemini chats replay instead of calling the API.
+    const replayFixture = env.GEMINI_REPLAY_FIXTURE ? fs.readFileSync(env.GEMINI_REPLAY_FIXTURE, 'utf8') : '';
     return {
       server: {
         port: 3000,
@@ -11,8 +18,12 @@ export default defineConfig(({ mode }) => {
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_API_KEY': JSON.stringify(apiKey),
+        'process.env.GEMINI_PROXY_URL': JSON.stringify(env.GEMINI_PROXY_URL ?? ''),
+        // Readable by anyone who loads the build, like the proxy URL itself.
+        'process.env.GEMINI_PROXY_TOKEN': JSON.stringify(env.GEMINI_PROXY_TOKEN ?? ''),
+        'process.env.GEMINI_REPLAY_FIXTURE': JSON.stringify(replayFixture)
       },
       resolve: {
         alias: {